@@ -0,0 +1,39 @@
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Server } from "lucide-react";
+import { useSelectedCluster } from "@/hooks/useSelectedCluster";
+
+// Picks the cluster this browser tab works in; monitoring is configured separately in settings
+export const ClusterSwitcher = () => {
+  const { clusters, selectedCluster, selectCluster } = useSelectedCluster();
+
+  if (clusters.length === 0) {
+    return (
+      <div className="flex items-center space-x-2 text-sm text-terminal-dim">
+        <Server className="h-4 w-4" />
+        <span>No clusters</span>
+      </div>
+    );
+  }
+
+  return (
+    <Select value={selectedCluster?.id} onValueChange={selectCluster}>
+      <SelectTrigger className="w-56 border-terminal-border">
+        <Server className="h-4 w-4 mr-2 flex-shrink-0" />
+        <SelectValue placeholder="Select cluster" />
+      </SelectTrigger>
+      <SelectContent>
+        {clusters.map((cluster) => (
+          <SelectItem key={cluster.id} value={cluster.id}>
+            <span className="flex items-center space-x-2">
+              <span
+                className={`w-2 h-2 rounded-full ${cluster.is_monitored ? "bg-terminal-success" : "bg-muted"}`}
+                title={cluster.is_monitored ? "Monitored" : "Not monitored"}
+              />
+              <span>{cluster.name}</span>
+            </span>
+          </SelectItem>
+        ))}
+      </SelectContent>
+    </Select>
+  );
+};
@@ -5,6 +5,9 @@ import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import { ScrollArea } from "@/components/ui/scroll-area";
 import { Settings, LogOut, User, Activity, Server, Database, AlertTriangle } from "lucide-react";
 import { PodsList } from "./PodsList";
+import { WorkloadsList } from "./WorkloadsList";
+import { NodesList } from "./NodesList";
+import { NetworkingExplorer } from "./NetworkingExplorer";
 import { LogViewer } from "./LogViewer";
 import { Terminal } from "./Terminal";
 import { ClusterConfig } from "./ClusterConfig";
@@ -12,12 +15,21 @@ import { SmartAlerts } from "./SmartAlerts";
 import { TrendAnalysis } from "./TrendAnalysis";
 import { ClusterHealthDashboard } from "./ClusterHealthDashboard";
 import { CollaborationDashboard } from "./CollaborationDashboard";
+import { ClusterSwitcher } from "./ClusterSwitcher";
+import { NamespaceSwitcher } from "./NamespaceSwitcher";
 import { useAuth } from "@/hooks/useAuth";
+import { SelectedClusterProvider } from "./SelectedClusterProvider";
+import { useNodes } from "@/hooks/useNodes";
+
+// Lives inside the provider, which Dashboard itself renders
+const NodeCount = () => {
+  const { data: nodes } = useNodes();
+  return <>{nodes ? nodes.length : "-"}</>;
+};
 
 const Dashboard = () => {
   const { user, signOut } = useAuth();
   const clusterStats = {
-    nodes: 3,
     pods: 24,
     services: 8,
     deployments: 6
@@ -30,12 +42,15 @@ const Dashboard = () => {
   ];
 
   return (
+    <SelectedClusterProvider>
     <div className="min-h-screen bg-terminal-bg text-terminal-text">
       <div className="border-b border-terminal-border bg-terminal-bg/80 backdrop-blur-sm">
         <div className="max-w-7xl mx-auto px-6 py-4">
           <div className="flex items-center justify-between">
             <h1 className="text-2xl font-bold text-terminal-primary">KubeDebug Dashboard</h1>
             <div className="flex items-center space-x-4">
+              <ClusterSwitcher />
+              <NamespaceSwitcher />
               <div className="flex items-center space-x-2 text-sm text-terminal-dim">
                 <User className="h-4 w-4" />
                 <span>{user?.email}</span>
@@ -56,12 +71,15 @@ const Dashboard = () => {
       
       <div className="max-w-7xl mx-auto p-6">
         <Tabs defaultValue="overview" className="space-y-6">
-          <TabsList className="grid w-full grid-cols-8 bg-terminal-highlight/20">
+          <TabsList className="grid w-full grid-cols-11 bg-terminal-highlight/20">
             <TabsTrigger value="overview">Overview</TabsTrigger>
             <TabsTrigger value="health">Health</TabsTrigger>
             <TabsTrigger value="alerts">Alerts</TabsTrigger>
             <TabsTrigger value="trends">AI Analysis</TabsTrigger>
             <TabsTrigger value="collaboration">Collaboration</TabsTrigger>
+            <TabsTrigger value="workloads">Workloads</TabsTrigger>
+            <TabsTrigger value="nodes">Nodes</TabsTrigger>
+            <TabsTrigger value="networking">Networking</TabsTrigger>
             <TabsTrigger value="pods">Pods</TabsTrigger>
             <TabsTrigger value="logs">Logs</TabsTrigger>
             <TabsTrigger value="settings">Settings</TabsTrigger>
@@ -75,7 +93,7 @@ const Dashboard = () => {
             <CardContent className="flex items-center justify-between p-4">
               <div>
                 <p className="text-sm text-muted-foreground">Nodes</p>
-                <p className="text-2xl font-bold text-terminal-success">{clusterStats.nodes}</p>
+                <p className="text-2xl font-bold text-terminal-success"><NodeCount /></p>
               </div>
               <Server className="h-8 w-8 text-terminal-accent" />
             </CardContent>
@@ -174,6 +192,18 @@ const Dashboard = () => {
             <SmartAlerts />
           </TabsContent>
           
+          <TabsContent value="workloads">
+            <WorkloadsList />
+          </TabsContent>
+          
+          <TabsContent value="nodes">
+            <NodesList />
+          </TabsContent>
+          
+          <TabsContent value="networking">
+            <NetworkingExplorer />
+          </TabsContent>
+          
           <TabsContent value="pods">
             <PodsList />
           </TabsContent>
@@ -196,6 +226,7 @@ const Dashboard = () => {
         </Tabs>
       </div>
     </div>
+    </SelectedClusterProvider>
   );
 };
 
@@ -0,0 +1,86 @@
+import { useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle, DialogTrigger } from '@/components/ui/dialog';
+import { Download } from 'lucide-react';
+import { useToast } from '@/hooks/use-toast';
+import { buildKubeconfig } from '@/lib/kubeconfig';
+import { exportClusterConfig } from '@/lib/clusterCredentials';
+
+interface KubeconfigExportProps {
+  clusterId: string;
+  clusterName: string;
+}
+
+export function KubeconfigExport({ clusterId, clusterName }: KubeconfigExportProps) {
+  const { toast } = useToast();
+  const [isOpen, setIsOpen] = useState(false);
+  const [includeCredentials, setIncludeCredentials] = useState(false);
+  const [exporting, setExporting] = useState(false);
+
+  const handleExport = async () => {
+    setExporting(true);
+    try {
+      const cluster = await exportClusterConfig(clusterId, includeCredentials);
+      const text = buildKubeconfig(cluster, { includeCredentials });
+      const url = URL.createObjectURL(new Blob([text], { type: 'application/yaml' }));
+      const link = document.createElement('a');
+      link.href = url;
+      link.download = `${clusterName}.kubeconfig`;
+      link.click();
+      URL.revokeObjectURL(url);
+      setIsOpen(false);
+    } catch (error) {
+      toast({
+        title: "Error exporting kubeconfig",
+        description: error instanceof Error ? error.message : String(error),
+        variant: "destructive"
+      });
+    } finally {
+      setExporting(false);
+    }
+  };
+
+  return (
+    <Dialog open={isOpen} onOpenChange={setIsOpen}>
+      <DialogTrigger asChild>
+        <Button size="sm" variant="outline" title="Export kubeconfig">
+          <Download className="h-4 w-4" />
+        </Button>
+      </DialogTrigger>
+      <DialogContent className="sm:max-w-[425px]">
+        <DialogHeader>
+          <DialogTitle>Export kubeconfig</DialogTitle>
+          <DialogDescription>
+            Download a kubeconfig for {clusterName} that points local kubectl at the same endpoint, CA and namespace
+          </DialogDescription>
+        </DialogHeader>
+        <div className="space-y-4">
+          <div className="flex items-center justify-between">
+            <div className="space-y-1">
+              <Label htmlFor="include-credentials">Include credentials</Label>
+              <p className="text-xs text-muted-foreground">
+                Off leaves the user entry empty so each person adds their own token
+              </p>
+            </div>
+            <Switch
+              id="include-credentials"
+              checked={includeCredentials}
+              onCheckedChange={setIncludeCredentials}
+            />
+          </div>
+          <div className="flex justify-end space-x-2">
+            <Button type="button" variant="outline" onClick={() => setIsOpen(false)}>
+              Cancel
+            </Button>
+            <Button type="button" onClick={handleExport} disabled={exporting}>
+              <Download className="h-4 w-4 mr-2" />
+              {exporting ? 'Exporting...' : 'Download'}
+            </Button>
+          </div>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,201 @@
+import { useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { Badge } from '@/components/ui/badge';
+import { Checkbox } from '@/components/ui/checkbox';
+import { ScrollArea } from '@/components/ui/scroll-area';
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle, DialogTrigger } from '@/components/ui/dialog';
+import { FileUp, AlertTriangle } from 'lucide-react';
+import { supabase } from '@/integrations/supabase/client';
+import { useAuth } from '@/hooks/useAuth';
+import { useToast } from '@/hooks/use-toast';
+import { parseKubeconfig, type KubeconfigContext } from '@/lib/kubeconfig';
+import { saveClusterCredentials } from '@/lib/clusterCredentials';
+
+interface KubeconfigImportProps {
+  onImported: () => void;
+}
+
+export function KubeconfigImport({ onImported }: KubeconfigImportProps) {
+  const { user } = useAuth();
+  const { toast } = useToast();
+  const [isOpen, setIsOpen] = useState(false);
+  const [text, setText] = useState('');
+  const [contexts, setContexts] = useState<KubeconfigContext[] | null>(null);
+  const [selected, setSelected] = useState<string[]>([]);
+  const [parseError, setParseError] = useState<string | null>(null);
+  const [importing, setImporting] = useState(false);
+
+  const reset = () => {
+    setText('');
+    setContexts(null);
+    setSelected([]);
+    setParseError(null);
+  };
+
+  // Parsing happens entirely in the browser; only the chosen contexts are ever sent anywhere
+  const handleParse = (content: string) => {
+    try {
+      const parsed = parseKubeconfig(content);
+      setContexts(parsed.contexts);
+      setSelected(parsed.contexts
+        .filter((context) => !context.problem && (context.name === parsed.currentContext || parsed.contexts.length === 1))
+        .map((context) => context.name));
+      setParseError(null);
+    } catch (error) {
+      setContexts(null);
+      setParseError(error instanceof Error ? error.message : String(error));
+    }
+  };
+
+  const handleFile = async (file: File | undefined) => {
+    if (!file) return;
+    const content = await file.text();
+    setText(content);
+    handleParse(content);
+  };
+
+  const toggleContext = (name: string, checked: boolean) => {
+    setSelected(checked ? [...selected, name] : selected.filter((n) => n !== name));
+  };
+
+  const handleImport = async () => {
+    if (!user || !contexts) return;
+    setImporting(true);
+    try {
+      const chosen = contexts.filter((context) => selected.includes(context.name));
+      const { data, error } = await supabase
+        .from('cluster_configs')
+        .insert(chosen.map((context) => ({
+          user_id: user.id,
+          name: context.name,
+          endpoint: context.server,
+          namespace: context.namespace
+        })))
+        .select('id');
+
+      if (error) throw new Error(error.message);
+      // Rows come back in insert order; credentials are encrypted server-side, one cluster at a time
+      try {
+        await Promise.all(data.map(({ id }, i) => saveClusterCredentials(id, {
+          certificate_authority_data: chosen[i].certificateAuthorityData ?? null,
+          token: chosen[i].authMethod === 'token' ? chosen[i].token : null,
+          client_certificate_data: chosen[i].authMethod === 'certificate' ? chosen[i].clientCertificateData : null,
+          client_key_data: chosen[i].authMethod === 'certificate' ? chosen[i].clientKeyData : null
+        })));
+      } catch (credentialsError) {
+        // Clusters without credentials are useless, so don't leave them behind
+        await supabase.from('cluster_configs').delete().in('id', data.map(({ id }) => id));
+        throw credentialsError;
+      }
+      toast({ title: `Imported ${chosen.length} cluster${chosen.length === 1 ? '' : 's'}` });
+      setIsOpen(false);
+      reset();
+      onImported();
+    } catch (error) {
+      toast({
+        title: "Error importing kubeconfig",
+        description: error instanceof Error ? error.message : String(error),
+        variant: "destructive"
+      });
+    } finally {
+      setImporting(false);
+    }
+  };
+
+  return (
+    <Dialog open={isOpen} onOpenChange={(open) => {
+      setIsOpen(open);
+      if (!open) reset();
+    }}>
+      <DialogTrigger asChild>
+        <Button variant="outline">
+          <FileUp className="h-4 w-4 mr-2" />
+          Import kubeconfig
+        </Button>
+      </DialogTrigger>
+      <DialogContent className="sm:max-w-[625px]">
+        <DialogHeader>
+          <DialogTitle>Import kubeconfig</DialogTitle>
+          <DialogDescription>
+            Upload or paste a kubeconfig and pick the contexts to add as clusters
+          </DialogDescription>
+        </DialogHeader>
+        <div className="space-y-4">
+          <div className="space-y-2">
+            <Label htmlFor="kubeconfig-file">Kubeconfig file</Label>
+            <input
+              id="kubeconfig-file"
+              type="file"
+              onChange={(e) => handleFile(e.target.files?.[0])}
+              className="block w-full text-sm text-muted-foreground file:mr-4 file:rounded file:border-0 file:bg-secondary file:px-3 file:py-1 file:text-sm file:text-secondary-foreground"
+            />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="kubeconfig-text">Or paste it</Label>
+            <Textarea
+              id="kubeconfig-text"
+              placeholder={"apiVersion: v1\nkind: Config\nclusters:\n..."}
+              value={text}
+              onChange={(e) => setText(e.target.value)}
+              className="font-mono text-xs h-32"
+            />
+            <Button type="button" variant="outline" size="sm" onClick={() => handleParse(text)} disabled={!text.trim()}>
+              Read contexts
+            </Button>
+          </div>
+
+          {parseError && (
+            <p className="text-sm text-destructive">{parseError}</p>
+          )}
+
+          {contexts && (
+            <ScrollArea className="max-h-64 border border-border rounded">
+              <div className="p-2 space-y-2">
+                {contexts.map((context) => (
+                  <div key={context.name} className="flex items-start space-x-3 p-2 rounded hover:bg-muted/30">
+                    <Checkbox
+                      id={`context-${context.name}`}
+                      checked={selected.includes(context.name)}
+                      disabled={Boolean(context.problem)}
+                      onCheckedChange={(checked) => toggleContext(context.name, checked === true)}
+                    />
+                    <div className="flex-1 space-y-1">
+                      <div className="flex items-center space-x-2">
+                        <Label htmlFor={`context-${context.name}`} className="font-mono text-sm">{context.name}</Label>
+                        {context.authMethod !== 'none' && (
+                          <Badge variant="outline" className="text-xs">
+                            {context.authMethod === 'token' ? 'token' : 'client cert'}
+                          </Badge>
+                        )}
+                      </div>
+                      <p className="text-xs text-muted-foreground">
+                        {context.server || 'no server'} • cluster {context.clusterName} • user {context.userName} • ns {context.namespace}
+                      </p>
+                      {context.problem && (
+                        <p className="text-xs text-destructive flex items-start space-x-1">
+                          <AlertTriangle className="h-3 w-3 mt-0.5 flex-shrink-0" />
+                          <span>{context.problem}</span>
+                        </p>
+                      )}
+                    </div>
+                  </div>
+                ))}
+              </div>
+            </ScrollArea>
+          )}
+
+          <div className="flex justify-end space-x-2">
+            <Button type="button" variant="outline" onClick={() => setIsOpen(false)}>
+              Cancel
+            </Button>
+            <Button type="button" onClick={handleImport} disabled={importing || selected.length === 0}>
+              {importing ? 'Importing...' : `Import ${selected.length || ''} context${selected.length === 1 ? '' : 's'}`}
+            </Button>
+          </div>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -1,9 +1,11 @@
-import { useState, useEffect } from "react";
+import { useState, useEffect, useRef } from "react";
 import { ScrollArea } from "@/components/ui/scroll-area";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Search, Play, Pause, Download } from "lucide-react";
+import { followKubectlLogs, runKubectl, type LogStream } from "@/lib/kubectl";
+import { useSelectedCluster } from "@/hooks/useSelectedCluster";
 
 interface LogEntry {
   timestamp: string;
@@ -12,53 +14,103 @@ interface LogEntry {
   message: string;
 }
 
-const mockLogs: LogEntry[] = [
-  { timestamp: "2024-01-15T10:30:45Z", level: "INFO", pod: "nginx-deployment-7d6c9f8b9c-xyz12", message: "Server started on port 80" },
-  { timestamp: "2024-01-15T10:30:46Z", level: "INFO", pod: "api-server-5f9b8c7d6e-abc34", message: "Connected to database successfully" },
-  { timestamp: "2024-01-15T10:30:47Z", level: "WARN", pod: "worker-queue-4e7f8g9h0i-ghi78", message: "High memory usage detected: 89%" },
-  { timestamp: "2024-01-15T10:30:48Z", level: "ERROR", pod: "database-primary-3d6e9f0g1h-jkl90", message: "Connection timeout to redis cluster" },
-  { timestamp: "2024-01-15T10:30:49Z", level: "INFO", pod: "nginx-deployment-7d6c9f8b9c-xyz12", message: "HTTP GET /api/health - 200 OK" },
-  { timestamp: "2024-01-15T10:30:50Z", level: "DEBUG", pod: "monitoring-agent-2c5d8e1f4g-mno12", message: "Metrics collected: cpu=45%, memory=67%" },
-];
+// Lines come from `kubectl logs --timestamps`, so each starts with an RFC3339 timestamp
+const parseLogLine = (pod: string, line: string): LogEntry => {
+  const [timestamp, ...rest] = line.split(" ");
+  const message = rest.join(" ");
+  const level = message.match(/\b(ERROR|WARN|INFO|DEBUG)\b/i)?.[1].toUpperCase() as LogEntry["level"] | undefined;
+  return { timestamp, level: level ?? "INFO", pod, message };
+};
 
 export const LogViewer = () => {
-  const [logs, setLogs] = useState<LogEntry[]>(mockLogs);
+  const { scope: { clusterId, namespace, allNamespaces } } = useSelectedCluster();
+  const scopeKey = clusterId ? `${clusterId}/${allNamespaces ? "*" : namespace}` : null;
+  const [logs, setLogs] = useState<LogEntry[]>([]);
   const [isStreaming, setIsStreaming] = useState(true);
-  const [selectedPod, setSelectedPod] = useState<string>("all");
+  // "namespace/name", so pods from every namespace can be listed together
+  const [pods, setPods] = useState<string[]>([]);
+  const [selectedPod, setSelectedPod] = useState<string>("");
   const [filter, setFilter] = useState("");
+  const [streamError, setStreamError] = useState<string | null>(null);
+  const lastTimestamp = useRef<string | null>(null);
+  // The cluster and namespace the pod list was loaded from, so a switch never follows an old pod
+  const podsScope = useRef<string | null>(null);
 
-  // Simulate real-time log streaming
+  // Switching cluster or namespace starts over with the pods in that scope
   useEffect(() => {
-    if (!isStreaming) return;
-
-    const interval = setInterval(() => {
-      const newLog: LogEntry = {
-        timestamp: new Date().toISOString(),
-        level: ["INFO", "WARN", "ERROR", "DEBUG"][Math.floor(Math.random() * 4)] as LogEntry["level"],
-        pod: ["nginx-deployment-7d6c9f8b9c-xyz12", "api-server-5f9b8c7d6e-abc34", "worker-queue-4e7f8g9h0i-ghi78"][Math.floor(Math.random() * 3)],
-        message: [
-          "Request processed successfully",
-          "Database query executed in 45ms",
-          "Cache miss for key: user_session_12345",
-          "Scheduled task completed",
-          "Memory cleanup performed"
-        ][Math.floor(Math.random() * 5)]
-      };
-
-      setLogs(prev => [newLog, ...prev].slice(0, 100)); // Keep only last 100 logs
-    }, 2000);
-
-    return () => clearInterval(interval);
-  }, [isStreaming]);
+    lastTimestamp.current = null;
+    setLogs([]);
+    setPods([]);
+    setSelectedPod("");
+    podsScope.current = null;
+    if (!clusterId) return;
+
+    let cancelled = false;
+    runKubectl("kubectl get pods -o json", { clusterId, namespace, allNamespaces }).then(result => {
+      if (cancelled) return;
+      if (!result.success) {
+        setStreamError(result.error || "Failed to list pods");
+        return;
+      }
+      const items: { metadata: { namespace: string; name: string } }[] = JSON.parse(result.output || "{}").items ?? [];
+      const names = items.map(({ metadata }) => `${metadata.namespace}/${metadata.name}`);
+      podsScope.current = scopeKey;
+      setPods(names);
+      setSelectedPod(current => current || names[0] || "");
+    });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [clusterId, namespace, allNamespaces, scopeKey]);
+
+  // Follow the selected pod's logs; pausing closes the stream and resuming picks up after the last line seen
+  useEffect(() => {
+    if (!isStreaming || !selectedPod || podsScope.current !== scopeKey) return;
+
+    setStreamError(null);
+    const [podNamespace, podName] = selectedPod.split("/");
+    const since = lastTimestamp.current ? `--since-time=${lastTimestamp.current}` : "--tail=100";
+    const stream: LogStream = followKubectlLogs(`kubectl logs ${podName} -n ${podNamespace} -f --timestamps ${since}`, {
+      onLine: line => {
+        if (!line) return;
+        const entry = parseLogLine(podName, line);
+        // --since-time is inclusive, so skip lines we already have
+        if (lastTimestamp.current && entry.timestamp <= lastTimestamp.current) return;
+        lastTimestamp.current = entry.timestamp;
+        setLogs(prev => [entry, ...prev].slice(0, 500)); // Keep only last 500 logs
+      },
+      onError: message => setStreamError(message),
+      onEnd: () => setIsStreaming(false),
+    }, { clusterId });
+
+    return () => stream.cancel();
+  }, [isStreaming, selectedPod, clusterId, scopeKey]);
+
+  const selectPod = (pod: string) => {
+    lastTimestamp.current = null;
+    setLogs([]);
+    setSelectedPod(pod);
+    setIsStreaming(true);
+  };
 
   const filteredLogs = logs.filter(log => {
-    const matchesPod = selectedPod === "all" || log.pod.includes(selectedPod);
-    const matchesFilter = filter === "" || 
+    const matchesFilter = filter === "" ||
       log.message.toLowerCase().includes(filter.toLowerCase()) ||
       log.level.toLowerCase().includes(filter.toLowerCase());
-    return matchesPod && matchesFilter;
+    return matchesFilter;
   });
 
+  const downloadLogs = () => {
+    const text = [...filteredLogs].reverse().map(log => `${log.timestamp} ${log.message}`).join("\n");
+    const url = URL.createObjectURL(new Blob([text], { type: "text/plain" }));
+    const link = document.createElement("a");
+    link.href = url;
+    link.download = `${selectedPod.replace("/", "_") || "logs"}.log`;
+    link.click();
+    URL.revokeObjectURL(url);
+  };
+
   const getLevelColor = (level: LogEntry["level"]) => {
     switch (level) {
       case "ERROR":
@@ -74,20 +126,17 @@ export const LogViewer = () => {
     }
   };
 
-  const pods = Array.from(new Set(logs.map(log => log.pod)));
-
   return (
     <div className="space-y-4">
       {/* Controls */}
       <div className="flex items-center space-x-2">
-        <Select value={selectedPod} onValueChange={setSelectedPod}>
+        <Select value={selectedPod} onValueChange={selectPod}>
           <SelectTrigger className="w-48 bg-terminal-bg border-border">
             <SelectValue placeholder="Select pod" />
           </SelectTrigger>
           <SelectContent>
-            <SelectItem value="all">All Pods</SelectItem>
             {pods.map(pod => (
-              <SelectItem key={pod} value={pod}>{pod}</SelectItem>
+              <SelectItem key={pod} value={pod}>{allNamespaces ? pod : pod.split("/")[1]}</SelectItem>
             ))}
           </SelectContent>
         </Select>
@@ -106,12 +155,13 @@ export const LogViewer = () => {
           variant="outline"
           size="sm"
           onClick={() => setIsStreaming(!isStreaming)}
+          disabled={!selectedPod}
           className="border-border"
         >
           {isStreaming ? <Pause className="h-4 w-4" /> : <Play className="h-4 w-4" />}
         </Button>
 
-        <Button variant="outline" size="sm" className="border-border">
+        <Button variant="outline" size="sm" onClick={downloadLogs} disabled={logs.length === 0} className="border-border">
           <Download className="h-4 w-4" />
         </Button>
       </div>
@@ -119,6 +169,9 @@ export const LogViewer = () => {
       {/* Logs */}
       <ScrollArea className="h-64 bg-terminal-bg border border-border rounded">
         <div className="p-2 font-mono text-sm space-y-1">
+          {streamError && (
+            <div className="text-terminal-error text-xs p-1">{streamError}</div>
+          )}
           {filteredLogs.map((log, index) => (
             <div key={index} className="flex items-start space-x-2 hover:bg-muted/20 p-1 rounded">
               <span className="text-terminal-muted text-xs w-20 flex-shrink-0">
@@ -137,11 +190,15 @@ export const LogViewer = () => {
           ))}
           {filteredLogs.length === 0 && (
             <div className="text-center text-terminal-muted py-8">
-              No logs match the current filters
+              {!selectedPod
+                ? "No pods to show logs for"
+                : logs.length === 0
+                  ? isStreaming ? "Waiting for log lines..." : "Log stream stopped"
+                  : "No logs match the current filters"}
             </div>
           )}
         </div>
       </ScrollArea>
     </div>
   );
-};
\ No newline at end of file
+};
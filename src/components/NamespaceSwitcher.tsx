@@ -0,0 +1,30 @@
+import { Select, SelectContent, SelectItem, SelectSeparator, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Layers } from "lucide-react";
+import { ALL_NAMESPACES, useSelectedCluster } from "@/hooks/useSelectedCluster";
+
+// Scopes the Pods, Logs and Terminal views of this tab; explicit -n / -A in commands still win
+export const NamespaceSwitcher = () => {
+  const { selectedCluster, namespaces, selectedNamespace, selectNamespace } = useSelectedCluster();
+
+  if (!selectedCluster) return null;
+  // A namespace picked earlier in this tab stays selectable even if it is no longer watched
+  const options = selectedNamespace === ALL_NAMESPACES || namespaces.includes(selectedNamespace)
+    ? namespaces
+    : [...namespaces, selectedNamespace];
+
+  return (
+    <Select value={selectedNamespace} onValueChange={selectNamespace}>
+      <SelectTrigger className="w-44 border-terminal-border">
+        <Layers className="h-4 w-4 mr-2 flex-shrink-0" />
+        <SelectValue placeholder="Namespace" />
+      </SelectTrigger>
+      <SelectContent>
+        <SelectItem value={ALL_NAMESPACES}>All namespaces</SelectItem>
+        <SelectSeparator />
+        {options.map((namespace) => (
+          <SelectItem key={namespace} value={namespace}>{namespace}</SelectItem>
+        ))}
+      </SelectContent>
+    </Select>
+  );
+};
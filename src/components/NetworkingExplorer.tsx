@@ -0,0 +1,175 @@
+import { useState, type ReactNode } from "react";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { AlertTriangle, ChevronDown, ChevronRight, Circle, Loader2, RefreshCw, Search } from "lucide-react";
+import { useSelectedCluster } from "@/hooks/useSelectedCluster";
+import { useServiceChains } from "@/hooks/useNetworking";
+import type { ServiceChain } from "@/lib/networking";
+
+const formatPorts = (chain: ServiceChain) =>
+  chain.ports.map(port => `${port.name ? `${port.name}:` : ""}${port.port}→${port.targetPort ?? port.port}/${port.protocol ?? "TCP"}`).join(", ") || "-";
+
+const Section = ({ title, children }: { title: string; children: ReactNode }) => (
+  <div className="space-y-1">
+    <div className="font-medium text-muted-foreground">{title}</div>
+    {children}
+  </div>
+);
+
+export const NetworkingExplorer = () => {
+  const [expanded, setExpanded] = useState<Set<string>>(new Set());
+  const [search, setSearch] = useState("");
+  const [problemsOnly, setProblemsOnly] = useState(false);
+  const { selectedCluster } = useSelectedCluster();
+  const { data: services = [], error, isLoading, isFetching, refetch } = useServiceChains();
+
+  const toggleExpanded = (key: string) => {
+    setExpanded(current => {
+      const next = new Set(current);
+      if (next.has(key)) next.delete(key);
+      else next.add(key);
+      return next;
+    });
+  };
+
+  if (!selectedCluster) {
+    return <p className="text-sm text-muted-foreground">Add a cluster in Settings to see its services.</p>;
+  }
+
+  const query = search.trim().toLowerCase();
+  const visible = services
+    .filter(service => !problemsOnly || service.problems.length > 0)
+    .filter(service => !query || service.name.toLowerCase().includes(query) || service.namespace.toLowerCase().includes(query));
+  const withProblems = services.filter(service => service.problems.length > 0).length;
+
+  return (
+    <div className="space-y-4">
+      <div className="flex items-center space-x-2">
+        <div className="relative flex-1">
+          <Search className="absolute left-2 top-2.5 h-4 w-4 text-muted-foreground" />
+          <Input
+            placeholder="Search services..."
+            value={search}
+            onChange={(e) => setSearch(e.target.value)}
+            className="pl-8"
+          />
+        </div>
+        <Button variant={problemsOnly ? "default" : "outline"} size="sm" onClick={() => setProblemsOnly(!problemsOnly)}>
+          <AlertTriangle className="h-4 w-4 mr-1" />
+          Problems ({withProblems})
+        </Button>
+        <Button variant="outline" size="icon" onClick={() => refetch()} disabled={isFetching} title="Refresh">
+          <RefreshCw className={`h-4 w-4 ${isFetching ? "animate-spin" : ""}`} />
+        </Button>
+      </div>
+
+      {error && (
+        <p className="text-sm text-terminal-error">{error.message}</p>
+      )}
+
+      {isLoading ? (
+        <div className="flex items-center justify-center h-32 text-muted-foreground">
+          <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+          Loading services...
+        </div>
+      ) : visible.length === 0 ? (
+        <p className="text-sm text-muted-foreground">No services match.</p>
+      ) : (
+        <div className="space-y-3">
+          {visible.map(service => {
+            const key = `${service.namespace}/${service.name}`;
+            const readyCount = service.endpoints.filter(endpoint => endpoint.ready).length;
+            return (
+              <div key={key} className="p-3 rounded border border-border space-y-3">
+                <button className="w-full text-left" onClick={() => toggleExpanded(key)}>
+                  <div className="flex items-center space-x-2">
+                    {expanded.has(key) ? <ChevronDown className="h-4 w-4" /> : <ChevronRight className="h-4 w-4" />}
+                    <Circle className={`h-2 w-2 rounded-full ${service.problems.length > 0 ? "bg-status-failed" : "bg-status-running"}`} />
+                    <Badge variant="outline" className="text-xs">{service.namespace}</Badge>
+                    <span className="font-medium text-sm truncate">{service.name}</span>
+                    <Badge variant="outline" className="text-xs">{service.type}</Badge>
+                  </div>
+                  <div className="flex items-center space-x-4 mt-1 ml-6 text-xs text-muted-foreground">
+                    <span>{service.clusterIP || "-"}</span>
+                    <span>{formatPorts(service)}</span>
+                    <span>Pods: {service.pods.length}</span>
+                    <span>Endpoints: {readyCount}/{service.endpoints.length} ready</span>
+                    {service.routes.length > 0 && <span>Routes: {service.routes.length}</span>}
+                  </div>
+                </button>
+
+                {service.problems.length > 0 && (
+                  <div className="ml-6 space-y-1 text-xs text-terminal-error">
+                    {service.problems.map(problem => (
+                      <div key={problem} className="flex items-center space-x-1">
+                        <AlertTriangle className="h-3 w-3" />
+                        <span>{problem}</span>
+                      </div>
+                    ))}
+                  </div>
+                )}
+
+                {expanded.has(key) && (
+                  <div className="ml-6 grid grid-cols-1 md:grid-cols-2 gap-4 text-xs">
+                    <Section title="Selector">
+                      {service.selector ? (
+                        <div className="flex flex-wrap gap-1">
+                          {Object.entries(service.selector).map(([label, value]) => (
+                            <Badge key={label} variant="outline" className="text-xs font-mono">{label}={value}</Badge>
+                          ))}
+                        </div>
+                      ) : (
+                        <div className="text-muted-foreground">None; endpoints are managed outside the service</div>
+                      )}
+                    </Section>
+
+                    <Section title="Routes">
+                      {service.routes.length === 0 ? (
+                        <div className="text-muted-foreground">No Ingress or HTTPRoute points here</div>
+                      ) : service.routes.map((route, index) => (
+                        <div key={`${route.kind}/${route.name}/${index}`} className="flex items-center space-x-2">
+                          <Badge variant="outline" className="text-xs">{route.kind}</Badge>
+                          <span className="truncate">{route.name}</span>
+                          <span className="text-muted-foreground font-mono">{route.match}</span>
+                          {route.port !== null && <span className="text-muted-foreground">→ {route.port}</span>}
+                        </div>
+                      ))}
+                    </Section>
+
+                    <Section title="Matching pods">
+                      {service.pods.length === 0 ? (
+                        <div className="text-muted-foreground">No pods</div>
+                      ) : service.pods.map(pod => (
+                        <div key={pod.name} className="flex items-center space-x-2">
+                          <Circle className={`h-2 w-2 rounded-full ${pod.problem ? "bg-status-failed" : pod.phase === "Running" ? "bg-status-running" : "bg-status-pending"}`} />
+                          <span className="truncate">{pod.name}</span>
+                          <span className="text-muted-foreground">{pod.status}</span>
+                          <span className="text-muted-foreground">{pod.podIP || "-"}</span>
+                        </div>
+                      ))}
+                    </Section>
+
+                    <Section title="Endpoints">
+                      {service.endpoints.length === 0 ? (
+                        <div className="text-muted-foreground">No EndpointSlice addresses</div>
+                      ) : service.endpoints.map(endpoint => (
+                        <div key={endpoint.address} className="flex items-center space-x-2">
+                          <Circle className={`h-2 w-2 rounded-full ${endpoint.ready ? "bg-status-running" : "bg-status-failed"}`} />
+                          <span className="font-mono">{endpoint.address}</span>
+                          <span className="text-muted-foreground">{endpoint.ready ? "ready" : "not ready"}</span>
+                          {endpoint.target && <span className="text-muted-foreground truncate">{endpoint.target}</span>}
+                          {endpoint.nodeName && <span className="text-muted-foreground truncate">on {endpoint.nodeName}</span>}
+                        </div>
+                      ))}
+                    </Section>
+                  </div>
+                )}
+              </div>
+            );
+          })}
+        </div>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,312 @@
+import { useState } from "react";
+import { useQueryClient } from "@tanstack/react-query";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Label } from "@/components/ui/label";
+import { Progress } from "@/components/ui/progress";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { ChevronDown, ChevronRight, Circle, Loader2, Lock, LogOut, RefreshCw, Unlock } from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
+import { useSelectedCluster } from "@/hooks/useSelectedCluster";
+import { useNodes } from "@/hooks/useNodes";
+import { runKubectl } from "@/lib/kubectl";
+import { NODE_CONDITIONS, type NodeSummary } from "@/lib/nodes";
+import { formatAge } from "@/lib/pods";
+import { formatMebibytes, formatMillicores, percentOf } from "@/lib/quantity";
+
+interface DrainOptions {
+  ignoreDaemonSets: boolean;
+  deleteEmptyDirData: boolean;
+  force: boolean;
+}
+
+type PendingAction =
+  | { type: "cordon" | "uncordon"; node: NodeSummary }
+  | { type: "drain"; node: NodeSummary; options: DrainOptions };
+
+const actionCommand = (action: PendingAction) => {
+  if (action.type !== "drain") return `kubectl ${action.type} ${action.node.name}`;
+  const { ignoreDaemonSets, deleteEmptyDirData, force } = action.options;
+  return [
+    `kubectl drain ${action.node.name}`,
+    ignoreDaemonSets && "--ignore-daemonsets",
+    deleteEmptyDirData && "--delete-emptydir-data",
+    force && "--force"
+  ].filter(Boolean).join(" ");
+};
+
+// Ready should be True; every pressure condition should be False
+const conditionHealthy = (type: string, status?: string) => (type === "Ready" ? status === "True" : status === "False");
+
+const ResourceBar = ({ label, requested, limits, allocatable, format }: {
+  label: string;
+  requested: number;
+  limits: number;
+  allocatable: number;
+  format: (value: number) => string;
+}) => (
+  <div className="space-y-1">
+    <div className="flex justify-between text-xs">
+      <span>{label}</span>
+      <span className="text-muted-foreground">
+        requests {format(requested)} ({percentOf(requested, allocatable)}%) • limits {format(limits)} ({percentOf(limits, allocatable)}%) of {format(allocatable)}
+      </span>
+    </div>
+    <Progress value={Math.min(100, percentOf(requested, allocatable))} className="h-2" />
+  </div>
+);
+
+export const NodesList = () => {
+  const [expanded, setExpanded] = useState<Set<string>>(new Set());
+  const [pendingAction, setPendingAction] = useState<PendingAction | null>(null);
+  // The dry run shown for a drain; confirming is only offered for the exact command previewed
+  const [preview, setPreview] = useState<{ command: string; success: boolean; output: string } | null>(null);
+  const [isRunning, setIsRunning] = useState(false);
+  const { selectedCluster } = useSelectedCluster();
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const { data: nodes = [], error, isLoading, isFetching, refetch } = useNodes();
+
+  const toggleExpanded = (name: string) => {
+    setExpanded(current => {
+      const next = new Set(current);
+      if (next.has(name)) next.delete(name);
+      else next.add(name);
+      return next;
+    });
+  };
+
+  const closeAction = () => {
+    setPendingAction(null);
+    setPreview(null);
+  };
+
+  const previewDrain = async () => {
+    if (!pendingAction || !selectedCluster) return;
+    const command = actionCommand(pendingAction);
+    setIsRunning(true);
+    try {
+      const result = await runKubectl(command, { clusterId: selectedCluster.id, dryRun: true });
+      setPreview({ command, success: result.success, output: (result.success ? result.output : result.error) || "" });
+    } finally {
+      setIsRunning(false);
+    }
+  };
+
+  const runAction = async () => {
+    if (!pendingAction || !selectedCluster) return;
+    setIsRunning(true);
+    try {
+      const result = await runKubectl(actionCommand(pendingAction), { clusterId: selectedCluster.id });
+      if (!result.success) throw new Error(result.error || "Command failed");
+      toast({
+        title: `Node ${pendingAction.type === "drain" ? "drained" : `${pendingAction.type}ed`}`,
+        description: result.output
+      });
+      closeAction();
+      queryClient.invalidateQueries({ queryKey: ["nodes", selectedCluster.id] });
+    } catch (error) {
+      toast({
+        title: `Error running ${pendingAction.type}`,
+        description: error instanceof Error ? error.message : String(error),
+        variant: "destructive"
+      });
+    } finally {
+      setIsRunning(false);
+    }
+  };
+
+  if (!selectedCluster) {
+    return <p className="text-sm text-muted-foreground">Add a cluster in Settings to see its nodes.</p>;
+  }
+
+  const command = pendingAction ? actionCommand(pendingAction) : "";
+  const canConfirm = pendingAction?.type !== "drain" || (preview?.command === command && preview.success);
+
+  return (
+    <div className="space-y-4">
+      <div className="flex items-center justify-between">
+        <p className="text-sm text-muted-foreground">
+          {nodes.length} nodes, {nodes.filter(node => node.ready).length} ready
+        </p>
+        <Button variant="outline" size="icon" onClick={() => refetch()} disabled={isFetching} title="Refresh">
+          <RefreshCw className={`h-4 w-4 ${isFetching ? "animate-spin" : ""}`} />
+        </Button>
+      </div>
+
+      {error && (
+        <p className="text-sm text-terminal-error">{error.message}</p>
+      )}
+
+      {isLoading ? (
+        <div className="flex items-center justify-center h-32 text-muted-foreground">
+          <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+          Loading nodes...
+        </div>
+      ) : (
+        <div className="space-y-3">
+          {nodes.map(node => (
+            <div key={node.name} className="p-3 rounded border border-border space-y-3">
+              <div className="flex items-start justify-between">
+                <button className="flex-1 min-w-0 text-left" onClick={() => toggleExpanded(node.name)}>
+                  <div className="flex items-center space-x-2">
+                    {expanded.has(node.name) ? <ChevronDown className="h-4 w-4" /> : <ChevronRight className="h-4 w-4" />}
+                    <Circle className={`h-2 w-2 rounded-full ${node.ready ? "bg-status-running" : "bg-status-failed"}`} />
+                    <span className="font-medium text-sm truncate">{node.name}</span>
+                    {node.roles.map(role => (
+                      <Badge key={role} variant="outline" className="text-xs">{role}</Badge>
+                    ))}
+                    {node.unschedulable && (
+                      <Badge variant="outline" className="text-xs text-terminal-warning border-current">SchedulingDisabled</Badge>
+                    )}
+                  </div>
+                  <div className="flex items-center space-x-4 mt-1 ml-6 text-xs text-muted-foreground">
+                    <span>{node.kubeletVersion || "-"}</span>
+                    <span>IP: {node.internalIP || "-"}</span>
+                    <span>Pods: {node.pods.length}/{node.allocatable.pods}</span>
+                    <span>{formatAge(node.createdAt)}</span>
+                  </div>
+                </button>
+                <div className="flex items-center space-x-2">
+                  {node.unschedulable ? (
+                    <Button size="sm" variant="outline" title="Uncordon" onClick={() => setPendingAction({ type: "uncordon", node })}>
+                      <Unlock className="h-4 w-4" />
+                    </Button>
+                  ) : (
+                    <Button size="sm" variant="outline" title="Cordon" onClick={() => setPendingAction({ type: "cordon", node })}>
+                      <Lock className="h-4 w-4" />
+                    </Button>
+                  )}
+                  <Button
+                    size="sm"
+                    variant="outline"
+                    title="Drain"
+                    onClick={() => setPendingAction({ type: "drain", node, options: { ignoreDaemonSets: true, deleteEmptyDirData: false, force: false } })}
+                  >
+                    <LogOut className="h-4 w-4" />
+                  </Button>
+                </div>
+              </div>
+
+              <div className="flex flex-wrap gap-2">
+                {NODE_CONDITIONS.map(type => {
+                  const condition = node.conditions[type];
+                  return (
+                    <Badge
+                      key={type}
+                      variant="outline"
+                      title={[condition?.reason, condition?.message].filter(Boolean).join(": ")}
+                      className={`text-xs border-current ${conditionHealthy(type, condition?.status) ? "text-status-running" : "text-status-failed"}`}
+                    >
+                      {type}: {condition?.status ?? "Unknown"}
+                    </Badge>
+                  );
+                })}
+              </div>
+
+              {node.taints.length > 0 && (
+                <div className="text-xs">
+                  <span className="text-muted-foreground">Taints: </span>
+                  {node.taints.map(taint => `${taint.key}${taint.value ? `=${taint.value}` : ""}:${taint.effect}`).join(", ")}
+                </div>
+              )}
+
+              {node.resourceError ? (
+                <div className="text-xs text-status-failed">Resource usage unavailable: {node.resourceError}</div>
+              ) : (
+                <div className="space-y-2">
+                  <ResourceBar
+                    label="CPU"
+                    requested={node.requested.cpuRequests}
+                    limits={node.requested.cpuLimits}
+                    allocatable={node.allocatable.cpu}
+                    format={formatMillicores}
+                  />
+                  <ResourceBar
+                    label="Memory"
+                    requested={node.requested.memoryRequests}
+                    limits={node.requested.memoryLimits}
+                    allocatable={node.allocatable.memory}
+                    format={formatMebibytes}
+                  />
+                </div>
+              )}
+
+              {expanded.has(node.name) && (
+                <div className="ml-6 space-y-1 text-xs">
+                  {node.pods.length === 0 ? (
+                    <div className="text-muted-foreground">No pods</div>
+                  ) : node.pods.map(pod => (
+                    <div key={`${pod.namespace}/${pod.name}`} className="flex items-center space-x-2">
+                      <Circle className={`h-2 w-2 rounded-full ${pod.problem ? "bg-status-failed" : pod.phase === "Running" ? "bg-status-running" : "bg-status-pending"}`} />
+                      <Badge variant="outline" className="text-xs">{pod.namespace}</Badge>
+                      <span className="truncate">{pod.name}</span>
+                      <span className="text-muted-foreground">{pod.status}</span>
+                      {pod.owner && <span className="text-muted-foreground">{pod.owner.kind}</span>}
+                    </div>
+                  ))}
+                </div>
+              )}
+            </div>
+          ))}
+        </div>
+      )}
+
+      <Dialog open={!!pendingAction} onOpenChange={(open) => !open && closeAction()}>
+        <DialogContent className="sm:max-w-[500px]">
+          {pendingAction && (
+            <>
+              <DialogHeader>
+                <DialogTitle className="capitalize">{pendingAction.type} {pendingAction.node.name}</DialogTitle>
+                <DialogDescription>
+                  {pendingAction.type === "cordon" && `Stop scheduling new pods on this node of ${selectedCluster.name}. Running pods stay.`}
+                  {pendingAction.type === "uncordon" && `Allow new pods to be scheduled on this node of ${selectedCluster.name} again.`}
+                  {pendingAction.type === "drain" && `Cordon the node and evict its ${pendingAction.node.pods.length} pods on ${selectedCluster.name}. Preview the evictions first.`}
+                </DialogDescription>
+              </DialogHeader>
+              {pendingAction.type === "drain" && (
+                <div className="space-y-2">
+                  {([
+                    ["ignoreDaemonSets", "Ignore DaemonSet-managed pods"],
+                    ["deleteEmptyDirData", "Delete pods using emptyDir data"],
+                    ["force", "Delete pods without a controller"]
+                  ] as const).map(([option, label]) => (
+                    <div key={option} className="flex items-center space-x-2">
+                      <Checkbox
+                        id={`drain-${option}`}
+                        checked={pendingAction.options[option]}
+                        onCheckedChange={(checked) => setPendingAction({
+                          ...pendingAction,
+                          options: { ...pendingAction.options, [option]: checked === true }
+                        })}
+                      />
+                      <Label htmlFor={`drain-${option}`} className="text-sm">{label}</Label>
+                    </div>
+                  ))}
+                </div>
+              )}
+              <pre className="bg-terminal-bg border border-border rounded p-2 text-xs font-mono whitespace-pre-wrap break-all">
+                {command}
+              </pre>
+              {preview?.command === command && (
+                <pre className={`bg-terminal-bg border border-border rounded p-2 text-xs font-mono whitespace-pre-wrap max-h-48 overflow-auto ${preview.success ? "" : "text-terminal-error"}`}>
+                  {preview.output}
+                </pre>
+              )}
+              <DialogFooter>
+                <Button variant="outline" onClick={closeAction}>Cancel</Button>
+                {pendingAction.type === "drain" && (
+                  <Button variant="outline" onClick={previewDrain} disabled={isRunning}>Preview</Button>
+                )}
+                <Button onClick={runAction} disabled={isRunning || !canConfirm}>
+                  {isRunning ? "Running..." : <span className="capitalize">{pendingAction.type}</span>}
+                </Button>
+              </DialogFooter>
+            </>
+          )}
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+};
@@ -0,0 +1,298 @@
+import { useState } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { stringify } from "yaml";
+import { Sheet, SheetContent, SheetDescription, SheetHeader, SheetTitle } from "@/components/ui/sheet";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { Badge } from "@/components/ui/badge";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Loader2 } from "lucide-react";
+import { supabase } from "@/integrations/supabase/client";
+import { useSelectedCluster } from "@/hooks/useSelectedCluster";
+import {
+  formatAge,
+  getPod,
+  listPodEvents,
+  tailPodLogs,
+  type ContainerSpec,
+  type ContainerState,
+  type ContainerStatus,
+  type PodSummary,
+  type Probe
+} from "@/lib/pods";
+
+interface PodDetailSheetProps {
+  pod: PodSummary | null;
+  onOpenChange: (open: boolean) => void;
+}
+
+const LOG_LINE_OPTIONS = [50, 200, 1000];
+
+function formatProbe(probe: Probe): string {
+  const target = probe.httpGet
+    ? `http-get ${(probe.httpGet.scheme || "HTTP").toLowerCase()}://:${probe.httpGet.port}${probe.httpGet.path || "/"}`
+    : probe.tcpSocket
+      ? `tcp-socket :${probe.tcpSocket.port}`
+      : probe.grpc
+        ? `grpc :${probe.grpc.port}`
+        : `exec [${(probe.exec?.command || []).join(" ")}]`;
+  return `${target} delay=${probe.initialDelaySeconds ?? 0}s timeout=${probe.timeoutSeconds ?? 1}s period=${probe.periodSeconds ?? 10}s #failure=${probe.failureThreshold ?? 3}`;
+}
+
+function formatState(state?: ContainerState): string {
+  if (!state) return "-";
+  if (state.running) return `Running since ${state.running.startedAt ? new Date(state.running.startedAt).toLocaleString() : "?"}`;
+  if (state.waiting) return `Waiting: ${state.waiting.reason || "unknown"}${state.waiting.message ? ` (${state.waiting.message})` : ""}`;
+  if (state.terminated) {
+    const { reason, exitCode, finishedAt } = state.terminated;
+    return `Terminated: ${reason || "unknown"}, exit code ${exitCode ?? "?"}${finishedAt ? ` at ${new Date(finishedAt).toLocaleString()}` : ""}`;
+  }
+  return "-";
+}
+
+const ContainerCard = ({ spec, status, init }: { spec: ContainerSpec; status?: ContainerStatus; init?: boolean }) => (
+  <div className="p-3 rounded border border-border space-y-1 text-xs">
+    <div className="flex items-center justify-between">
+      <span className="font-medium text-sm">{spec.name}</span>
+      <div className="flex items-center space-x-2">
+        {init && <Badge variant="outline" className="text-xs">init</Badge>}
+        <Badge variant="outline" className={`text-xs ${status?.ready ? "text-status-running" : "text-status-pending"} border-current`}>
+          {status?.ready ? "Ready" : "Not ready"}
+        </Badge>
+      </div>
+    </div>
+    <p className="text-muted-foreground break-all">{spec.image}</p>
+    <p>State: {formatState(status?.state)}</p>
+    {status?.lastState?.terminated && <p>Last termination: {formatState(status.lastState)}</p>}
+    <p>Restarts: {status?.restartCount ?? 0}</p>
+    <p>
+      Requests: {Object.entries(spec.resources?.requests || {}).map(([name, value]) => `${name}=${value}`).join(", ") || "none"}
+      {" • "}
+      Limits: {Object.entries(spec.resources?.limits || {}).map(([name, value]) => `${name}=${value}`).join(", ") || "none"}
+    </p>
+    {spec.livenessProbe && <p>Liveness: {formatProbe(spec.livenessProbe)}</p>}
+    {spec.readinessProbe && <p>Readiness: {formatProbe(spec.readinessProbe)}</p>}
+    {spec.startupProbe && <p>Startup: {formatProbe(spec.startupProbe)}</p>}
+    {(spec.volumeMounts || []).length > 0 && (
+      <div>
+        <p>Mounts:</p>
+        {spec.volumeMounts!.map((mount) => (
+          <p key={`${mount.name}:${mount.mountPath}`} className="pl-3 text-muted-foreground">
+            {mount.mountPath} from {mount.name}{mount.subPath ? ` (${mount.subPath})` : ""} ({mount.readOnly ? "ro" : "rw"})
+          </p>
+        ))}
+      </div>
+    )}
+  </div>
+);
+
+const ContainerLogs = ({ clusterId, pod, container, lines }: { clusterId: string; pod: PodSummary; container: string; lines: number }) => {
+  const { data, error, isLoading } = useQuery({
+    queryKey: ["pod-logs", clusterId, pod.namespace, pod.name, container, lines],
+    queryFn: () => tailPodLogs(clusterId, pod.namespace, pod.name, container, lines)
+  });
+
+  return (
+    <div className="space-y-1">
+      <p className="text-xs font-medium">{container}</p>
+      <pre className="bg-terminal-bg border border-border rounded p-2 text-xs font-mono whitespace-pre-wrap break-all max-h-64 overflow-auto">
+        {isLoading ? "Loading..." : error ? error.message : data || "(no output)"}
+      </pre>
+    </div>
+  );
+};
+
+// Everything about one pod in a side drawer; data loads when the drawer opens and is cached per pod
+export const PodDetailSheet = ({ pod, onOpenChange }: PodDetailSheetProps) => {
+  const { selectedCluster } = useSelectedCluster();
+  const clusterId = selectedCluster?.id ?? "";
+  const [logLines, setLogLines] = useState(LOG_LINE_OPTIONS[0]);
+  const enabled = !!pod && !!clusterId;
+
+  const podQuery = useQuery({
+    queryKey: ["pod", clusterId, pod?.namespace, pod?.name],
+    queryFn: () => getPod(clusterId, pod!.namespace, pod!.name),
+    enabled
+  });
+
+  const eventsQuery = useQuery({
+    queryKey: ["pod-events", clusterId, pod?.namespace, pod?.name],
+    queryFn: () => listPodEvents(clusterId, pod!.namespace, pod!.name),
+    enabled
+  });
+
+  const alertsQuery = useQuery({
+    queryKey: ["pod-alerts", clusterId, pod?.namespace, pod?.name],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from("smart_alerts")
+        .select("*")
+        .eq("cluster_id", clusterId)
+        .eq("resource_type", "pod")
+        .eq("resource_name", pod!.name)
+        .eq("namespace", pod!.namespace)
+        .order("created_at", { ascending: false });
+      if (error) throw error;
+      return data;
+    },
+    enabled
+  });
+
+  const healthQuery = useQuery({
+    queryKey: ["pod-health", clusterId, pod?.namespace, pod?.name],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from("pod_health")
+        .select("*")
+        .eq("cluster_id", clusterId)
+        .eq("pod_name", pod!.name)
+        .eq("namespace", pod!.namespace)
+        .order("container_name");
+      if (error) throw error;
+      return data;
+    },
+    enabled
+  });
+
+  const raw = podQuery.data;
+  const statuses = [...(raw?.status?.initContainerStatuses || []), ...(raw?.status?.containerStatuses || [])];
+  const statusOf = (name: string) => statuses.find((status) => status.name === name);
+  const containerNames = (raw?.spec?.containers || []).map((container) => container.name);
+
+  // managedFields is noise here, and kubectl hides it by default too
+  const yaml = raw
+    ? stringify({ ...raw, metadata: { ...raw.metadata, managedFields: undefined } })
+    : "";
+
+  return (
+    <Sheet open={!!pod} onOpenChange={onOpenChange}>
+      <SheetContent className="w-full sm:max-w-2xl overflow-y-auto">
+        {pod && (
+          <>
+            <SheetHeader>
+              <SheetTitle className="break-all">{pod.name}</SheetTitle>
+              <SheetDescription>
+                {pod.namespace} • {pod.status} • Node: {pod.nodeName || "-"} • IP: {pod.podIP || "-"} • Age: {formatAge(pod.createdAt)}
+                {pod.owner && <> • {pod.owner.kind}/{pod.owner.name}</>}
+              </SheetDescription>
+            </SheetHeader>
+
+            <Tabs defaultValue="containers" className="mt-4 space-y-4">
+              <TabsList className="grid w-full grid-cols-5">
+                <TabsTrigger value="containers">Containers</TabsTrigger>
+                <TabsTrigger value="events">Events</TabsTrigger>
+                <TabsTrigger value="logs">Logs</TabsTrigger>
+                <TabsTrigger value="yaml">YAML</TabsTrigger>
+                <TabsTrigger value="alerts">Alerts</TabsTrigger>
+              </TabsList>
+
+              <TabsContent value="containers" className="space-y-3">
+                {podQuery.isLoading && <Loader2 className="h-4 w-4 animate-spin" />}
+                {podQuery.error && <p className="text-sm text-terminal-error">{podQuery.error.message}</p>}
+                {(raw?.spec?.initContainers || []).map((spec) => (
+                  <ContainerCard key={spec.name} spec={spec} status={statusOf(spec.name)} init />
+                ))}
+                {(raw?.spec?.containers || []).map((spec) => (
+                  <ContainerCard key={spec.name} spec={spec} status={statusOf(spec.name)} />
+                ))}
+                {(raw?.spec?.volumes || []).length > 0 && (
+                  <div className="p-3 rounded border border-border space-y-1 text-xs">
+                    <p className="font-medium text-sm">Volumes</p>
+                    {raw!.spec!.volumes!.map((volume) => (
+                      <p key={volume.name}>
+                        {volume.name}: <span className="text-muted-foreground">{Object.keys(volume).find((key) => key !== "name") || "unknown"}</span>
+                      </p>
+                    ))}
+                  </div>
+                )}
+              </TabsContent>
+
+              <TabsContent value="events" className="space-y-2">
+                {eventsQuery.isLoading && <Loader2 className="h-4 w-4 animate-spin" />}
+                {eventsQuery.error && <p className="text-sm text-terminal-error">{eventsQuery.error.message}</p>}
+                {eventsQuery.data?.length === 0 && <p className="text-sm text-muted-foreground">No events for this pod.</p>}
+                {eventsQuery.data?.map((event) => (
+                  <div key={event.metadata.uid} className="p-2 rounded border border-border text-xs space-y-1">
+                    <div className="flex items-center space-x-2">
+                      <Badge variant="outline" className={`text-xs ${event.type === "Warning" ? "text-terminal-warning" : ""}`}>
+                        {event.type || "Normal"}
+                      </Badge>
+                      <span className="font-medium">{event.reason}</span>
+                      {(event.count ?? 1) > 1 && <span className="text-muted-foreground">x{event.count}</span>}
+                      <span className="text-muted-foreground ml-auto">
+                        {formatAge(event.lastTimestamp || event.eventTime || event.firstTimestamp || null)} ago
+                      </span>
+                    </div>
+                    <p className="break-words">{event.message}</p>
+                  </div>
+                ))}
+              </TabsContent>
+
+              <TabsContent value="logs" className="space-y-3">
+                <div className="flex items-center space-x-2 text-xs">
+                  <span className="text-muted-foreground">Last</span>
+                  <Select value={String(logLines)} onValueChange={(value) => setLogLines(Number(value))}>
+                    <SelectTrigger className="w-24 h-7 text-xs">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {LOG_LINE_OPTIONS.map((lines) => (
+                        <SelectItem key={lines} value={String(lines)}>{lines}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                  <span className="text-muted-foreground">lines per container</span>
+                </div>
+                {containerNames.map((container) => (
+                  <ContainerLogs key={container} clusterId={clusterId} pod={pod} container={container} lines={logLines} />
+                ))}
+              </TabsContent>
+
+              <TabsContent value="yaml">
+                <pre className="bg-terminal-bg border border-border rounded p-2 text-xs font-mono whitespace-pre overflow-auto max-h-[70vh]">
+                  {podQuery.isLoading ? "Loading..." : yaml}
+                </pre>
+              </TabsContent>
+
+              <TabsContent value="alerts" className="space-y-4">
+                <div className="space-y-2">
+                  <p className="text-sm font-medium">Smart alerts</p>
+                  {alertsQuery.error && <p className="text-sm text-terminal-error">{alertsQuery.error.message}</p>}
+                  {alertsQuery.data?.length === 0 && <p className="text-xs text-muted-foreground">No alerts recorded for this pod.</p>}
+                  {alertsQuery.data?.map((alert) => (
+                    <div key={alert.id} className="p-2 rounded border border-border text-xs space-y-1">
+                      <div className="flex items-center space-x-2">
+                        <Badge variant={alert.severity === "critical" ? "destructive" : "outline"} className="text-xs">
+                          {alert.severity}
+                        </Badge>
+                        <span className="font-medium">{alert.title}</span>
+                        {alert.is_resolved && <Badge variant="outline" className="text-xs">resolved</Badge>}
+                      </div>
+                      <p>{alert.description}</p>
+                      {alert.suggestion && <p className="text-muted-foreground">{alert.suggestion}</p>}
+                    </div>
+                  ))}
+                </div>
+                <div className="space-y-2">
+                  <p className="text-sm font-medium">Recorded health</p>
+                  {healthQuery.error && <p className="text-sm text-terminal-error">{healthQuery.error.message}</p>}
+                  {healthQuery.data?.length === 0 && (
+                    <p className="text-xs text-muted-foreground">Not recorded yet; only monitored clusters are checked.</p>
+                  )}
+                  {healthQuery.data?.map((row) => (
+                    <div key={row.id} className="p-2 rounded border border-border text-xs">
+                      <span className="font-medium">{row.container_name || "-"}</span>
+                      {" • "}{row.status} • Restarts: {row.restart_count ?? 0}
+                      {row.exit_reason && <> • Last exit: {row.exit_reason} ({row.exit_code ?? "?"})</>}
+                      {row.oom_killed && <> • OOMKilled</>}
+                      <span className="text-muted-foreground"> • updated {formatAge(row.updated_at)} ago</span>
+                    </div>
+                  ))}
+                </div>
+              </TabsContent>
+            </Tabs>
+          </>
+        )}
+      </SheetContent>
+    </Sheet>
+  );
+};
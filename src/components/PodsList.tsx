@@ -1,37 +1,61 @@
 import { useState } from "react";
 import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
 import { ScrollArea } from "@/components/ui/scroll-area";
 import { Input } from "@/components/ui/input";
-import { Search, Circle } from "lucide-react";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Search, Circle, ArrowUp, ArrowDown, RefreshCw, Loader2 } from "lucide-react";
+import { useSelectedCluster } from "@/hooks/useSelectedCluster";
+import { usePods } from "@/hooks/usePods";
+import { PodDetailSheet } from "./PodDetailSheet";
+import { formatAge, type PodSummary } from "@/lib/pods";
 
-interface Pod {
-  name: string;
-  namespace: string;
-  status: "Running" | "Pending" | "Failed" | "Succeeded";
-  ready: string;
-  restarts: number;
-  age: string;
-}
+type SortKey = "name" | "namespace" | "status" | "restarts" | "age";
+type StatusFilter = "all" | "problems" | PodSummary["phase"];
 
-const mockPods: Pod[] = [
-  { name: "nginx-deployment-7d6c9f8b9c-xyz12", namespace: "default", status: "Running", ready: "1/1", restarts: 0, age: "2d" },
-  { name: "api-server-5f9b8c7d6e-abc34", namespace: "kube-system", status: "Running", ready: "1/1", restarts: 1, age: "5d" },
-  { name: "redis-master-6a8b9c7d5e-def56", namespace: "default", status: "Running", ready: "1/1", restarts: 0, age: "1d" },
-  { name: "worker-queue-4e7f8g9h0i-ghi78", namespace: "production", status: "Pending", ready: "0/1", restarts: 3, age: "30m" },
-  { name: "database-primary-3d6e9f0g1h-jkl90", namespace: "production", status: "Failed", ready: "0/1", restarts: 5, age: "1h" },
-  { name: "monitoring-agent-2c5d8e1f4g-mno12", namespace: "monitoring", status: "Running", ready: "1/1", restarts: 0, age: "3d" }
+const sortColumns: { key: SortKey; label: string }[] = [
+  { key: "name", label: "Name" },
+  { key: "namespace", label: "Namespace" },
+  { key: "status", label: "Status" },
+  { key: "restarts", label: "Restarts" },
+  { key: "age", label: "Age" }
 ];
 
+const compare: Record<SortKey, (a: PodSummary, b: PodSummary) => number> = {
+  name: (a, b) => a.name.localeCompare(b.name),
+  namespace: (a, b) => a.namespace.localeCompare(b.namespace) || a.name.localeCompare(b.name),
+  // Problems first, then alphabetically by what STATUS shows
+  status: (a, b) => Number(b.problem) - Number(a.problem) || a.status.localeCompare(b.status),
+  restarts: (a, b) => a.restarts - b.restarts,
+  // Ascending age means newest first, as in kubectl
+  age: (a, b) => (b.createdAt || "").localeCompare(a.createdAt || "")
+};
+
 export const PodsList = () => {
   const [filter, setFilter] = useState("");
+  const [statusFilter, setStatusFilter] = useState<StatusFilter>("all");
+  const [openPod, setOpenPod] = useState<PodSummary | null>(null);
+  const [sort, setSort] = useState<{ key: SortKey; descending: boolean }>({ key: "status", descending: false });
+  const { selectedCluster } = useSelectedCluster();
+  const { data: pods = [], error, isLoading, isFetching, refetch, live } = usePods();
 
-  const filteredPods = mockPods.filter(pod => 
-    pod.name.toLowerCase().includes(filter.toLowerCase()) ||
-    pod.namespace.toLowerCase().includes(filter.toLowerCase())
-  );
+  const filteredPods = pods
+    .filter(pod =>
+      (statusFilter === "all" || (statusFilter === "problems" ? pod.problem : pod.phase === statusFilter)) && (
+        pod.name.toLowerCase().includes(filter.toLowerCase()) ||
+        pod.namespace.toLowerCase().includes(filter.toLowerCase()) ||
+        (pod.nodeName || "").toLowerCase().includes(filter.toLowerCase())
+      )
+    )
+    .sort((a, b) => (sort.descending ? -1 : 1) * compare[sort.key](a, b));
+
+  const toggleSort = (key: SortKey) => {
+    setSort(current => ({ key, descending: current.key === key ? !current.descending : false }));
+  };
 
-  const getStatusColor = (status: Pod["status"]) => {
-    switch (status) {
+  const getStatusColor = (pod: PodSummary) => {
+    if (pod.problem) return "bg-status-failed";
+    switch (pod.phase) {
       case "Running":
         return "bg-status-running";
       case "Pending":
@@ -45,8 +69,9 @@ export const PodsList = () => {
     }
   };
 
-  const getStatusTextColor = (status: Pod["status"]) => {
-    switch (status) {
+  const getStatusTextColor = (pod: PodSummary) => {
+    if (pod.problem) return "text-status-failed";
+    switch (pod.phase) {
       case "Running":
         return "text-status-running";
       case "Pending":
@@ -60,30 +85,91 @@ export const PodsList = () => {
     }
   };
 
+  if (!selectedCluster) {
+    return <p className="text-sm text-muted-foreground">Add a cluster in Settings to see its pods.</p>;
+  }
+
   return (
     <div className="space-y-4">
-      {/* Search */}
-      <div className="relative">
-        <Search className="absolute left-3 top-1/2 transform -translate-y-1/2 h-4 w-4 text-muted-foreground" />
-        <Input
-          placeholder="Filter pods by name or namespace..."
-          value={filter}
-          onChange={(e) => setFilter(e.target.value)}
-          className="pl-10 bg-terminal-bg border-border"
-        />
+      {/* Search and filters */}
+      <div className="flex items-center space-x-2">
+        <div className="relative flex-1">
+          <Search className="absolute left-3 top-1/2 transform -translate-y-1/2 h-4 w-4 text-muted-foreground" />
+          <Input
+            placeholder="Filter pods by name, namespace or node..."
+            value={filter}
+            onChange={(e) => setFilter(e.target.value)}
+            className="pl-10 bg-terminal-bg border-border"
+          />
+        </div>
+        <Select value={statusFilter} onValueChange={(value) => setStatusFilter(value as StatusFilter)}>
+          <SelectTrigger className="w-36 border-border">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value="all">All statuses</SelectItem>
+            <SelectItem value="problems">Problems</SelectItem>
+            <SelectItem value="Running">Running</SelectItem>
+            <SelectItem value="Pending">Pending</SelectItem>
+            <SelectItem value="Failed">Failed</SelectItem>
+            <SelectItem value="Succeeded">Succeeded</SelectItem>
+          </SelectContent>
+        </Select>
+        <span
+          className={`flex items-center text-xs ${live ? "text-terminal-success" : "text-muted-foreground"}`}
+          title={live ? "Receiving changes as they happen" : "Refreshing every 15 seconds until the live stream reconnects"}
+        >
+          <Circle className={`h-2 w-2 mr-1 rounded-full ${live ? "bg-terminal-success" : "bg-muted"}`} />
+          {live ? "Live" : "Polling"}
+        </span>
+        <Button variant="outline" size="icon" onClick={() => refetch()} disabled={isFetching} title="Refresh">
+          <RefreshCw className={`h-4 w-4 ${isFetching ? "animate-spin" : ""}`} />
+        </Button>
       </div>
 
+      {/* Sort */}
+      <div className="flex items-center space-x-1 text-xs">
+        <span className="text-muted-foreground mr-1">Sort:</span>
+        {sortColumns.map(({ key, label }) => (
+          <Button
+            key={key}
+            variant={sort.key === key ? "secondary" : "ghost"}
+            size="sm"
+            className="h-6 px-2 text-xs"
+            onClick={() => toggleSort(key)}
+          >
+            {label}
+            {sort.key === key && (sort.descending ? <ArrowDown className="h-3 w-3 ml-1" /> : <ArrowUp className="h-3 w-3 ml-1" />)}
+          </Button>
+        ))}
+      </div>
+
+      {error && (
+        <p className="text-sm text-terminal-error">{error.message}</p>
+      )}
+
       {/* Pods List */}
       <ScrollArea className="h-64">
+        {isLoading ? (
+          <div className="flex items-center justify-center h-32 text-muted-foreground">
+            <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+            Loading pods...
+          </div>
+        ) : filteredPods.length === 0 ? (
+          <p className="text-sm text-muted-foreground text-center py-8">
+            {pods.length === 0 ? "No pods in this scope." : "No pods match the filters."}
+          </p>
+        ) : (
         <div className="space-y-2">
-          {filteredPods.map((pod, index) => (
+          {filteredPods.map((pod) => (
             <div
-              key={index}
+              key={`${pod.namespace}/${pod.name}`}
+              onClick={() => setOpenPod(pod)}
               className="flex items-center justify-between p-3 rounded border border-border hover:bg-muted/50 transition-colors cursor-pointer"
             >
               <div className="flex-1 min-w-0">
                 <div className="flex items-center space-x-2">
-                  <Circle className={`h-2 w-2 ${getStatusColor(pod.status)} rounded-full`} />
+                  <Circle className={`h-2 w-2 ${getStatusColor(pod)} rounded-full`} />
                   <span className="font-medium text-sm truncate">{pod.name}</span>
                 </div>
                 <div className="flex items-center space-x-4 mt-1">
@@ -92,19 +178,27 @@ export const PodsList = () => {
                   </Badge>
                   <span className="text-xs text-muted-foreground">Ready: {pod.ready}</span>
                   <span className="text-xs text-muted-foreground">Restarts: {pod.restarts}</span>
-                  <span className="text-xs text-muted-foreground">{pod.age}</span>
+                  <span className="text-xs text-muted-foreground">{formatAge(pod.createdAt)}</span>
+                </div>
+                <div className="flex items-center space-x-4 mt-1 text-xs text-muted-foreground">
+                  <span className="truncate">Node: {pod.nodeName || "-"}</span>
+                  <span>IP: {pod.podIP || "-"}</span>
+                  {pod.owner && <span className="truncate">{pod.owner.kind}/{pod.owner.name}</span>}
                 </div>
               </div>
-              <Badge 
-                variant="outline" 
-                className={`${getStatusTextColor(pod.status)} border-current`}
+              <Badge
+                variant="outline"
+                className={`${getStatusTextColor(pod)} border-current`}
               >
                 {pod.status}
               </Badge>
             </div>
           ))}
         </div>
+        )}
       </ScrollArea>
+
+      <PodDetailSheet pod={openPod} onOpenChange={(open) => !open && setOpenPod(null)} />
     </div>
   );
-};
\ No newline at end of file
+};
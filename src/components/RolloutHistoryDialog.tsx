@@ -0,0 +1,177 @@
+import { useState } from "react";
+import { useQuery, useQueryClient } from "@tanstack/react-query";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Loader2, Undo2 } from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
+import { useSelectedCluster } from "@/hooks/useSelectedCluster";
+import { runKubectl } from "@/lib/kubectl";
+import { formatAge } from "@/lib/pods";
+import { diffTemplates, listDeploymentRevisions } from "@/lib/rollouts";
+
+interface RolloutHistoryDialogProps {
+  deployment: { name: string; namespace: string } | null;
+  onOpenChange: (open: boolean) => void;
+}
+
+const formatValue = (value: unknown) =>
+  typeof value === "string" ? value : JSON.stringify(value);
+
+// `kubectl rollout history` with a template diff between any two revisions and a rollback button
+export const RolloutHistoryDialog = ({ deployment, onOpenChange }: RolloutHistoryDialogProps) => {
+  const { selectedCluster } = useSelectedCluster();
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const clusterId = selectedCluster?.id ?? "";
+  const [compare, setCompare] = useState<{ from?: number; to?: number }>({});
+  const [rollbackTo, setRollbackTo] = useState<number | null>(null);
+  const [isRunning, setIsRunning] = useState(false);
+
+  const { data: revisions = [], error, isLoading } = useQuery({
+    queryKey: ["rollout-history", clusterId, deployment?.namespace, deployment?.name],
+    queryFn: () => listDeploymentRevisions(clusterId, deployment!.namespace, deployment!.name),
+    enabled: !!deployment && !!clusterId
+  });
+
+  // Until the user picks, compare the previous revision with the one running now
+  const current = revisions.find(revision => revision.current) ?? revisions[revisions.length - 1];
+  const toRevision = revisions.find(revision => revision.revision === compare.to) ?? current;
+  const fromRevision = revisions.find(revision => revision.revision === compare.from)
+    ?? [...revisions].reverse().find(revision => revision.revision < (toRevision?.revision ?? 0));
+  const changes = fromRevision && toRevision ? diffTemplates(fromRevision.template, toRevision.template) : [];
+
+  const command = deployment && rollbackTo !== null
+    ? `kubectl rollout undo deployment/${deployment.name} --to-revision=${rollbackTo} -n ${deployment.namespace}`
+    : "";
+
+  const close = (open: boolean) => {
+    if (!open) {
+      setCompare({});
+      setRollbackTo(null);
+    }
+    onOpenChange(open);
+  };
+
+  const rollback = async () => {
+    if (!command) return;
+    setIsRunning(true);
+    try {
+      const result = await runKubectl(command, { clusterId });
+      if (!result.success) throw new Error(result.error || "Rollback failed");
+      toast({
+        title: "Rolled back",
+        description: result.output
+      });
+      setRollbackTo(null);
+      queryClient.invalidateQueries({ queryKey: ["rollout-history", clusterId] });
+      queryClient.invalidateQueries({ queryKey: ["workloads", clusterId] });
+    } catch (error) {
+      toast({
+        title: "Error rolling back",
+        description: error instanceof Error ? error.message : String(error),
+        variant: "destructive"
+      });
+    } finally {
+      setIsRunning(false);
+    }
+  };
+
+  return (
+    <Dialog open={!!deployment} onOpenChange={close}>
+      <DialogContent className="sm:max-w-3xl max-h-[85vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Rollout history: {deployment?.name}</DialogTitle>
+          <DialogDescription>
+            Revisions kept as ReplicaSets in {deployment?.namespace} on {selectedCluster?.name}
+          </DialogDescription>
+        </DialogHeader>
+
+        {isLoading && <Loader2 className="h-4 w-4 animate-spin" />}
+        {error && <p className="text-sm text-terminal-error">{error.message}</p>}
+
+        <div className="space-y-2">
+          {[...revisions].reverse().map(revision => (
+            <div key={revision.revision} className="flex items-center justify-between p-2 rounded border border-border text-xs">
+              <div className="min-w-0 space-y-1">
+                <div className="flex items-center space-x-2">
+                  <span className="font-medium text-sm">#{revision.revision}</span>
+                  {revision.current && <Badge variant="outline" className="text-xs text-status-running border-current">current</Badge>}
+                  <span className="text-muted-foreground">{revision.replicaSet}</span>
+                  <span className="text-muted-foreground">{revision.replicas} pods</span>
+                  <span className="text-muted-foreground">{formatAge(revision.createdAt)}</span>
+                </div>
+                <p className="text-muted-foreground break-all">{revision.images.join(", ")}</p>
+                <p>{revision.changeCause || <span className="text-muted-foreground">No change-cause recorded</span>}</p>
+              </div>
+              <Button
+                size="sm"
+                variant="outline"
+                disabled={revision.current}
+                onClick={() => setRollbackTo(revision.revision)}
+                title="Roll back to this revision"
+              >
+                <Undo2 className="h-4 w-4" />
+              </Button>
+            </div>
+          ))}
+        </div>
+
+        {rollbackTo !== null && (
+          <div className="p-3 rounded border border-terminal-warning space-y-2">
+            <p className="text-sm">
+              Roll {deployment?.name} back to revision {rollbackTo} on {selectedCluster?.name}? The controller replaces its pods following the rollout strategy.
+            </p>
+            <pre className="bg-terminal-bg border border-border rounded p-2 text-xs font-mono whitespace-pre-wrap break-all">{command}</pre>
+            <div className="flex justify-end space-x-2">
+              <Button variant="outline" size="sm" onClick={() => setRollbackTo(null)}>Cancel</Button>
+              <Button size="sm" onClick={rollback} disabled={isRunning}>
+                {isRunning ? "Rolling back..." : "Roll back"}
+              </Button>
+            </div>
+          </div>
+        )}
+
+        {revisions.length > 1 && (
+          <div className="space-y-2">
+            <div className="flex items-center space-x-2 text-sm">
+              <span>Compare</span>
+              <Select value={fromRevision ? String(fromRevision.revision) : undefined} onValueChange={(value) => setCompare({ ...compare, from: Number(value) })}>
+                <SelectTrigger className="w-24 h-8">
+                  <SelectValue placeholder="from" />
+                </SelectTrigger>
+                <SelectContent>
+                  {revisions.map(revision => (
+                    <SelectItem key={revision.revision} value={String(revision.revision)}>#{revision.revision}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <span>with</span>
+              <Select value={toRevision ? String(toRevision.revision) : undefined} onValueChange={(value) => setCompare({ ...compare, to: Number(value) })}>
+                <SelectTrigger className="w-24 h-8">
+                  <SelectValue placeholder="to" />
+                </SelectTrigger>
+                <SelectContent>
+                  {revisions.map(revision => (
+                    <SelectItem key={revision.revision} value={String(revision.revision)}>#{revision.revision}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="bg-terminal-bg border border-border rounded p-2 text-xs font-mono space-y-1 max-h-64 overflow-auto">
+              {changes.length === 0 ? (
+                <div className="text-muted-foreground">Pod templates are identical</div>
+              ) : changes.map((change, index) => (
+                <div key={index}>
+                  {"before" in change && <div className="text-terminal-error">- {change.path}: {formatValue(change.before)}</div>}
+                  {"after" in change && <div className="text-terminal-success">+ {change.path}: {formatValue(change.after)}</div>}
+                </div>
+              ))}
+            </div>
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+};
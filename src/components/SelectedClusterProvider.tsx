@@ -0,0 +1,104 @@
+import { useCallback, useEffect, useState, type ReactNode } from "react";
+import { supabase } from "@/integrations/supabase/client";
+import { useAuth } from "@/hooks/useAuth";
+import { ALL_NAMESPACES, SelectedClusterContext, type ClusterSummary } from "@/hooks/useSelectedCluster";
+import { runKubectl } from "@/lib/kubectl";
+
+// sessionStorage is per browser tab, so two tabs can work in different clusters side by side
+const STORAGE_KEY = "kubedebug.selectedClusterId";
+const NAMESPACE_STORAGE_KEY = "kubedebug.selectedNamespace";
+
+export function SelectedClusterProvider({ children }: { children: ReactNode }) {
+  const { user } = useAuth();
+  const [clusters, setClusters] = useState<ClusterSummary[]>([]);
+  const [selectedId, setSelectedId] = useState<string | null>(() => sessionStorage.getItem(STORAGE_KEY));
+  const [namespaceChoices, setNamespaceChoices] = useState<Record<string, string>>({});
+  const [clusterNamespaces, setClusterNamespaces] = useState<string[]>([]);
+
+  const refreshClusters = useCallback(async () => {
+    const { data, error } = await supabase
+      .from("cluster_configs")
+      .select("id, name, namespace, is_monitored, watched_namespaces, watch_all_namespaces")
+      .order("name");
+
+    if (error) {
+      console.error("Error fetching clusters:", error);
+      return;
+    }
+    setClusters(data || []);
+  }, []);
+
+  useEffect(() => {
+    if (user) {
+      refreshClusters();
+    }
+  }, [user, refreshClusters]);
+
+  const selectCluster = useCallback((clusterId: string) => {
+    sessionStorage.setItem(STORAGE_KEY, clusterId);
+    setSelectedId(clusterId);
+  }, []);
+
+  // A deleted or never-chosen cluster falls back to the first monitored one, then the first at all
+  const selectedCluster = clusters.find((cluster) => cluster.id === selectedId)
+    ?? clusters.find((cluster) => cluster.is_monitored)
+    ?? clusters[0]
+    ?? null;
+
+  // Clusters watching every namespace offer whatever namespaces exist right now
+  const listsAllNamespaces = selectedCluster?.watch_all_namespaces ?? false;
+  const selectedClusterId = selectedCluster?.id;
+  useEffect(() => {
+    setClusterNamespaces([]);
+    if (!selectedClusterId || !listsAllNamespaces) return;
+
+    let cancelled = false;
+    runKubectl("kubectl get namespaces -o name", { clusterId: selectedClusterId, background: true }).then((result) => {
+      if (cancelled || !result.success) return;
+      setClusterNamespaces((result.output || "").split("\n").filter(Boolean).map((name) => name.replace(/^namespace\//, "")));
+    });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [selectedClusterId, listsAllNamespaces]);
+
+  const defaultNamespace = selectedCluster?.namespace || "default";
+  const namespaces = [...new Set([
+    defaultNamespace,
+    ...(listsAllNamespaces ? clusterNamespaces : selectedCluster?.watched_namespaces ?? [])
+  ])];
+
+  const selectedNamespace = (selectedCluster && (
+    namespaceChoices[selectedCluster.id]
+    ?? sessionStorage.getItem(`${NAMESPACE_STORAGE_KEY}.${selectedCluster.id}`)
+  )) || defaultNamespace;
+
+  const selectNamespace = useCallback((namespace: string) => {
+    if (!selectedClusterId) return;
+    sessionStorage.setItem(`${NAMESPACE_STORAGE_KEY}.${selectedClusterId}`, namespace);
+    setNamespaceChoices((choices) => ({ ...choices, [selectedClusterId]: namespace }));
+  }, [selectedClusterId]);
+
+  const scope = selectedCluster
+    ? {
+      clusterId: selectedCluster.id,
+      ...(selectedNamespace === ALL_NAMESPACES ? { allNamespaces: true } : { namespace: selectedNamespace })
+    }
+    : {};
+
+  return (
+    <SelectedClusterContext.Provider value={{
+      clusters,
+      selectedCluster,
+      selectCluster,
+      refreshClusters,
+      namespaces,
+      selectedNamespace,
+      selectNamespace,
+      scope
+    }}>
+      {children}
+    </SelectedClusterContext.Provider>
+  );
+}
@@ -1,44 +1,88 @@
 import { useState, useEffect, useRef } from "react";
 import { ScrollArea } from "@/components/ui/scroll-area";
 import { Input } from "@/components/ui/input";
+import { Textarea } from "@/components/ui/textarea";
 import { Button } from "@/components/ui/button";
-import { ChevronRight, Terminal as TerminalIcon } from "lucide-react";
+import { ChevronRight, Terminal as TerminalIcon, Check, X, Square, ExternalLink } from "lucide-react";
+import {
+  followKubectlLogs,
+  openExecSession,
+  runKubectl,
+  stopPortForward,
+  type ExecSession,
+  type KubectlOptions,
+  type LogStream,
+  type ObjectDiff,
+  type PortForwardSession
+} from "@/lib/kubectl";
+import { useSelectedCluster } from "@/hooks/useSelectedCluster";
 
 interface TerminalEntry {
-  type: "command" | "output" | "error";
+  type: "command" | "output" | "error" | "diff";
   content: string;
   timestamp: Date;
+  diff?: ObjectDiff[];
+  portForwards?: PortForwardSession[];
 }
 
-const mockCommands = {
-  "kubectl get pods": `NAME                                READY   STATUS    RESTARTS   AGE
-nginx-deployment-7d6c9f8b9c-xyz12   1/1     Running   0          2d
-api-server-5f9b8c7d6e-abc34         1/1     Running   1          5d
-redis-master-6a8b9c7d5e-def56       1/1     Running   0          1d
-worker-queue-4e7f8g9h0i-ghi78       0/1     Pending   3          30m
-database-primary-3d6e9f0g1h-jkl90   0/1     Failed    5          1h`,
-  
-  "kubectl get nodes": `NAME       STATUS   ROLES           AGE   VERSION
-master-1   Ready    control-plane   7d    v1.28.2
-worker-1   Ready    <none>          7d    v1.28.2
-worker-2   Ready    <none>          7d    v1.28.2`,
-
-  "kubectl get services": `NAME         TYPE        CLUSTER-IP      EXTERNAL-IP   PORT(S)   AGE
-kubernetes   ClusterIP   10.96.0.1       <none>        443/TCP   7d
-nginx-svc    ClusterIP   10.96.1.100     <none>        80/TCP    2d
-api-svc      ClusterIP   10.96.1.101     <none>        8080/TCP  5d`,
-
-  "help": `Available commands:
-  kubectl get pods          - List all pods
-  kubectl get nodes         - List all nodes  
-  kubectl get services      - List all services
-  kubectl describe pod <name> - Describe a specific pod
-  kubectl logs <pod-name>   - Get logs for a pod
-  clear                     - Clear terminal
-  help                      - Show this help`
-};
+const helpText = `Available commands:
+  kubectl get <resource> [name]        - List or get resources (-n, -A, -l, -o wide|json|yaml|name|jsonpath=...)
+  kubectl describe <resource> <name>   - Describe a resource with its events
+  kubectl logs <pod-name> [-c name]    - Get logs for a pod (-f, --tail, --since, --previous, --timestamps)
+  kubectl api-resources                - List resource types the cluster serves
+  kubectl top pods|nodes               - Live CPU/memory usage (--containers, --sort-by=cpu|memory)
+  kubectl scale <resource> <name> --replicas=N
+  kubectl rollout restart <resource> <name>
+  kubectl rollout history deployment <name> [--revision=N] [-o json|yaml]
+  kubectl rollout undo deployment <name> [--to-revision=N]
+  kubectl delete pod <name>
+  kubectl cordon|uncordon|drain <node>
+  kubectl apply -f -                   - Paste a manifest and apply it server-side
+  kubectl exec <pod> [-c name] -- <cmd> - Run a command in a container (-it for an interactive shell)
+  kubectl port-forward pod/<name> 8080:80 - Open a pod port through a temporary proxy URL
+  clear                                - Clear terminal
+  help                                 - Show this help
+
+Write commands are previewed with a server-side dry run and only run after you confirm.`;
+
+// A write command whose dry run has been shown and is waiting for confirmation
+interface PendingCommand {
+  command: string;
+  manifest?: string;
+  // Confirming runs against the cluster and namespace that were previewed, even if the tab has switched since
+  scope?: KubectlOptions;
+  clusterName?: string;
+}
+
+// `kubectl apply -f -` switches the input into manifest paste mode
+const readsManifest = (command: string) =>
+  /^kubectl\s+apply\b/.test(command) && /(^|\s)(-f|--filename)(\s+|=)-(\s|$)/.test(command);
+
+// `kubectl logs -f` streams into the terminal until it ends or is stopped
+const followsLogs = (command: string) =>
+  /^kubectl\s+logs\b/.test(command) && /(^|\s)(-[a-z]*f[a-z]*|--follow(=true)?)(\s|$)/.test(command);
+
+// exec and port-forward can't be dry-run, so they skip the preview
+const runsImmediately = (command: string) => /^kubectl\s+(exec|port-forward)\b/.test(command);
+
+// -i/-t (before the `--`) open an interactive session instead of a one-shot run
+const interactiveExec = (command: string) =>
+  /(^|\s)(-[a-z]*[it][a-z]*|--stdin|--tty)(=true)?(\s|$)/.test(command.split(/\s--(\s|$)/)[0]);
+
+// Cursor movement, colours and title escapes from a TTY; the terminal only renders plain text
+const ESC = String.fromCharCode(27);
+const BEL = String.fromCharCode(7);
+const ansiPattern = new RegExp(`${ESC}\\[[0-9;?]*[A-Za-z]|${ESC}\\][^${BEL}]*${BEL}|\r`, "g");
+
+// Rough character cell size for text-xs monospace, used to report the TTY size
+const CELL_WIDTH = 7.2;
+const CELL_HEIGHT = 16;
+
+const formatValue = (value: unknown) =>
+  value !== null && typeof value === "object" ? JSON.stringify(value) : String(value);
 
 export const Terminal = () => {
+  const { selectedCluster, scope } = useSelectedCluster();
   const [history, setHistory] = useState<TerminalEntry[]>([
     {
       type: "output",
@@ -49,6 +93,18 @@ export const Terminal = () => {
   const [currentCommand, setCurrentCommand] = useState("");
   const [commandHistory, setCommandHistory] = useState<string[]>([]);
   const [historyIndex, setHistoryIndex] = useState(-1);
+  const [isRunning, setIsRunning] = useState(false);
+  const [pendingCommand, setPendingCommand] = useState<PendingCommand | null>(null);
+  const [pasteCommand, setPasteCommand] = useState<string | null>(null);
+  const [manifest, setManifest] = useState("");
+  // Lines of the log stream currently being followed, moved into history when it stops
+  const [followLines, setFollowLines] = useState<string[] | null>(null);
+  const logStream = useRef<LogStream | null>(null);
+  const followBuffer = useRef<string[]>([]);
+  // Output of the interactive exec session, moved into history when it ends
+  const [execOutput, setExecOutput] = useState<string | null>(null);
+  const execSession = useRef<ExecSession | null>(null);
+  const execBuffer = useRef("");
   const scrollAreaRef = useRef<HTMLDivElement>(null);
 
   useEffect(() => {
@@ -59,78 +115,252 @@ export const Terminal = () => {
         scrollContainer.scrollTop = scrollContainer.scrollHeight;
       }
     }
-  }, [history]);
+  }, [history, followLines, execOutput]);
 
-  const executeCommand = (command: string) => {
-    if (!command.trim()) return;
+  // Stop following logs and close exec sessions when the terminal goes away
+  useEffect(() => () => {
+    logStream.current?.cancel();
+    execSession.current?.close();
+  }, []);
 
-    // Add command to history
-    const newEntry: TerminalEntry = {
-      type: "command",
-      content: command,
-      timestamp: new Date()
-    };
+  // Keep the remote TTY size in step with the terminal while a session is open
+  const isInteractive = execOutput !== null;
+  useEffect(() => {
+    const element = scrollAreaRef.current;
+    if (!isInteractive || !element) return;
+    const observer = new ResizeObserver(([entry]) => {
+      execSession.current?.resize(
+        Math.floor(entry.contentRect.width / CELL_WIDTH),
+        Math.floor(entry.contentRect.height / CELL_HEIGHT)
+      );
+    });
+    observer.observe(element);
+    return () => observer.disconnect();
+  }, [isInteractive]);
+
+  const addEntry = (entry: Omit<TerminalEntry, "timestamp">) => {
+    setHistory(prev => [...prev, { ...entry, timestamp: new Date() }]);
+  };
+
+  const executeCommand = async (command: string) => {
+    if (execSession.current) {
+      sendToSession(`${command}\n`);
+      return;
+    }
+    if (!command.trim() || isRunning) return;
 
-    setHistory(prev => [...prev, newEntry]);
+    addEntry({ type: "command", content: command });
     setCommandHistory(prev => [...prev, command]);
     setHistoryIndex(-1);
-
-    // Process command
-    let output = "";
-    let type: "output" | "error" = "output";
+    setCurrentCommand("");
+    setPendingCommand(null);
 
     const lowerCommand = command.toLowerCase().trim();
-    
+
     if (lowerCommand === "clear") {
       setHistory([]);
-      setCurrentCommand("");
       return;
     }
 
-    if (lowerCommand in mockCommands) {
-      output = mockCommands[lowerCommand as keyof typeof mockCommands];
-    } else if (lowerCommand.startsWith("kubectl describe pod ")) {
-      const podName = command.split(" ").slice(3).join(" ");
-      output = `Name:         ${podName}
-Namespace:    default
-Priority:     0
-Node:         worker-1/192.168.1.101
-Start Time:   Mon, 15 Jan 2024 08:30:00 +0000
-Labels:       app=nginx
-              pod-template-hash=7d6c9f8b9c
-Status:       Running
-IP:           10.244.1.10
-Containers:
-  nginx:
-    Container ID:  containerd://abc123...
-    Image:         nginx:1.21
-    Port:          80/TCP
-    State:         Running
-      Started:     Mon, 15 Jan 2024 08:30:05 +0000`;
-    } else if (lowerCommand.startsWith("kubectl logs ")) {
-      const podName = command.split(" ").slice(2).join(" ");
-      output = `[2024-01-15T10:30:45Z] INFO: Starting nginx server
-[2024-01-15T10:30:46Z] INFO: Server listening on port 80
-[2024-01-15T10:30:47Z] INFO: Configuration loaded successfully
-[2024-01-15T10:30:48Z] INFO: Health check endpoint registered`;
-    } else {
-      output = `kubectl: error: unknown command "${command}"
-Run 'help' for available commands.`;
-      type = "error";
-    }
-
-    // Add output
-    const outputEntry: TerminalEntry = {
-      type,
-      content: output,
-      timestamp: new Date()
-    };
+    if (lowerCommand === "help") {
+      addEntry({ type: "output", content: helpText });
+      return;
+    }
 
-    setHistory(prev => [...prev, outputEntry]);
+    if (!lowerCommand.startsWith("kubectl")) {
+      addEntry({
+        type: "error",
+        content: `error: unknown command "${command}"\nRun 'help' for available commands.`
+      });
+      return;
+    }
+
+    if (readsManifest(command.trim())) {
+      setPasteCommand(command.trim());
+      addEntry({ type: "output", content: "Paste the manifest below, then press Ctrl+Enter to preview it." });
+      return;
+    }
+
+    if (followsLogs(command.trim())) {
+      startFollowing(command.trim());
+      return;
+    }
+
+    if (runsImmediately(command.trim())) {
+      if (/^kubectl\s+exec\b/.test(command.trim()) && interactiveExec(command.trim())) {
+        await startExecSession(command.trim());
+      } else {
+        await runOnce(command.trim());
+      }
+      return;
+    }
+
+    await preview({ command: command.trim() });
+  };
+
+  // The allowlist still applies server-side
+  const runOnce = async (command: string) => {
+    setIsRunning(true);
+    try {
+      const result = await runKubectl(command, scope);
+      addEntry(result.success
+        ? { type: "output", content: result.output || "", portForwards: result.portForwards }
+        : { type: "error", content: result.error || "Command failed" });
+    } finally {
+      setIsRunning(false);
+    }
+  };
+
+  const finishExecSession = (code: number, message?: string) => {
+    execSession.current = null;
+    setExecOutput(null);
+    if (execBuffer.current) addEntry({ type: "output", content: execBuffer.current });
+    addEntry(code === 0
+      ? { type: "output", content: "Session closed." }
+      : { type: "error", content: message || `command terminated with exit code ${code}` });
+    execBuffer.current = "";
+  };
+
+  const startExecSession = async (command: string) => {
+    execBuffer.current = "";
+    setExecOutput("");
+    try {
+      const element = scrollAreaRef.current;
+      const session = await openExecSession(command, {
+        onOutput: data => {
+          execBuffer.current += data.replace(ansiPattern, "");
+          setExecOutput(execBuffer.current);
+        },
+        onExit: finishExecSession,
+      }, scope);
+      execSession.current = session;
+      if (element) {
+        session.resize(Math.floor(element.clientWidth / CELL_WIDTH), Math.floor(element.clientHeight / CELL_HEIGHT));
+      }
+    } catch (error) {
+      finishExecSession(1, error instanceof Error ? error.message : String(error));
+    }
+  };
+
+  const sendToSession = (data: string) => {
+    execSession.current?.send(data);
     setCurrentCommand("");
   };
 
+  const closeExecSession = () => {
+    // close() suppresses onExit, so wrap up here
+    execSession.current?.close();
+    finishExecSession(0);
+  };
+
+  // Move the followed lines into history once the stream ends, fails or is stopped
+  const finishFollowing = (error?: string) => {
+    logStream.current = null;
+    setFollowLines(null);
+    if (followBuffer.current.length) addEntry({ type: "output", content: followBuffer.current.join("\n") });
+    if (error) addEntry({ type: "error", content: error });
+    followBuffer.current = [];
+  };
+
+  const startFollowing = (command: string) => {
+    followBuffer.current = [];
+    setFollowLines([]);
+    logStream.current = followKubectlLogs(command, {
+      onLine: line => {
+        followBuffer.current.push(line);
+        setFollowLines([...followBuffer.current]);
+      },
+      onError: message => finishFollowing(message),
+      onEnd: () => finishFollowing(),
+    }, scope);
+  };
+
+  const stopFollowing = () => {
+    // cancel() suppresses onEnd, so flush the lines here
+    logStream.current?.cancel();
+    finishFollowing();
+  };
+
+  const preview = async ({ command, manifest }: PendingCommand) => {
+    setIsRunning(true);
+    try {
+      // Always ask for a dry run first; read-only commands ignore it and just return output
+      const result = await runKubectl(command, { ...scope, dryRun: true, manifest });
+
+      if (result.mutating && result.dryRun && result.success) {
+        addEntry({ type: "diff", content: result.output || "", diff: result.diff || [] });
+        setPendingCommand({ command, manifest, scope, clusterName: selectedCluster?.name });
+      } else if (result.success) {
+        addEntry({ type: "output", content: result.output || "" });
+      } else {
+        addEntry({ type: "error", content: result.error || "Command failed" });
+      }
+    } finally {
+      setIsRunning(false);
+    }
+  };
+
+  const submitManifest = async () => {
+    if (!pasteCommand || !manifest.trim() || isRunning) return;
+    const command = pasteCommand;
+    addEntry({ type: "output", content: manifest });
+    setPasteCommand(null);
+    setManifest("");
+    await preview({ command, manifest });
+  };
+
+  const cancelPaste = () => {
+    setPasteCommand(null);
+    setManifest("");
+    addEntry({ type: "output", content: "Cancelled, nothing was applied." });
+  };
+
+  const handleManifestKeyDown = (e: React.KeyboardEvent) => {
+    if (e.key === "Enter" && (e.ctrlKey || e.metaKey)) {
+      e.preventDefault();
+      submitManifest();
+    } else if (e.key === "Escape") {
+      cancelPaste();
+    }
+  };
+
+  const confirmPending = async () => {
+    if (!pendingCommand) return;
+    const { command, manifest, scope } = pendingCommand;
+    setPendingCommand(null);
+    setIsRunning(true);
+    try {
+      const result = await runKubectl(command, { ...scope, dryRun: false, manifest });
+      addEntry(result.success
+        ? { type: "output", content: result.output || "" }
+        : { type: "error", content: result.error || "Command failed" });
+    } finally {
+      setIsRunning(false);
+    }
+  };
+
+  const closePortForward = async (session: PortForwardSession) => {
+    try {
+      await stopPortForward(session.id);
+      addEntry({ type: "output", content: `Stopped forwarding to ${session.podName}:${session.remotePort}` });
+    } catch (error) {
+      addEntry({ type: "error", content: error instanceof Error ? error.message : String(error) });
+    }
+  };
+
+  const cancelPending = () => {
+    setPendingCommand(null);
+    addEntry({ type: "output", content: "Cancelled, nothing was changed." });
+  };
+
   const handleKeyDown = (e: React.KeyboardEvent) => {
+    // Control keys go straight to the interactive session
+    if (execSession.current && e.ctrlKey && (e.key === "c" || e.key === "d")) {
+      e.preventDefault();
+      execSession.current.send(e.key === "c" ? "\x03" : "\x04");
+      return;
+    }
+
     if (e.key === "Enter") {
       executeCommand(currentCommand);
     } else if (e.key === "ArrowUp") {
@@ -168,21 +398,152 @@ Run 'help' for available commands.`;
                   <span className="text-terminal-text">{entry.content}</span>
                 </>
               )}
-              {entry.type === "output" && (
+              {entry.type === "output" && !entry.portForwards && (
                 <pre className="text-terminal-text whitespace-pre-wrap text-xs leading-relaxed">
                   {entry.content}
                 </pre>
               )}
+              {entry.type === "output" && entry.portForwards && (
+                <div className="text-xs leading-relaxed space-y-1">
+                  {entry.portForwards.map(session => (
+                    <div key={session.id} className="flex items-center space-x-2">
+                      <span className="text-terminal-text">
+                        {session.podName}:{session.remotePort} until {new Date(session.expiresAt).toLocaleTimeString()}
+                      </span>
+                      <a
+                        href={session.url}
+                        target="_blank"
+                        rel="noopener noreferrer"
+                        className="inline-flex items-center text-terminal-accent hover:underline"
+                      >
+                        <ExternalLink className="h-3 w-3 mr-1" />
+                        Open
+                      </a>
+                      <button onClick={() => closePortForward(session)} className="text-terminal-error hover:underline">
+                        Stop
+                      </button>
+                    </div>
+                  ))}
+                </div>
+              )}
               {entry.type === "error" && (
                 <pre className="text-terminal-error whitespace-pre-wrap text-xs leading-relaxed">
                   {entry.content}
                 </pre>
               )}
+              {entry.type === "diff" && (
+                <div className="text-xs leading-relaxed space-y-1">
+                  <pre className="text-terminal-text whitespace-pre-wrap">{entry.content}</pre>
+                  {entry.diff?.map((objectDiff, diffIndex) => (
+                    <div key={diffIndex}>
+                      <div className="text-terminal-warning">
+                        {{ patch: "~", create: "+", delete: "-", evict: "-" }[objectDiff.action]} {objectDiff.target}
+                        {objectDiff.action !== "patch" && ` (${objectDiff.action})`}
+                      </div>
+                      {objectDiff.action === "patch" && objectDiff.changes.length === 0 && (
+                        <div className="pl-4 text-terminal-muted">no changes</div>
+                      )}
+                      {objectDiff.changes.map((change, changeIndex) => (
+                        <div key={changeIndex} className="pl-4">
+                          {"before" in change && (
+                            <div className="text-terminal-error">- {change.path}: {formatValue(change.before)}</div>
+                          )}
+                          {"after" in change && (
+                            <div className="text-terminal-success">+ {change.path}: {formatValue(change.after)}</div>
+                          )}
+                        </div>
+                      ))}
+                    </div>
+                  ))}
+                </div>
+              )}
             </div>
           ))}
+          {execOutput !== null && (
+            <pre className="text-terminal-text whitespace-pre-wrap text-xs leading-relaxed">
+              {execOutput}
+            </pre>
+          )}
+          {followLines && (
+            <pre className="text-terminal-text whitespace-pre-wrap text-xs leading-relaxed">
+              {followLines.join("\n")}
+            </pre>
+          )}
+          {isRunning && <div className="text-terminal-muted text-xs">Running...</div>}
         </div>
       </ScrollArea>
 
+      {/* Dry-run confirmation */}
+      {pendingCommand && (
+        <div className="flex items-center justify-between p-2 rounded border border-terminal-warning text-xs">
+          <span className="font-mono text-terminal-warning truncate">
+            Run for real{pendingCommand.clusterName && ` on ${pendingCommand.clusterName}`}: {pendingCommand.command}
+          </span>
+          <div className="flex items-center space-x-2 flex-shrink-0">
+            <Button size="sm" variant="destructive" onClick={confirmPending} disabled={isRunning}>
+              <Check className="h-4 w-4 mr-1" />
+              Confirm
+            </Button>
+            <Button size="sm" variant="outline" onClick={cancelPending} disabled={isRunning}>
+              <X className="h-4 w-4 mr-1" />
+              Cancel
+            </Button>
+          </div>
+        </div>
+      )}
+
+      {/* Log follow control */}
+      {followLines && (
+        <div className="flex items-center justify-between p-2 rounded border border-border text-xs">
+          <span className="font-mono text-terminal-muted">Following logs...</span>
+          <Button size="sm" variant="outline" onClick={stopFollowing}>
+            <Square className="h-4 w-4 mr-1" />
+            Stop
+          </Button>
+        </div>
+      )}
+
+      {/* Interactive exec control */}
+      {isInteractive && (
+        <div className="flex items-center justify-between p-2 rounded border border-border text-xs">
+          <span className="font-mono text-terminal-muted">Interactive session · Ctrl+C interrupt, Ctrl+D end of input</span>
+          <Button size="sm" variant="outline" onClick={closeExecSession}>
+            <X className="h-4 w-4 mr-1" />
+            Exit
+          </Button>
+        </div>
+      )}
+
+      {/* Manifest paste mode */}
+      {pasteCommand && (
+        <div className="space-y-2">
+          <Textarea
+            value={manifest}
+            onChange={(e) => setManifest(e.target.value)}
+            onKeyDown={handleManifestKeyDown}
+            placeholder={"apiVersion: apps/v1\nkind: Deployment\n...\n---\napiVersion: v1\nkind: Service\n..."}
+            disabled={isRunning}
+            autoFocus
+            className="h-40 bg-terminal-bg border-border font-mono text-xs"
+          />
+          <div className="flex items-center justify-between text-xs">
+            <span className="font-mono text-terminal-muted truncate">
+              {pasteCommand} · Ctrl+Enter to preview, Esc to cancel
+            </span>
+            <div className="flex items-center space-x-2 flex-shrink-0">
+              <Button size="sm" onClick={submitManifest} disabled={isRunning || !manifest.trim()}>
+                <Check className="h-4 w-4 mr-1" />
+                Preview
+              </Button>
+              <Button size="sm" variant="outline" onClick={cancelPaste} disabled={isRunning}>
+                <X className="h-4 w-4 mr-1" />
+                Cancel
+              </Button>
+            </div>
+          </div>
+        </div>
+      )}
+
       {/* Command Input */}
       <div className="flex items-center space-x-2">
         <div className="flex items-center space-x-1 text-terminal-success">
@@ -193,12 +554,14 @@ Run 'help' for available commands.`;
           value={currentCommand}
           onChange={(e) => setCurrentCommand(e.target.value)}
           onKeyDown={handleKeyDown}
-          placeholder="Enter kubectl command..."
+          placeholder={isInteractive ? "Type input for the container..." : "Enter kubectl command..."}
+          disabled={isRunning || pasteCommand !== null || followLines !== null}
           className="bg-terminal-bg border-border font-mono text-sm"
         />
         <Button
           size="sm"
           onClick={() => executeCommand(currentCommand)}
+          disabled={isRunning || pasteCommand !== null || followLines !== null}
           className="bg-primary hover:bg-primary/80"
         >
           <ChevronRight className="h-4 w-4" />
@@ -206,4 +569,4 @@ Run 'help' for available commands.`;
       </div>
     </div>
   );
-};
\ No newline at end of file
+};
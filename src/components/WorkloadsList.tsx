@@ -0,0 +1,294 @@
+import { useState } from "react";
+import { useQueryClient } from "@tanstack/react-query";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { ScrollArea } from "@/components/ui/scroll-area";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { ChevronDown, ChevronRight, Circle, History, Loader2, RefreshCw, RotateCw, Scaling, Search } from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
+import { useSelectedCluster } from "@/hooks/useSelectedCluster";
+import { usePods } from "@/hooks/usePods";
+import { useWorkloadIntermediates, useWorkloads } from "@/hooks/useWorkloads";
+import { RolloutHistoryDialog } from "./RolloutHistoryDialog";
+import { runKubectl } from "@/lib/kubectl";
+import { formatAge } from "@/lib/pods";
+import {
+  RESTARTABLE_KINDS,
+  SCALABLE_KINDS,
+  WORKLOAD_KINDS,
+  isOwnedBy,
+  type WorkloadKind,
+  type WorkloadSummary
+} from "@/lib/workloads";
+
+type PendingAction =
+  | { type: "scale"; workload: WorkloadSummary; replicas: string }
+  | { type: "restart"; workload: WorkloadSummary };
+
+const workloadKey = (workload: WorkloadSummary) => `${workload.kind}/${workload.namespace}/${workload.name}`;
+
+const actionCommand = (action: PendingAction) => {
+  const { kind, name, namespace } = action.workload;
+  return action.type === "scale"
+    ? `kubectl scale ${kind.toLowerCase()}/${name} --replicas=${action.replicas} -n ${namespace}`
+    : `kubectl rollout restart ${kind.toLowerCase()}/${name} -n ${namespace}`;
+};
+
+const formatCount = (value: number | null) => (value === null ? "-" : String(value));
+
+export const WorkloadsList = () => {
+  const [filter, setFilter] = useState("");
+  const [kindFilter, setKindFilter] = useState<"all" | WorkloadKind>("all");
+  const [expanded, setExpanded] = useState<Set<string>>(new Set());
+  const [pendingAction, setPendingAction] = useState<PendingAction | null>(null);
+  const [isRunning, setIsRunning] = useState(false);
+  const [historyFor, setHistoryFor] = useState<WorkloadSummary | null>(null);
+  const { selectedCluster } = useSelectedCluster();
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const { data: workloads = [], error, isLoading, isFetching, refetch } = useWorkloads();
+  const { data: intermediates = [] } = useWorkloadIntermediates(expanded.size > 0);
+  const { data: pods = [] } = usePods();
+
+  const filteredWorkloads = workloads
+    .filter(workload =>
+      (kindFilter === "all" || workload.kind === kindFilter) && (
+        workload.name.toLowerCase().includes(filter.toLowerCase()) ||
+        workload.namespace.toLowerCase().includes(filter.toLowerCase())
+      )
+    )
+    .sort((a, b) => Number(a.healthy) - Number(b.healthy) || a.kind.localeCompare(b.kind) || a.name.localeCompare(b.name));
+
+  const toggleExpanded = (key: string) => {
+    setExpanded(current => {
+      const next = new Set(current);
+      if (next.has(key)) next.delete(key);
+      else next.add(key);
+      return next;
+    });
+  };
+
+  const runAction = async () => {
+    if (!pendingAction || !selectedCluster) return;
+    setIsRunning(true);
+    try {
+      const result = await runKubectl(actionCommand(pendingAction), { clusterId: selectedCluster.id });
+      if (!result.success) throw new Error(result.error || "Command failed");
+      toast({
+        title: pendingAction.type === "scale" ? "Scaled" : "Restarting",
+        description: result.output
+      });
+      setPendingAction(null);
+      queryClient.invalidateQueries({ queryKey: ["workloads", selectedCluster.id] });
+    } catch (error) {
+      toast({
+        title: pendingAction.type === "scale" ? "Error scaling workload" : "Error restarting workload",
+        description: error instanceof Error ? error.message : String(error),
+        variant: "destructive"
+      });
+    } finally {
+      setIsRunning(false);
+    }
+  };
+
+  // Deployments own ReplicaSets and CronJobs own Jobs; their pods hang off those in turn
+  const renderChildren = (workload: WorkloadSummary) => {
+    const children = intermediates.filter(child => isOwnedBy(child, workload));
+    const owners = [workload, ...children];
+    const ownedPods = pods.filter(pod => owners.some(owner => isOwnedBy(pod, owner)));
+
+    return (
+      <div className="ml-6 mt-2 space-y-1 text-xs">
+        {workload.conditions.length > 0 && (
+          <div className="space-y-1">
+            {workload.conditions.map(condition => (
+              <div key={condition.type} className="flex items-start space-x-2">
+                <Badge variant="outline" className={`text-xs ${condition.status === "True" ? "" : "text-terminal-warning"}`}>
+                  {condition.type}={condition.status}
+                </Badge>
+                <span className="text-muted-foreground">{[condition.reason, condition.message].filter(Boolean).join(": ")}</span>
+              </div>
+            ))}
+          </div>
+        )}
+        {children.map(child => (
+          <div key={`${child.kind}/${child.name}`} className="text-muted-foreground">
+            {child.kind}/{child.name}
+          </div>
+        ))}
+        {ownedPods.length === 0 ? (
+          <div className="text-muted-foreground">No pods</div>
+        ) : ownedPods.map(pod => (
+          <div key={`${pod.namespace}/${pod.name}`} className="flex items-center space-x-2">
+            <Circle className={`h-2 w-2 rounded-full ${pod.problem ? "bg-status-failed" : pod.phase === "Running" ? "bg-status-running" : "bg-status-pending"}`} />
+            <span className="truncate">{pod.name}</span>
+            <span className="text-muted-foreground">{pod.status}</span>
+            <span className="text-muted-foreground">Ready: {pod.ready}</span>
+            <span className="text-muted-foreground">Restarts: {pod.restarts}</span>
+          </div>
+        ))}
+      </div>
+    );
+  };
+
+  if (!selectedCluster) {
+    return <p className="text-sm text-muted-foreground">Add a cluster in Settings to see its workloads.</p>;
+  }
+
+  return (
+    <div className="space-y-4">
+      {/* Search and filters */}
+      <div className="flex items-center space-x-2">
+        <div className="relative flex-1">
+          <Search className="absolute left-3 top-1/2 transform -translate-y-1/2 h-4 w-4 text-muted-foreground" />
+          <Input
+            placeholder="Filter workloads by name or namespace..."
+            value={filter}
+            onChange={(e) => setFilter(e.target.value)}
+            className="pl-10 bg-terminal-bg border-border"
+          />
+        </div>
+        <Select value={kindFilter} onValueChange={(value) => setKindFilter(value as "all" | WorkloadKind)}>
+          <SelectTrigger className="w-40 border-border">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value="all">All kinds</SelectItem>
+            {WORKLOAD_KINDS.map(({ kind }) => (
+              <SelectItem key={kind} value={kind}>{kind}s</SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        <Button variant="outline" size="icon" onClick={() => refetch()} disabled={isFetching} title="Refresh">
+          <RefreshCw className={`h-4 w-4 ${isFetching ? "animate-spin" : ""}`} />
+        </Button>
+      </div>
+
+      {error && (
+        <p className="text-sm text-terminal-error">{error.message}</p>
+      )}
+
+      <ScrollArea className="h-[32rem]">
+        {isLoading ? (
+          <div className="flex items-center justify-center h-32 text-muted-foreground">
+            <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+            Loading workloads...
+          </div>
+        ) : filteredWorkloads.length === 0 ? (
+          <p className="text-sm text-muted-foreground text-center py-8">
+            {workloads.length === 0 ? "No workloads in this scope." : "No workloads match the filters."}
+          </p>
+        ) : (
+        <div className="space-y-2">
+          {filteredWorkloads.map((workload) => {
+            const key = workloadKey(workload);
+            const isExpanded = expanded.has(key);
+            return (
+              <div key={key} className="p-3 rounded border border-border">
+                <div className="flex items-center justify-between">
+                  <button className="flex-1 min-w-0 text-left" onClick={() => toggleExpanded(key)}>
+                    <div className="flex items-center space-x-2">
+                      {isExpanded ? <ChevronDown className="h-4 w-4" /> : <ChevronRight className="h-4 w-4" />}
+                      <Circle className={`h-2 w-2 rounded-full ${workload.healthy ? "bg-status-running" : "bg-status-pending"}`} />
+                      <Badge variant="outline" className="text-xs">{workload.kind}</Badge>
+                      <span className="font-medium text-sm truncate">{workload.name}</span>
+                    </div>
+                    <div className="flex items-center space-x-4 mt-1 ml-6 text-xs text-muted-foreground">
+                      <Badge variant="outline" className="text-xs">{workload.namespace}</Badge>
+                      <span>Desired: {formatCount(workload.desired)}</span>
+                      <span>Ready: {formatCount(workload.ready)}</span>
+                      <span>Updated: {formatCount(workload.updated)}</span>
+                      <span>Available: {formatCount(workload.available)}</span>
+                      {workload.detail && <span>{workload.detail}</span>}
+                      <span>{formatAge(workload.createdAt)}</span>
+                    </div>
+                    <div className={`mt-1 ml-6 text-xs ${workload.healthy ? "text-muted-foreground" : "text-terminal-warning"}`}>
+                      {workload.rolloutStatus}
+                    </div>
+                  </button>
+                  <div className="flex items-center space-x-2">
+                    {workload.kind === "Deployment" && (
+                      <Button size="sm" variant="outline" title="Rollout history" onClick={() => setHistoryFor(workload)}>
+                        <History className="h-4 w-4" />
+                      </Button>
+                    )}
+                    {SCALABLE_KINDS.includes(workload.kind) && (
+                      <Button
+                        size="sm"
+                        variant="outline"
+                        title="Scale"
+                        onClick={() => setPendingAction({ type: "scale", workload, replicas: String(workload.desired ?? 1) })}
+                      >
+                        <Scaling className="h-4 w-4" />
+                      </Button>
+                    )}
+                    {RESTARTABLE_KINDS.includes(workload.kind) && (
+                      <Button
+                        size="sm"
+                        variant="outline"
+                        title="Rollout restart"
+                        onClick={() => setPendingAction({ type: "restart", workload })}
+                      >
+                        <RotateCw className="h-4 w-4" />
+                      </Button>
+                    )}
+                  </div>
+                </div>
+                {isExpanded && renderChildren(workload)}
+              </div>
+            );
+          })}
+        </div>
+        )}
+      </ScrollArea>
+
+      <RolloutHistoryDialog deployment={historyFor} onOpenChange={(open) => !open && setHistoryFor(null)} />
+
+      <Dialog open={!!pendingAction} onOpenChange={(open) => !open && setPendingAction(null)}>
+        <DialogContent className="sm:max-w-[425px]">
+          {pendingAction && (
+            <>
+              <DialogHeader>
+                <DialogTitle>
+                  {pendingAction.type === "scale" ? "Scale" : "Restart"} {pendingAction.workload.kind.toLowerCase()}/{pendingAction.workload.name}
+                </DialogTitle>
+                <DialogDescription>
+                  {pendingAction.type === "scale"
+                    ? `Set the replica count in ${pendingAction.workload.namespace} on ${selectedCluster.name}.`
+                    : `Replace every pod in ${pendingAction.workload.namespace} on ${selectedCluster.name}, following the rollout strategy.`}
+                </DialogDescription>
+              </DialogHeader>
+              {pendingAction.type === "scale" && (
+                <div className="space-y-2">
+                  <Label htmlFor="replicas">Replicas</Label>
+                  <Input
+                    id="replicas"
+                    type="number"
+                    min={0}
+                    value={pendingAction.replicas}
+                    onChange={(e) => setPendingAction({ ...pendingAction, replicas: e.target.value })}
+                  />
+                </div>
+              )}
+              <pre className="bg-terminal-bg border border-border rounded p-2 text-xs font-mono whitespace-pre-wrap break-all">
+                {actionCommand(pendingAction)}
+              </pre>
+              <DialogFooter>
+                <Button variant="outline" onClick={() => setPendingAction(null)}>Cancel</Button>
+                <Button
+                  onClick={runAction}
+                  disabled={isRunning || (pendingAction.type === "scale" && !/^\d+$/.test(pendingAction.replicas))}
+                >
+                  {isRunning ? "Running..." : pendingAction.type === "scale" ? "Scale" : "Restart"}
+                </Button>
+              </DialogFooter>
+            </>
+          )}
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+};
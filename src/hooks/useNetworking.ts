@@ -0,0 +1,17 @@
+import { useQuery } from '@tanstack/react-query';
+import { useSelectedCluster } from '@/hooks/useSelectedCluster';
+import { listServiceChains } from '@/lib/networking';
+
+const REFRESH_INTERVAL_MS = 30_000;
+
+// Services in the tab's cluster and namespace, traced through to pods, endpoints and routes
+export function useServiceChains() {
+  const { scope } = useSelectedCluster();
+
+  return useQuery({
+    queryKey: ['networking', scope.clusterId, scope.allNamespaces ? null : scope.namespace],
+    queryFn: () => listServiceChains(scope),
+    enabled: !!scope.clusterId,
+    refetchInterval: REFRESH_INTERVAL_MS
+  });
+}
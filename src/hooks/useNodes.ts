@@ -0,0 +1,18 @@
+import { useQuery } from '@tanstack/react-query';
+import { useSelectedCluster } from '@/hooks/useSelectedCluster';
+import { listNodes } from '@/lib/nodes';
+
+const REFRESH_INTERVAL_MS = 30_000;
+
+// Nodes of the tab's cluster with the pods scheduled on them; the namespace picker doesn't apply
+export function useNodes() {
+  const { selectedCluster } = useSelectedCluster();
+  const clusterId = selectedCluster?.id;
+
+  return useQuery({
+    queryKey: ['nodes', clusterId],
+    queryFn: () => listNodes(clusterId!),
+    enabled: !!clusterId,
+    refetchInterval: REFRESH_INTERVAL_MS
+  });
+}
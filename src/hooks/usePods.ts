@@ -0,0 +1,44 @@
+import { useEffect, useState } from 'react';
+import { useQuery, useQueryClient } from '@tanstack/react-query';
+import { useSelectedCluster } from '@/hooks/useSelectedCluster';
+import { watchResources } from '@/lib/kubeWatch';
+import { listPods, summarizePod, type PodSummary, type RawPod } from '@/lib/pods';
+
+// Only used while the watch is down
+const REFRESH_INTERVAL_MS = 15_000;
+
+// Pods in the tab's cluster and namespace, kept current by a watch stream that writes
+// straight into the query cache; polling takes over whenever the stream is reconnecting
+export function usePods() {
+  const { scope } = useSelectedCluster();
+  const queryClient = useQueryClient();
+  const [live, setLive] = useState(false);
+  const { clusterId, allNamespaces } = scope;
+  const namespace = allNamespaces ? null : scope.namespace;
+
+  const query = useQuery({
+    queryKey: ['pods', clusterId, namespace],
+    queryFn: () => listPods(scope),
+    enabled: !!clusterId,
+    refetchInterval: live ? false : REFRESH_INTERVAL_MS
+  });
+
+  useEffect(() => {
+    setLive(false);
+    if (!clusterId) return;
+
+    const queryKey = ['pods', clusterId, namespace];
+    const samePod = (a: PodSummary, b: RawPod) => a.namespace === b.metadata.namespace && a.name === b.metadata.name;
+
+    return watchResources<RawPod>('pods', { clusterId, ...(allNamespaces ? { allNamespaces } : { namespace: namespace ?? undefined }) }, {
+      onSync: (items) => queryClient.setQueryData(queryKey, items.map(summarizePod)),
+      onChange: (type, pod) => queryClient.setQueryData<PodSummary[]>(queryKey, (pods = []) => {
+        const others = pods.filter((existing) => !samePod(existing, pod));
+        return type === 'DELETED' ? others : [...others, summarizePod(pod)];
+      }),
+      onStatus: (connected) => setLive(connected)
+    });
+  }, [clusterId, namespace, allNamespaces, queryClient]);
+
+  return { ...query, live };
+}
@@ -0,0 +1,37 @@
+import { createContext, useContext } from 'react';
+import type { KubectlOptions } from '@/lib/kubectl';
+
+export interface ClusterSummary {
+  id: string;
+  name: string;
+  namespace: string | null;
+  is_monitored: boolean;
+  watched_namespaces: string[];
+  watch_all_namespaces: boolean;
+}
+
+// Picker value for the all-namespaces scope; never a valid namespace name
+export const ALL_NAMESPACES = '*';
+
+export interface SelectedClusterContextValue {
+  clusters: ClusterSummary[];
+  selectedCluster: ClusterSummary | null;
+  selectCluster: (clusterId: string) => void;
+  refreshClusters: () => Promise<void>;
+  namespaces: string[];
+  selectedNamespace: string;
+  selectNamespace: (namespace: string) => void;
+  // Spread into runKubectl and friends so every request carries the tab's cluster and namespace
+  scope: Pick<KubectlOptions, 'clusterId' | 'namespace' | 'allNamespaces'>;
+}
+
+// Provided by SelectedClusterProvider
+export const SelectedClusterContext = createContext<SelectedClusterContextValue | null>(null);
+
+export function useSelectedCluster() {
+  const context = useContext(SelectedClusterContext);
+  if (!context) {
+    throw new Error('useSelectedCluster must be used within a SelectedClusterProvider');
+  }
+  return context;
+}
@@ -0,0 +1,29 @@
+import { useQuery } from '@tanstack/react-query';
+import { useSelectedCluster } from '@/hooks/useSelectedCluster';
+import { listIntermediates, listWorkloads } from '@/lib/workloads';
+
+const REFRESH_INTERVAL_MS = 15_000;
+
+// Controllers in the tab's cluster and namespace
+export function useWorkloads() {
+  const { scope } = useSelectedCluster();
+
+  return useQuery({
+    queryKey: ['workloads', scope.clusterId, scope.allNamespaces ? null : scope.namespace],
+    queryFn: () => listWorkloads(scope),
+    enabled: !!scope.clusterId,
+    refetchInterval: REFRESH_INTERVAL_MS
+  });
+}
+
+// ReplicaSets and Jobs in scope; only fetched once a workload is expanded
+export function useWorkloadIntermediates(enabled: boolean) {
+  const { scope } = useSelectedCluster();
+
+  return useQuery({
+    queryKey: ['workload-intermediates', scope.clusterId, scope.allNamespaces ? null : scope.namespace],
+    queryFn: () => listIntermediates(scope),
+    enabled: enabled && !!scope.clusterId,
+    refetchInterval: REFRESH_INTERVAL_MS
+  });
+}
@@ -57,43 +57,111 @@ export type Database = {
       }
       cluster_configs: {
         Row: {
-          certificate_authority_data: string | null
+          allowed_verbs: string[]
+          auth_method: string
           created_at: string
           endpoint: string
           id: string
-          is_active: boolean | null
+          is_monitored: boolean
           name: string
           namespace: string | null
-          token: string
+          permissions: Json | null
+          probe_problems: string[]
+          probed_at: string | null
+          ready: boolean | null
+          reachable: boolean | null
+          server_version: string | null
           updated_at: string
           user_id: string
+          watch_all_namespaces: boolean
+          watched_namespaces: string[]
         }
         Insert: {
-          certificate_authority_data?: string | null
+          allowed_verbs?: string[]
+          auth_method?: string
           created_at?: string
           endpoint: string
           id?: string
-          is_active?: boolean | null
+          is_monitored?: boolean
           name: string
           namespace?: string | null
-          token: string
+          permissions?: Json | null
+          probe_problems?: string[]
+          probed_at?: string | null
+          ready?: boolean | null
+          reachable?: boolean | null
+          server_version?: string | null
           updated_at?: string
           user_id: string
+          watch_all_namespaces?: boolean
+          watched_namespaces?: string[]
         }
         Update: {
-          certificate_authority_data?: string | null
+          allowed_verbs?: string[]
+          auth_method?: string
           created_at?: string
           endpoint?: string
           id?: string
-          is_active?: boolean | null
+          is_monitored?: boolean
           name?: string
           namespace?: string | null
-          token?: string
+          permissions?: Json | null
+          probe_problems?: string[]
+          probed_at?: string | null
+          ready?: boolean | null
+          reachable?: boolean | null
+          server_version?: string | null
           updated_at?: string
           user_id?: string
+          watch_all_namespaces?: boolean
+          watched_namespaces?: string[]
         }
         Relationships: []
       }
+      cluster_credentials: {
+        Row: {
+          certificate_authority_data: string | null
+          client_certificate_data: string | null
+          client_key_data: string | null
+          cluster_id: string
+          created_at: string
+          legacy_plaintext: boolean
+          token: string | null
+          updated_at: string
+          user_id: string
+        }
+        Insert: {
+          certificate_authority_data?: string | null
+          client_certificate_data?: string | null
+          client_key_data?: string | null
+          cluster_id: string
+          created_at?: string
+          legacy_plaintext?: boolean
+          token?: string | null
+          updated_at?: string
+          user_id: string
+        }
+        Update: {
+          certificate_authority_data?: string | null
+          client_certificate_data?: string | null
+          client_key_data?: string | null
+          cluster_id?: string
+          created_at?: string
+          legacy_plaintext?: boolean
+          token?: string | null
+          updated_at?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "cluster_credentials_cluster_id_fkey"
+            columns: ["cluster_id"]
+            isOneToOne: true
+            referencedRelation: "cluster_configs"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       cluster_events: {
         Row: {
           cluster_id: string
@@ -430,27 +498,33 @@ export type Database = {
         Row: {
           cluster_id: string
           command: string
+          dry_run: boolean
           error: string | null
           executed_at: string
           id: string
+          mutating: boolean
           output: string | null
           user_id: string
         }
         Insert: {
           cluster_id: string
           command: string
+          dry_run?: boolean
           error?: string | null
           executed_at?: string
           id?: string
+          mutating?: boolean
           output?: string | null
           user_id: string
         }
         Update: {
           cluster_id?: string
           command?: string
+          dry_run?: boolean
           error?: string | null
           executed_at?: string
           id?: string
+          mutating?: boolean
           output?: string | null
           user_id?: string
         }
@@ -665,6 +739,56 @@ export type Database = {
           },
         ]
       }
+      port_forward_sessions: {
+        Row: {
+          cluster_id: string
+          created_at: string
+          expires_at: string
+          id: string
+          last_used_at: string | null
+          local_port: number
+          namespace: string
+          pod_name: string
+          remote_port: number
+          token_hash: string
+          user_id: string
+        }
+        Insert: {
+          cluster_id: string
+          created_at?: string
+          expires_at: string
+          id?: string
+          last_used_at?: string | null
+          local_port: number
+          namespace: string
+          pod_name: string
+          remote_port: number
+          token_hash: string
+          user_id: string
+        }
+        Update: {
+          cluster_id?: string
+          created_at?: string
+          expires_at?: string
+          id?: string
+          last_used_at?: string | null
+          local_port?: number
+          namespace?: string
+          pod_name?: string
+          remote_port?: number
+          token_hash?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "port_forward_sessions_cluster_id_fkey"
+            columns: ["cluster_id"]
+            isOneToOne: false
+            referencedRelation: "cluster_configs"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       profiles: {
         Row: {
           created_at: string
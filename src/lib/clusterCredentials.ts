@@ -0,0 +1,32 @@
+import { supabase } from "@/integrations/supabase/client";
+import type { ExportableCluster } from "@/lib/kubeconfig";
+
+// Credentials are encrypted by the cluster-credentials function and can't be read back from
+// cluster_configs; these are the only ways the browser hands them over or gets them out.
+export interface ClusterCredentials {
+  token?: string | null;
+  certificate_authority_data?: string | null;
+  client_certificate_data?: string | null;
+  client_key_data?: string | null;
+}
+
+async function invokeCredentials<T>(request: Record<string, unknown>): Promise<T> {
+  const { data, error } = await supabase.functions.invoke("cluster-credentials", { body: request });
+
+  if (error) {
+    // Non-2xx responses still carry the function's own error message in the body
+    const body = await error.context?.json?.().catch(() => null);
+    throw new Error(body?.error || error.message);
+  }
+  return data as T;
+}
+
+// Undefined fields keep what is stored; null clears them
+export async function saveClusterCredentials(clusterId: string, credentials: ClusterCredentials): Promise<void> {
+  await invokeCredentials({ action: "save", clusterId, credentials });
+}
+
+export async function exportClusterConfig(clusterId: string, includeCredentials: boolean): Promise<ExportableCluster> {
+  const { cluster } = await invokeCredentials<{ cluster: ExportableCluster }>({ action: "export", clusterId, includeCredentials });
+  return cluster;
+}
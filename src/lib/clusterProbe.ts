@@ -0,0 +1,69 @@
+import { supabase } from "@/integrations/supabase/client";
+
+export interface PolicyRule {
+  verbs: string[];
+  apiGroups?: string[];
+  resources?: string[];
+  resourceNames?: string[];
+}
+
+export interface ProbePermissions {
+  namespace: string;
+  resourceRules: PolicyRule[];
+  nonResourceRules: unknown[];
+  incomplete: boolean;
+}
+
+export interface ProbeResult {
+  reachable: boolean;
+  ready: boolean | null;
+  serverVersion: string | null;
+  permissions: ProbePermissions | null;
+  problems: string[];
+}
+
+// Unsaved connection settings from the cluster form; blank fields fall back to the saved row
+export interface ProbeOverrides {
+  endpoint?: string;
+  namespace?: string;
+  token?: string;
+  certificate_authority_data?: string;
+  client_certificate_data?: string;
+  client_key_data?: string;
+}
+
+// Probing a saved cluster without overrides also stores the result on its row
+export async function probeCluster(clusterId?: string, cluster?: ProbeOverrides): Promise<ProbeResult> {
+  const { data, error } = await supabase.functions.invoke("cluster-probe", {
+    body: { clusterId, cluster },
+  });
+
+  if (error) {
+    const body = await error.context?.json?.().catch(() => null);
+    throw new Error(body?.error || error.message);
+  }
+  return data.probe as ProbeResult;
+}
+
+// What the dashboard's own features need, checked against the reviewed rules
+const CAPABILITIES = [
+  { label: "list pods", verb: "list", group: "", resource: "pods" },
+  { label: "read logs", verb: "get", group: "", resource: "pods/log" },
+  { label: "list events", verb: "list", group: "", resource: "events" },
+  { label: "list deployments", verb: "list", group: "apps", resource: "deployments" },
+  { label: "exec", verb: "create", group: "", resource: "pods/exec" },
+  { label: "delete pods", verb: "delete", group: "", resource: "pods" },
+  { label: "patch deployments", verb: "patch", group: "apps", resource: "deployments" },
+];
+
+function ruleAllows(rule: PolicyRule, verb: string, group: string, resource: string): boolean {
+  const matches = (values: string[] | undefined, value: string) => !!values && (values.includes("*") || values.includes(value));
+  return matches(rule.verbs, verb) && matches(rule.apiGroups, group) && matches(rule.resources, resource) && !rule.resourceNames?.length;
+}
+
+export function summarizePermissions(permissions: ProbePermissions): { label: string; allowed: boolean }[] {
+  return CAPABILITIES.map(({ label, verb, group, resource }) => ({
+    label,
+    allowed: permissions.resourceRules.some((rule) => ruleAllows(rule, verb, group, resource)),
+  }));
+}
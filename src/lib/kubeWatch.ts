@@ -0,0 +1,106 @@
+import { supabase } from "@/integrations/supabase/client";
+import { readServerSentEvents, type KubectlOptions } from "@/lib/kubectl";
+
+export type WatchEventType = "ADDED" | "MODIFIED" | "DELETED";
+
+export interface WatchHandlers<T> {
+  // The complete collection: on first connect and whenever the server had to relist
+  onSync: (items: T[]) => void;
+  onChange: (type: WatchEventType, object: T) => void;
+  // Live while a stream is connected; false with the reason while waiting to reconnect
+  onStatus?: (live: boolean, error?: string) => void;
+}
+
+const RETRY_DELAYS_MS = [1_000, 5_000, 15_000, 30_000];
+
+// Keeps a watch on a pods or events collection open through the kube-watch function.
+// Streams end every couple of minutes by design; each reconnect resumes from the last
+// resourceVersion seen, so only a 410 Gone on the server side costs a full relist.
+// Returns a function that stops watching.
+export function watchResources<T>(
+  resource: "pods" | "events",
+  scope: Pick<KubectlOptions, "clusterId" | "namespace" | "allNamespaces">,
+  handlers: WatchHandlers<T>
+): () => void {
+  let stopped = false;
+  let reader: ReadableStreamDefaultReader<string> | null = null;
+  let retryTimer: ReturnType<typeof setTimeout> | undefined;
+  let resourceVersion: string | undefined;
+  let failures = 0;
+
+  const retry = (error: string) => {
+    handlers.onStatus?.(false, error);
+    retryTimer = setTimeout(connect, RETRY_DELAYS_MS[Math.min(failures, RETRY_DELAYS_MS.length - 1)]);
+    failures++;
+  };
+
+  const connect = async () => {
+    if (stopped) return;
+    const { data, error } = await supabase.functions.invoke("kube-watch", {
+      body: { resource, resourceVersion, ...scope },
+    });
+    if (stopped) return;
+
+    if (error) {
+      const body = await error.context?.json?.().catch(() => null);
+      retry(body?.error || error.message);
+      return;
+    }
+    if (!(data instanceof Response) || !data.body) {
+      retry(data?.error || "Watch could not be started");
+      return;
+    }
+
+    reader = data.body.pipeThrough(new TextDecoderStream()).getReader();
+    if (stopped) {
+      await reader.cancel();
+      return;
+    }
+    handlers.onStatus?.(true);
+
+    let failure: string | null = null;
+    let ended = false;
+    await readServerSentEvents(reader, (event, payload) => {
+      if (stopped) return;
+      switch (event) {
+        case "sync": {
+          const { items, resourceVersion: version } = JSON.parse(payload);
+          resourceVersion = version;
+          failures = 0;
+          handlers.onSync(items);
+          break;
+        }
+        case "change": {
+          const { type, object } = JSON.parse(payload);
+          resourceVersion = object?.metadata?.resourceVersion ?? resourceVersion;
+          failures = 0;
+          handlers.onChange(type, object);
+          break;
+        }
+        case "bookmark":
+          resourceVersion = JSON.parse(payload).resourceVersion ?? resourceVersion;
+          break;
+        case "end":
+          resourceVersion = JSON.parse(payload).resourceVersion ?? resourceVersion;
+          ended = true;
+          break;
+        case "error":
+          failure = payload;
+          break;
+      }
+    });
+    if (stopped) return;
+
+    // A clean end reconnects straight away; anything else backs off first
+    if (ended && !failure) connect();
+    else retry(failure || "Watch connection closed");
+  };
+
+  connect();
+
+  return () => {
+    stopped = true;
+    clearTimeout(retryTimer);
+    reader?.cancel().catch(() => undefined);
+  };
+}
@@ -0,0 +1,170 @@
+import { parse, stringify } from "yaml";
+
+// One context from a kubeconfig, with its cluster and user resolved into the fields
+// a cluster_configs row needs. `problem` explains why it can't be imported.
+export interface KubeconfigContext {
+  name: string;
+  clusterName: string;
+  userName: string;
+  server: string;
+  namespace: string;
+  certificateAuthorityData?: string;
+  token?: string;
+  clientCertificateData?: string;
+  clientKeyData?: string;
+  authMethod: "token" | "certificate" | "none";
+  problem?: string;
+}
+
+export interface ParsedKubeconfig {
+  currentContext?: string;
+  contexts: KubeconfigContext[];
+}
+
+interface NamedEntry<T> {
+  name: string;
+  [key: string]: T | string;
+}
+
+function byName<T>(entries: unknown, key: string): Map<string, T> {
+  const map = new Map<string, T>();
+  if (!Array.isArray(entries)) return map;
+  for (const entry of entries as NamedEntry<T>[]) {
+    if (entry && typeof entry.name === "string" && entry[key] && typeof entry[key] === "object") {
+      map.set(entry.name, entry[key] as T);
+    }
+  }
+  return map;
+}
+
+// Why a user entry can't be used from the dashboard, if it can't
+function userProblem(user: Record<string, unknown>): string | undefined {
+  if (user.exec) {
+    const command = (user.exec as { command?: string }).command ?? "an external command";
+    return `Uses an exec credential plugin (${command}). Plugins run on your machine to mint short-lived credentials, ` +
+      `so they can't run here. Create a service account token instead (kubectl create token <service-account>) and use that.`;
+  }
+  if (user["auth-provider"]) {
+    const provider = (user["auth-provider"] as { name?: string }).name ?? "unknown";
+    return `Uses the "${provider}" auth provider, which needs a local login flow. Use a service account token instead.`;
+  }
+  if (user.tokenFile || user["client-certificate"] || user["client-key"]) {
+    return "References credential files on disk. Export a self-contained config with kubectl config view --raw --flatten.";
+  }
+  if (user.username || user.password) {
+    return "Uses basic auth, which Kubernetes no longer supports.";
+  }
+  if (!user.token && !(user["client-certificate-data"] && user["client-key-data"])) {
+    return "Has no token or client certificate.";
+  }
+  return undefined;
+}
+
+export function parseKubeconfig(text: string): ParsedKubeconfig {
+  let doc: Record<string, unknown>;
+  try {
+    doc = parse(text);
+  } catch (error) {
+    throw new Error(`Not valid YAML: ${error instanceof Error ? error.message : String(error)}`);
+  }
+  if (!doc || typeof doc !== "object" || doc.kind !== "Config") {
+    throw new Error("Not a kubeconfig file (expected kind: Config)");
+  }
+
+  const clusters = byName<Record<string, unknown>>(doc.clusters, "cluster");
+  const users = byName<Record<string, unknown>>(doc.users, "user");
+  const contexts = byName<Record<string, string>>(doc.contexts, "context");
+  if (contexts.size === 0) {
+    throw new Error("The kubeconfig has no contexts");
+  }
+
+  return {
+    currentContext: typeof doc["current-context"] === "string" ? doc["current-context"] : undefined,
+    contexts: [...contexts].map(([name, context]) => {
+      const cluster = clusters.get(context.cluster);
+      const user = users.get(context.user) ?? {};
+      const token = typeof user.token === "string" ? user.token : undefined;
+      const clientCertificateData = user["client-certificate-data"] as string | undefined;
+      const clientKeyData = user["client-key-data"] as string | undefined;
+
+      let problem: string | undefined;
+      if (!cluster) {
+        problem = `Refers to cluster "${context.cluster}", which isn't defined in the file.`;
+      } else if (!cluster.server) {
+        problem = "Its cluster has no server address.";
+      } else if (cluster["certificate-authority"]) {
+        problem = "References a CA file on disk. Export a self-contained config with kubectl config view --raw --flatten.";
+      } else if (!users.has(context.user)) {
+        problem = `Refers to user "${context.user}", which isn't defined in the file.`;
+      } else {
+        problem = userProblem(user);
+      }
+
+      return {
+        name,
+        clusterName: context.cluster,
+        userName: context.user,
+        server: String(cluster?.server ?? ""),
+        namespace: context.namespace || "default",
+        certificateAuthorityData: cluster?.["certificate-authority-data"] as string | undefined,
+        token,
+        clientCertificateData,
+        clientKeyData,
+        authMethod: token ? "token" : clientCertificateData && clientKeyData ? "certificate" : "none",
+        problem,
+      };
+    }),
+  };
+}
+
+// The parts of a cluster_configs row a kubeconfig is built from
+export interface ExportableCluster {
+  name: string;
+  endpoint: string;
+  namespace: string;
+  certificate_authority_data?: string | null;
+  token?: string | null;
+  client_certificate_data?: string | null;
+  client_key_data?: string | null;
+}
+
+// kubeconfig wants base64 in the *-data fields; the dashboard also accepts raw PEM
+function toBase64(data: string): string {
+  const trimmed = data.trim();
+  return trimmed.startsWith("-----BEGIN") ? btoa(trimmed) : trimmed.replace(/\s+/g, "");
+}
+
+// A single-context kubeconfig that points local kubectl at the same endpoint, CA and namespace.
+// Without credentials the user entry is left empty for the reader to fill in.
+export function buildKubeconfig(cluster: ExportableCluster, { includeCredentials = true } = {}): string {
+  const user: Record<string, string> = {};
+  if (includeCredentials) {
+    if (cluster.token) {
+      user.token = cluster.token;
+    } else if (cluster.client_certificate_data && cluster.client_key_data) {
+      user["client-certificate-data"] = toBase64(cluster.client_certificate_data);
+      user["client-key-data"] = toBase64(cluster.client_key_data);
+    }
+  }
+
+  return stringify({
+    apiVersion: "v1",
+    kind: "Config",
+    clusters: [{
+      name: cluster.name,
+      cluster: {
+        server: cluster.endpoint,
+        ...(cluster.certificate_authority_data && {
+          "certificate-authority-data": toBase64(cluster.certificate_authority_data),
+        }),
+      },
+    }],
+    users: [{ name: cluster.name, user }],
+    contexts: [{
+      name: cluster.name,
+      context: { cluster: cluster.name, user: cluster.name, namespace: cluster.namespace },
+    }],
+    "current-context": cluster.name,
+    preferences: {},
+  });
+}
@@ -0,0 +1,213 @@
+import { supabase, SUPABASE_URL } from "@/integrations/supabase/client";
+
+export interface FieldChange {
+  path: string;
+  before?: unknown;
+  after?: unknown;
+}
+
+export interface ObjectDiff {
+  target: string;
+  action: "patch" | "delete" | "evict" | "create";
+  changes: FieldChange[];
+}
+
+export interface PortForwardSession {
+  id: string;
+  url: string;
+  podName: string;
+  namespace: string;
+  localPort: number;
+  remotePort: number;
+  expiresAt: string;
+}
+
+export interface KubectlResponse {
+  success: boolean;
+  output?: string;
+  error?: string;
+  mutating?: boolean;
+  dryRun?: boolean;
+  diff?: ObjectDiff[];
+  portForwards?: PortForwardSession[];
+}
+
+export interface KubectlOptions {
+  clusterId?: string;
+  // The tab's namespace; commands without -n run there instead of the cluster's default
+  namespace?: string;
+  // List commands without -n run across all namespaces
+  allNamespaces?: boolean;
+  dryRun?: boolean;
+  // Multi-document YAML sent along with `kubectl apply -f -`
+  manifest?: string;
+  // Set by views that poll for data; read-only results then stay out of the kubectl_logs history
+  background?: boolean;
+}
+
+export async function runKubectl(command: string, options: KubectlOptions = {}): Promise<KubectlResponse> {
+  const { data, error } = await supabase.functions.invoke("kubectl", {
+    body: { command, ...options },
+  });
+
+  if (error) {
+    // Non-2xx responses still carry the function's own error message in the body
+    const body = await error.context?.json?.().catch(() => null);
+    return { success: false, error: body?.error || error.message };
+  }
+
+  return data as KubectlResponse;
+}
+
+// The items of `kubectl get <resource> -o json`, for views that poll and so stay out of the audit log
+export async function listResource<T>(resource: string, scope: Pick<KubectlOptions, "clusterId" | "namespace" | "allNamespaces">): Promise<T[]> {
+  const result = await runKubectl(`kubectl get ${resource} -o json`, { ...scope, background: true });
+  if (!result.success) {
+    throw new Error(result.error || `Failed to list ${resource}`);
+  }
+  return JSON.parse(result.output || "{}").items ?? [];
+}
+
+// Closes a port-forward before it times out; its proxy URL stops working straight away
+export async function stopPortForward(id: string): Promise<void> {
+  const { error } = await supabase.from("port_forward_sessions").delete().eq("id", id);
+  if (error) throw error;
+}
+
+export interface LogStreamHandlers {
+  onLine: (line: string) => void;
+  onError?: (message: string) => void;
+  onEnd?: () => void;
+}
+
+export interface LogStream {
+  // Stops following; the edge function closes its connection to the API server
+  cancel: () => void;
+  done: Promise<void>;
+}
+
+// Dispatches each event of a text/event-stream body until the stream ends or the reader is cancelled
+export async function readServerSentEvents(reader: ReadableStreamDefaultReader<string>, onEvent: (event: string, data: string) => void): Promise<void> {
+  let buffer = "";
+  while (true) {
+    const { done, value } = await reader.read().catch(() => ({ done: true, value: undefined }));
+    if (done) return;
+    buffer += value;
+
+    const events = buffer.split("\n\n");
+    buffer = events.pop() ?? "";
+    for (const raw of events) {
+      const lines = raw.split("\n");
+      const event = lines.find(line => line.startsWith("event: "))?.slice(7) ?? "message";
+      const payload = lines.filter(line => line.startsWith("data: ")).map(line => line.slice(6)).join("\n");
+      onEvent(event, payload);
+    }
+  }
+}
+
+// `kubectl logs -f` comes back as server-sent events: `line` per log line, then `end` or `error`
+export function followKubectlLogs(command: string, handlers: LogStreamHandlers, options: Pick<KubectlOptions, "clusterId" | "namespace"> = {}): LogStream {
+  let reader: ReadableStreamDefaultReader<string> | null = null;
+  let cancelled = false;
+
+  const done = (async () => {
+    const { data, error } = await supabase.functions.invoke("kubectl", {
+      body: { command, ...options },
+    });
+
+    if (error) {
+      const body = await error.context?.json?.().catch(() => null);
+      handlers.onError?.(body?.error || error.message);
+      return;
+    }
+    if (!(data instanceof Response) || !data.body) {
+      // Errors before the stream starts come back as a regular JSON result
+      handlers.onError?.((data as KubectlResponse)?.error || "Log stream could not be started");
+      return;
+    }
+
+    reader = data.body.pipeThrough(new TextDecoderStream()).getReader();
+    if (cancelled) {
+      await reader.cancel();
+      return;
+    }
+
+    await readServerSentEvents(reader, (event, payload) => {
+      if (cancelled) return;
+      if (event === "line") handlers.onLine(payload);
+      else if (event === "error") handlers.onError?.(payload);
+    });
+    if (!cancelled) handlers.onEnd?.();
+  })();
+
+  return {
+    cancel: () => {
+      cancelled = true;
+      reader?.cancel().catch(() => undefined);
+    },
+    done,
+  };
+}
+
+export interface ExecHandlers {
+  onOutput: (data: string, stream: "stdout" | "stderr") => void;
+  onExit: (code: number, message?: string) => void;
+}
+
+export interface ExecSession {
+  send: (data: string) => void;
+  resize: (cols: number, rows: number) => void;
+  close: () => void;
+}
+
+type ExecServerMessage =
+  | { type: "stdout" | "stderr"; data: string }
+  | { type: "exit"; code: number; message?: string };
+
+// Interactive `kubectl exec -it`: a WebSocket to the kubectl function, which relays to the API server.
+// The session token travels as a subprotocol because browsers can't set headers on WebSockets.
+export async function openExecSession(command: string, handlers: ExecHandlers, options: Pick<KubectlOptions, "clusterId" | "namespace"> = {}): Promise<ExecSession> {
+  const { data: { session } } = await supabase.auth.getSession();
+  if (!session) throw new Error("Not signed in");
+
+  const url = new URL(`${SUPABASE_URL.replace(/^http/, "ws")}/functions/v1/kubectl`);
+  url.searchParams.set("command", command);
+  if (options.clusterId) url.searchParams.set("clusterId", options.clusterId);
+  if (options.namespace) url.searchParams.set("namespace", options.namespace);
+
+  const socket = new WebSocket(url, ["kubectl-exec", `access-token.${session.access_token}`]);
+  let exited = false;
+  const pending: string[] = [];
+
+  const post = (message: object) => {
+    const text = JSON.stringify(message);
+    if (socket.readyState === WebSocket.OPEN) socket.send(text);
+    else if (socket.readyState === WebSocket.CONNECTING) pending.push(text);
+  };
+
+  socket.onopen = () => {
+    for (const text of pending.splice(0)) socket.send(text);
+  };
+  socket.onmessage = event => {
+    const message: ExecServerMessage = JSON.parse(event.data);
+    if (message.type === "exit") {
+      exited = true;
+      handlers.onExit(message.code, message.message);
+    } else {
+      handlers.onOutput(message.data, message.type);
+    }
+  };
+  socket.onclose = event => {
+    if (!exited) handlers.onExit(event.wasClean ? 0 : 1, event.wasClean ? undefined : "exec session closed unexpectedly");
+    exited = true;
+  };
+
+  return {
+    send: data => post({ type: "stdin", data }),
+    resize: (cols, rows) => post({ type: "resize", cols, rows }),
+    close: () => {
+      exited = true;
+      socket.close();
+    },
+  };
+}
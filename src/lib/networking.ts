@@ -0,0 +1,209 @@
+import { listResource, type KubectlOptions } from "@/lib/kubectl";
+import { summarizePod, type PodSummary, type RawPod } from "@/lib/pods";
+
+type Scope = Pick<KubectlOptions, "clusterId" | "namespace" | "allNamespaces">;
+
+export interface ServicePort {
+  name?: string;
+  port: number;
+  targetPort?: number | string;
+  protocol?: string;
+}
+
+export interface EndpointAddress {
+  address: string;
+  ready: boolean;
+  // Pod backing the address, when the slice records one
+  target: string | null;
+  nodeName: string | null;
+}
+
+export interface ServiceRoute {
+  kind: "Ingress" | "HTTPRoute";
+  name: string;
+  // Host and path, or the route's hostnames
+  match: string;
+  port: number | string | null;
+}
+
+export interface ServiceChain {
+  name: string;
+  namespace: string;
+  type: string;
+  clusterIP: string | null;
+  selector: Record<string, string> | null;
+  ports: ServicePort[];
+  pods: PodSummary[];
+  endpoints: EndpointAddress[];
+  routes: ServiceRoute[];
+  problems: string[];
+}
+
+interface RawService {
+  metadata: { name: string; namespace: string };
+  spec?: {
+    type?: string;
+    clusterIP?: string;
+    selector?: Record<string, string>;
+    ports?: ServicePort[];
+    externalName?: string;
+  };
+}
+
+interface RawEndpointSlice {
+  metadata: { namespace: string; labels?: Record<string, string> };
+  endpoints?: {
+    addresses: string[];
+    conditions?: { ready?: boolean };
+    targetRef?: { kind: string; name: string };
+    nodeName?: string;
+  }[];
+}
+
+interface IngressBackend {
+  service?: { name: string; port?: { number?: number; name?: string } };
+}
+
+interface RawIngress {
+  metadata: { name: string; namespace: string };
+  spec?: {
+    defaultBackend?: IngressBackend;
+    rules?: { host?: string; http?: { paths?: { path?: string; backend: IngressBackend }[] } }[];
+  };
+}
+
+interface RawHttpRoute {
+  metadata: { name: string; namespace: string };
+  spec?: {
+    hostnames?: string[];
+    rules?: { backendRefs?: { kind?: string; name: string; namespace?: string; port?: number }[] }[];
+  };
+}
+
+// The label EndpointSlices carry to say which Service they belong to
+const SERVICE_NAME_LABEL = "kubernetes.io/service-name";
+
+// Gateway API is an add-on; clusters without its CRDs simply have no HTTPRoutes
+async function listHttpRoutes(scope: Scope): Promise<RawHttpRoute[]> {
+  return listResource<RawHttpRoute>("httproutes.gateway.networking.k8s.io", scope).catch(() => []);
+}
+
+const selects = (selector: Record<string, string>, labels: Record<string, string> = {}) =>
+  Object.entries(selector).every(([key, value]) => labels[key] === value);
+
+function ingressRoutes(ingress: RawIngress, service: RawService): ServiceRoute[] {
+  const routes: ServiceRoute[] = [];
+  const pointsHere = (backend?: IngressBackend) => backend?.service?.name === service.metadata.name;
+  const port = (backend: IngressBackend) => backend.service?.port?.number ?? backend.service?.port?.name ?? null;
+
+  if (pointsHere(ingress.spec?.defaultBackend)) {
+    routes.push({ kind: "Ingress", name: ingress.metadata.name, match: "(default backend)", port: port(ingress.spec!.defaultBackend!) });
+  }
+  for (const rule of ingress.spec?.rules ?? []) {
+    for (const path of rule.http?.paths ?? []) {
+      if (pointsHere(path.backend)) {
+        routes.push({ kind: "Ingress", name: ingress.metadata.name, match: `${rule.host || "*"}${path.path || "/"}`, port: port(path.backend) });
+      }
+    }
+  }
+  return routes;
+}
+
+function httpRoutes(route: RawHttpRoute, service: RawService): ServiceRoute[] {
+  return (route.spec?.rules ?? []).flatMap((rule) => (rule.backendRefs ?? [])
+    .filter((ref) => (ref.kind ?? "Service") === "Service"
+      && ref.name === service.metadata.name
+      && (ref.namespace ?? route.metadata.namespace) === service.metadata.namespace)
+    .map((ref): ServiceRoute => ({
+      kind: "HTTPRoute",
+      name: route.metadata.name,
+      match: (route.spec?.hostnames ?? []).join(", ") || "*",
+      port: ref.port ?? null
+    })));
+}
+
+// The usual reasons a Service answers with connection refused or 503s
+function findProblems(service: RawService, pods: RawPod[], endpoints: EndpointAddress[], routes: ServiceRoute[]): string[] {
+  const problems: string[] = [];
+  const spec = service.spec ?? {};
+  const ports = spec.ports ?? [];
+  if (spec.type === "ExternalName") return problems;
+
+  if (spec.selector && pods.length === 0) {
+    problems.push(`Selector ${Object.entries(spec.selector).map(([key, value]) => `${key}=${value}`).join(",")} matches no pods`);
+  }
+
+  if (pods.length > 0) {
+    const containerPorts = pods.flatMap((pod) => (pod.spec?.containers ?? []).flatMap((container) => container.ports ?? []));
+    for (const port of ports) {
+      const target = port.targetPort ?? port.port;
+      // Numeric ports still work undeclared, but a mismatch here is usually a typo; named ports must exist
+      const exposed = typeof target === "string"
+        ? containerPorts.some((containerPort) => containerPort.name === target)
+        : containerPorts.some((containerPort) => containerPort.containerPort === target);
+      if (!exposed) {
+        problems.push(`targetPort ${target} (service port ${port.port}) is not exposed by any container of the matching pods`);
+      }
+    }
+  }
+
+  if ((spec.selector || endpoints.length > 0) && !endpoints.some((endpoint) => endpoint.ready)) {
+    problems.push(endpoints.length > 0
+      ? `None of the ${endpoints.length} endpoints are ready`
+      : "No endpoints");
+  }
+
+  for (const route of routes) {
+    if (route.port === null) continue;
+    const known = ports.some((port) => port.port === route.port || (port.name && port.name === route.port));
+    if (!known) {
+      problems.push(`${route.kind} ${route.name} targets port ${route.port}, which the service does not define`);
+    }
+  }
+
+  return problems;
+}
+
+export async function listServiceChains(scope: Scope): Promise<ServiceChain[]> {
+  const [services, pods, slices, ingresses, routes] = await Promise.all([
+    listResource<RawService>("services", scope),
+    listResource<RawPod>("pods", scope),
+    listResource<RawEndpointSlice>("endpointslices", scope),
+    listResource<RawIngress>("ingresses", scope),
+    listHttpRoutes(scope)
+  ]);
+
+  return services.map((service) => {
+    const { name, namespace } = service.metadata;
+    const selector = service.spec?.selector && Object.keys(service.spec.selector).length > 0 ? service.spec.selector : null;
+    const matchingPods = selector
+      ? pods.filter((pod) => pod.metadata.namespace === namespace && selects(selector, pod.metadata.labels))
+      : [];
+    const endpoints = slices
+      .filter((slice) => slice.metadata.namespace === namespace && slice.metadata.labels?.[SERVICE_NAME_LABEL] === name)
+      .flatMap((slice) => (slice.endpoints ?? []).flatMap((endpoint) => endpoint.addresses.map((address): EndpointAddress => ({
+        address,
+        // Absent means ready, per the EndpointSlice API
+        ready: endpoint.conditions?.ready !== false,
+        target: endpoint.targetRef ? `${endpoint.targetRef.kind.toLowerCase()}/${endpoint.targetRef.name}` : null,
+        nodeName: endpoint.nodeName ?? null
+      }))));
+    const serviceRoutes = [
+      ...ingresses.filter((ingress) => ingress.metadata.namespace === namespace).flatMap((ingress) => ingressRoutes(ingress, service)),
+      ...routes.flatMap((route) => httpRoutes(route, service))
+    ];
+
+    return {
+      name,
+      namespace,
+      type: service.spec?.type ?? "ClusterIP",
+      clusterIP: service.spec?.clusterIP ?? service.spec?.externalName ?? null,
+      selector,
+      ports: service.spec?.ports ?? [],
+      pods: matchingPods.map(summarizePod),
+      endpoints,
+      routes: serviceRoutes,
+      problems: findProblems(service, matchingPods, endpoints, serviceRoutes)
+    };
+  });
+}
@@ -0,0 +1,135 @@
+import { runKubectl } from "@/lib/kubectl";
+import { summarizePod, type PodSummary, type RawPod } from "@/lib/pods";
+import { parseQuantity } from "@/lib/quantity";
+
+// The conditions the kubelet reports; everything but Ready is healthy when False
+export const NODE_CONDITIONS = ["Ready", "MemoryPressure", "DiskPressure", "PIDPressure"] as const;
+
+export interface NodeResources {
+  // CPU in cores, memory in bytes
+  cpuRequests: number;
+  cpuLimits: number;
+  memoryRequests: number;
+  memoryLimits: number;
+}
+
+export interface NodeSummary {
+  name: string;
+  roles: string[];
+  ready: boolean;
+  unschedulable: boolean;
+  conditions: Record<string, { status: string; reason?: string; message?: string }>;
+  kubeletVersion: string | null;
+  internalIP: string | null;
+  taints: { key: string; value?: string; effect: string }[];
+  allocatable: { cpu: number; memory: number; pods: number };
+  requested: NodeResources;
+  // Set when a quantity on the node or its pods can't be parsed; allocatable and requested are zero then
+  resourceError: string | null;
+  pods: PodSummary[];
+  createdAt: string | null;
+}
+
+interface RawNode {
+  metadata: {
+    name: string;
+    labels?: Record<string, string>;
+    creationTimestamp?: string;
+  };
+  spec?: {
+    unschedulable?: boolean;
+    taints?: { key: string; value?: string; effect: string }[];
+  };
+  status?: {
+    conditions?: { type: string; status: string; reason?: string; message?: string }[];
+    nodeInfo?: { kubeletVersion?: string };
+    addresses?: { type: string; address: string }[];
+    allocatable?: Record<string, string>;
+  };
+}
+
+const ROLE_LABEL_PREFIX = "node-role.kubernetes.io/";
+
+// Summed the way `kubectl describe node` does: every container of every pod that still holds its resources
+function podRequests(pods: RawPod[]): NodeResources {
+  const totals = { cpuRequests: 0, cpuLimits: 0, memoryRequests: 0, memoryLimits: 0 };
+  for (const pod of pods) {
+    for (const container of pod.spec?.containers || []) {
+      totals.cpuRequests += parseQuantity(container.resources?.requests?.cpu);
+      totals.cpuLimits += parseQuantity(container.resources?.limits?.cpu);
+      totals.memoryRequests += parseQuantity(container.resources?.requests?.memory);
+      totals.memoryLimits += parseQuantity(container.resources?.limits?.memory);
+    }
+  }
+  return totals;
+}
+
+// One malformed quantity shouldn't take the whole node list down with it
+function nodeResources(node: RawNode, podsOnNode: RawPod[]): Pick<NodeSummary, "allocatable" | "requested" | "resourceError"> {
+  const allocatable = node.status?.allocatable ?? {};
+  const active = podsOnNode.filter((pod) => pod.status?.phase !== "Succeeded" && pod.status?.phase !== "Failed");
+  try {
+    return {
+      allocatable: {
+        cpu: parseQuantity(allocatable.cpu),
+        memory: parseQuantity(allocatable.memory),
+        pods: parseQuantity(allocatable.pods)
+      },
+      requested: podRequests(active),
+      resourceError: null
+    };
+  } catch (error) {
+    return {
+      allocatable: { cpu: 0, memory: 0, pods: 0 },
+      requested: { cpuRequests: 0, cpuLimits: 0, memoryRequests: 0, memoryLimits: 0 },
+      resourceError: error instanceof Error ? error.message : String(error)
+    };
+  }
+}
+
+export function summarizeNode(node: RawNode, podsOnNode: RawPod[]): NodeSummary {
+  const conditions = Object.fromEntries(
+    (node.status?.conditions || []).map(({ type, status, reason, message }) => [type, { status, reason, message }])
+  );
+
+  return {
+    name: node.metadata.name,
+    roles: Object.keys(node.metadata.labels ?? {})
+      .filter((label) => label.startsWith(ROLE_LABEL_PREFIX))
+      .map((label) => label.slice(ROLE_LABEL_PREFIX.length)),
+    ready: conditions.Ready?.status === "True",
+    unschedulable: !!node.spec?.unschedulable,
+    conditions,
+    kubeletVersion: node.status?.nodeInfo?.kubeletVersion ?? null,
+    internalIP: node.status?.addresses?.find((address) => address.type === "InternalIP")?.address ?? null,
+    taints: node.spec?.taints ?? [],
+    ...nodeResources(node, podsOnNode),
+    pods: podsOnNode.map(summarizePod),
+    createdAt: node.metadata.creationTimestamp ?? null
+  };
+}
+
+// Nodes are cluster-scoped, so this ignores the tab's namespace and looks at pods in all of them
+export async function listNodes(clusterId: string): Promise<NodeSummary[]> {
+  const [nodes, pods] = await Promise.all([
+    runKubectl("kubectl get nodes -o json", { clusterId, background: true }),
+    runKubectl("kubectl get pods -A -o json", { clusterId, background: true })
+  ]);
+  if (!nodes.success) {
+    throw new Error(nodes.error || "Failed to list nodes");
+  }
+  if (!pods.success) {
+    throw new Error(pods.error || "Failed to list pods");
+  }
+
+  const podItems: RawPod[] = JSON.parse(pods.output || "{}").items ?? [];
+  const byNode = new Map<string, RawPod[]>();
+  for (const pod of podItems) {
+    const nodeName = pod.spec?.nodeName;
+    if (!nodeName) continue;
+    byNode.set(nodeName, [...(byNode.get(nodeName) ?? []), pod]);
+  }
+
+  const nodeItems: RawNode[] = JSON.parse(nodes.output || "{}").items ?? [];
+  return nodeItems.map((node) => summarizeNode(node, byNode.get(node.metadata.name) ?? []));
+}
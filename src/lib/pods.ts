@@ -0,0 +1,199 @@
+import { listResource, runKubectl, type KubectlOptions } from "@/lib/kubectl";
+
+export type PodPhase = "Running" | "Pending" | "Failed" | "Succeeded" | "Unknown";
+
+export interface PodSummary {
+  name: string;
+  namespace: string;
+  phase: PodPhase;
+  // What `kubectl get pods` shows in STATUS: the worst container reason, else the phase
+  status: string;
+  // True when a container is waiting or terminated for a reason other than completing
+  problem: boolean;
+  ready: string;
+  restarts: number;
+  createdAt: string | null;
+  nodeName: string | null;
+  podIP: string | null;
+  owner: { kind: string; name: string } | null;
+}
+
+export interface ContainerState {
+  running?: { startedAt?: string };
+  waiting?: { reason?: string; message?: string };
+  terminated?: { reason?: string; exitCode?: number; message?: string; finishedAt?: string };
+}
+
+export interface ContainerStatus {
+  name: string;
+  ready: boolean;
+  image?: string;
+  restartCount?: number;
+  state?: ContainerState;
+  lastState?: ContainerState;
+}
+
+export interface Probe {
+  httpGet?: { path?: string; port: number | string; scheme?: string };
+  tcpSocket?: { port: number | string };
+  exec?: { command?: string[] };
+  grpc?: { port: number };
+  initialDelaySeconds?: number;
+  periodSeconds?: number;
+  timeoutSeconds?: number;
+  failureThreshold?: number;
+}
+
+export interface ContainerSpec {
+  name: string;
+  image: string;
+  resources?: {
+    requests?: Record<string, string>;
+    limits?: Record<string, string>;
+  };
+  livenessProbe?: Probe;
+  readinessProbe?: Probe;
+  startupProbe?: Probe;
+  volumeMounts?: { name: string; mountPath: string; readOnly?: boolean; subPath?: string }[];
+  ports?: { name?: string; containerPort: number; protocol?: string }[];
+}
+
+export interface RawPod {
+  metadata: {
+    name: string;
+    namespace: string;
+    labels?: Record<string, string>;
+    creationTimestamp?: string;
+    deletionTimestamp?: string;
+    ownerReferences?: { kind: string; name: string; controller?: boolean }[];
+  };
+  spec?: {
+    nodeName?: string;
+    initContainers?: ContainerSpec[];
+    containers?: ContainerSpec[];
+    volumes?: ({ name: string } & Record<string, unknown>)[];
+  };
+  status?: {
+    phase?: PodPhase;
+    reason?: string;
+    podIP?: string;
+    initContainerStatuses?: ContainerStatus[];
+    containerStatuses?: ContainerStatus[];
+  };
+}
+
+// Reasons that mean the container is healthy or on its way there
+const BENIGN_REASONS = new Set(["Completed", "ContainerCreating", "PodInitializing"]);
+
+function containerReason(status: ContainerStatus): string | null {
+  const { state, lastState } = status;
+  if (state?.waiting?.reason) {
+    // A container restarting after an OOM kill waits in CrashLoopBackOff; the kill is the more useful reason
+    if (state.waiting.reason === "CrashLoopBackOff" && lastState?.terminated?.reason === "OOMKilled") {
+      return "OOMKilled";
+    }
+    return state.waiting.reason;
+  }
+  if (state?.terminated) {
+    return state.terminated.reason
+      || (state.terminated.exitCode ? `ExitCode:${state.terminated.exitCode}` : "Completed");
+  }
+  return null;
+}
+
+export function summarizePod(pod: RawPod): PodSummary {
+  const containers = pod.status?.containerStatuses ?? [];
+  const initContainers = pod.status?.initContainerStatuses ?? [];
+  const phase = pod.status?.phase ?? "Unknown";
+
+  let status: string = pod.status?.reason || phase;
+  let problem = phase === "Failed";
+  // Init containers block everything after them, so their reason wins
+  const blockedInit = initContainers.find((container) => !container.ready);
+  const initReason = blockedInit && containerReason(blockedInit);
+  if (initReason && initReason !== "Completed") {
+    status = `Init:${initReason}`;
+    problem = !BENIGN_REASONS.has(initReason);
+  } else {
+    const reasons = containers.map(containerReason).filter((reason): reason is string => !!reason);
+    const worst = reasons.find((reason) => !BENIGN_REASONS.has(reason)) ?? reasons[0];
+    if (worst && !(phase === "Succeeded" && worst === "Completed")) {
+      status = worst;
+      problem = problem || !BENIGN_REASONS.has(worst);
+    }
+  }
+  if (pod.metadata.deletionTimestamp) {
+    status = "Terminating";
+  }
+
+  const owner = pod.metadata.ownerReferences?.find((ref) => ref.controller) ?? pod.metadata.ownerReferences?.[0];
+
+  return {
+    name: pod.metadata.name,
+    namespace: pod.metadata.namespace,
+    phase,
+    status,
+    problem,
+    ready: `${containers.filter((container) => container.ready).length}/${pod.spec?.containers?.length ?? containers.length}`,
+    restarts: containers.reduce((total, container) => total + (container.restartCount || 0), 0),
+    createdAt: pod.metadata.creationTimestamp ?? null,
+    nodeName: pod.spec?.nodeName ?? null,
+    podIP: pod.status?.podIP ?? null,
+    owner: owner ? { kind: owner.kind, name: owner.name } : null
+  };
+}
+
+export async function listPods(scope: Pick<KubectlOptions, "clusterId" | "namespace" | "allNamespaces">): Promise<PodSummary[]> {
+  return (await listResource<RawPod>("pods", scope)).map(summarizePod);
+}
+
+export interface PodEvent {
+  metadata: { uid: string };
+  type?: string;
+  reason?: string;
+  message?: string;
+  count?: number;
+  firstTimestamp?: string;
+  lastTimestamp?: string;
+  eventTime?: string;
+}
+
+export async function getPod(clusterId: string, namespace: string, name: string): Promise<RawPod> {
+  const result = await runKubectl(`kubectl get pod ${name} -n ${namespace} -o json`, { clusterId });
+  if (!result.success) {
+    throw new Error(result.error || `Failed to get pod ${name}`);
+  }
+  return JSON.parse(result.output || "{}");
+}
+
+// Newest first, like the bottom of `kubectl describe pod`
+export async function listPodEvents(clusterId: string, namespace: string, name: string): Promise<PodEvent[]> {
+  const result = await runKubectl(
+    `kubectl get events -n ${namespace} --field-selector involvedObject.kind=Pod,involvedObject.name=${name} -o json`,
+    { clusterId }
+  );
+  if (!result.success) {
+    throw new Error(result.error || "Failed to list events");
+  }
+  const items: PodEvent[] = JSON.parse(result.output || "{}").items ?? [];
+  const when = (event: PodEvent) => event.lastTimestamp || event.eventTime || event.firstTimestamp || "";
+  return items.sort((a, b) => when(b).localeCompare(when(a)));
+}
+
+export async function tailPodLogs(clusterId: string, namespace: string, name: string, container: string, lines: number): Promise<string> {
+  const result = await runKubectl(`kubectl logs ${name} -n ${namespace} -c ${container} --tail=${lines}`, { clusterId });
+  if (!result.success) {
+    throw new Error(result.error || `Failed to fetch logs for ${container}`);
+  }
+  return result.output || "";
+}
+
+// Same shape as kubectl's AGE column: the largest unit only
+export function formatAge(timestamp: string | null, now = Date.now()): string {
+  if (!timestamp) return "-";
+  const seconds = Math.max(0, Math.floor((now - new Date(timestamp).getTime()) / 1000));
+  if (seconds < 60) return `${seconds}s`;
+  if (seconds < 3600) return `${Math.floor(seconds / 60)}m`;
+  if (seconds < 86400) return `${Math.floor(seconds / 3600)}h`;
+  return `${Math.floor(seconds / 86400)}d`;
+}
@@ -0,0 +1,2 @@
+// The edge functions' quantity helpers, so the dashboard and kubectl describe/top agree on the numbers
+export { formatMebibytes, formatMillicores, parseQuantity, percentOf } from "../../supabase/functions/_shared/quantity.ts";
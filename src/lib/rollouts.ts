@@ -0,0 +1,89 @@
+import { runKubectl, type FieldChange } from "@/lib/kubectl";
+
+const REVISION_ANNOTATION = "deployment.kubernetes.io/revision";
+const CHANGE_CAUSE_ANNOTATION = "kubernetes.io/change-cause";
+
+export interface DeploymentRevision {
+  revision: number;
+  changeCause: string | null;
+  replicaSet: string;
+  images: string[];
+  replicas: number;
+  createdAt: string | null;
+  current: boolean;
+  template: unknown;
+}
+
+interface PodTemplate {
+  metadata?: { labels?: Record<string, string> };
+  spec?: { containers?: { image: string }[] };
+}
+
+interface ReplicaSet {
+  metadata: {
+    name: string;
+    creationTimestamp?: string;
+    annotations?: Record<string, string>;
+  };
+  spec?: { template?: PodTemplate };
+  status?: { replicas?: number };
+}
+
+async function getJson<T>(command: string, clusterId: string): Promise<T> {
+  const result = await runKubectl(command, { clusterId });
+  if (!result.success) {
+    throw new Error(result.error || "Command failed");
+  }
+  return JSON.parse(result.output || "{}") as T;
+}
+
+// `kubectl rollout history -o json` lists the ReplicaSets the deployment owns, oldest revision first,
+// with the per-ReplicaSet template hash already stripped so templates diff cleanly
+export async function listDeploymentRevisions(clusterId: string, namespace: string, name: string): Promise<DeploymentRevision[]> {
+  const { items = [] } = await getJson<{ items?: ReplicaSet[] }>(
+    `kubectl rollout history deployment/${name} -n ${namespace} -o json`,
+    clusterId
+  );
+  // A rollout or rollback always gives the ReplicaSet it scales up the highest revision
+  const currentRevision = items.length > 0
+    ? Number(items[items.length - 1].metadata.annotations?.[REVISION_ANNOTATION] ?? 0)
+    : 0;
+
+  return items.map((rs) => {
+    const revision = Number(rs.metadata.annotations?.[REVISION_ANNOTATION] ?? 0);
+    return {
+      revision,
+      changeCause: rs.metadata.annotations?.[CHANGE_CAUSE_ANNOTATION] ?? null,
+      replicaSet: rs.metadata.name,
+      images: (rs.spec?.template?.spec?.containers ?? []).map((container) => container.image),
+      replicas: rs.status?.replicas ?? 0,
+      createdAt: rs.metadata.creationTimestamp ?? null,
+      current: revision === currentRevision,
+      template: rs.spec?.template
+    };
+  });
+}
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return value !== null && typeof value === "object" && !Array.isArray(value);
+}
+
+// Field-level changes from one pod template to another, in the same shape as dry-run diffs
+export function diffTemplates(before: unknown, after: unknown, path = ""): FieldChange[] {
+  if (JSON.stringify(before) === JSON.stringify(after)) return [];
+
+  if (isPlainObject(before) && isPlainObject(after)) {
+    const keys = [...new Set([...Object.keys(before), ...Object.keys(after)])].sort();
+    return keys.flatMap((key) => diffTemplates(before[key], after[key], path ? `${path}.${key}` : key));
+  }
+
+  if (Array.isArray(before) && Array.isArray(after) && before.length === after.length) {
+    return before.flatMap((item, i) => diffTemplates(item, after[i], `${path}[${i}]`));
+  }
+
+  return [{
+    path: path || ".",
+    ...(before !== undefined && { before }),
+    ...(after !== undefined && { after })
+  }];
+}
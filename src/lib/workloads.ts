@@ -0,0 +1,285 @@
+import { listResource, type KubectlOptions } from "@/lib/kubectl";
+
+export type WorkloadKind = "Deployment" | "StatefulSet" | "DaemonSet" | "Job" | "CronJob";
+
+export const WORKLOAD_KINDS: { kind: WorkloadKind; resource: string }[] = [
+  { kind: "Deployment", resource: "deployments" },
+  { kind: "StatefulSet", resource: "statefulsets" },
+  { kind: "DaemonSet", resource: "daemonsets" },
+  { kind: "Job", resource: "jobs" },
+  { kind: "CronJob", resource: "cronjobs" }
+];
+
+// Which kubectl write verbs make sense for each kind; the cluster's allowlist still decides
+export const SCALABLE_KINDS: WorkloadKind[] = ["Deployment", "StatefulSet"];
+export const RESTARTABLE_KINDS: WorkloadKind[] = ["Deployment", "StatefulSet", "DaemonSet"];
+
+export interface WorkloadCondition {
+  type: string;
+  status: string;
+  reason?: string;
+  message?: string;
+}
+
+export interface WorkloadSummary {
+  kind: WorkloadKind;
+  name: string;
+  namespace: string;
+  // Not every kind has every count: DaemonSets derive desired from the scheduled nodes,
+  // Jobs use completions, CronJobs only report active jobs
+  desired: number | null;
+  ready: number | null;
+  updated: number | null;
+  available: number | null;
+  // One line in the spirit of `kubectl rollout status`
+  rolloutStatus: string;
+  healthy: boolean;
+  conditions: WorkloadCondition[];
+  createdAt: string | null;
+  // CronJob schedule, Job completions and the like
+  detail?: string;
+}
+
+export interface OwnedObject {
+  kind: string;
+  name: string;
+  namespace: string;
+  owner: { kind: string; name: string } | null;
+}
+
+interface WorkloadStatus {
+  observedGeneration?: number;
+  conditions?: WorkloadCondition[];
+}
+
+interface DeploymentSpec {
+  replicas?: number;
+  paused?: boolean;
+}
+
+interface DeploymentStatus extends WorkloadStatus {
+  replicas?: number;
+  updatedReplicas?: number;
+  readyReplicas?: number;
+  availableReplicas?: number;
+}
+
+interface StatefulSetSpec {
+  replicas?: number;
+  updateStrategy?: { type?: string };
+}
+
+interface StatefulSetStatus extends WorkloadStatus {
+  readyReplicas?: number;
+  updatedReplicas?: number;
+  availableReplicas?: number;
+  currentRevision?: string;
+  updateRevision?: string;
+}
+
+interface DaemonSetSpec {
+  updateStrategy?: { type?: string };
+}
+
+interface DaemonSetStatus extends WorkloadStatus {
+  desiredNumberScheduled?: number;
+  numberReady?: number;
+  updatedNumberScheduled?: number;
+  numberAvailable?: number;
+}
+
+interface JobSpec {
+  completions?: number;
+  suspend?: boolean;
+}
+
+interface JobStatus extends WorkloadStatus {
+  active?: number;
+  succeeded?: number;
+  failed?: number;
+}
+
+interface CronJobSpec {
+  schedule?: string;
+  suspend?: boolean;
+}
+
+interface CronJobStatus extends WorkloadStatus {
+  active?: { name: string }[];
+  lastScheduleTime?: string;
+}
+
+// Spec and status depend on the kind, which list items don't carry; summarizeWorkload is told it
+interface RawWorkload<Spec = object, Status extends WorkloadStatus = WorkloadStatus> {
+  metadata: {
+    name: string;
+    namespace: string;
+    generation?: number;
+    creationTimestamp?: string;
+  };
+  spec?: Spec;
+  status?: Status;
+}
+
+function deploymentStatus(spec: DeploymentSpec, status: DeploymentStatus, generation?: number): [string, boolean] {
+  const desired = spec.replicas ?? 1;
+  const updated = status.updatedReplicas ?? 0;
+  const progressing = (status.conditions || []).find((condition) => condition.type === "Progressing");
+  if (progressing?.reason === "ProgressDeadlineExceeded") {
+    return ["Rollout exceeded its progress deadline", false];
+  }
+  if (spec.paused) return ["Rollout paused", true];
+  if (generation !== undefined && (status.observedGeneration ?? 0) < generation) {
+    return ["Waiting for the rollout to be observed", false];
+  }
+  if (updated < desired) return [`${updated} of ${desired} new replicas updated`, false];
+  if ((status.replicas ?? 0) > updated) return [`${(status.replicas ?? 0) - updated} old replicas pending termination`, false];
+  if ((status.availableReplicas ?? 0) < updated) return [`${status.availableReplicas ?? 0} of ${updated} updated replicas available`, false];
+  return ["Successfully rolled out", true];
+}
+
+function statefulSetStatus(spec: StatefulSetSpec, status: StatefulSetStatus, generation?: number): [string, boolean] {
+  const desired = spec.replicas ?? 1;
+  if (spec.updateStrategy?.type === "OnDelete") {
+    return ["Updates only on pod deletion", (status.readyReplicas ?? 0) >= desired];
+  }
+  if (generation !== undefined && (status.observedGeneration ?? 0) < generation) {
+    return ["Waiting for the rollout to be observed", false];
+  }
+  if ((status.readyReplicas ?? 0) < desired) return [`Waiting for ${desired - (status.readyReplicas ?? 0)} pods to be ready`, false];
+  if (status.updateRevision && status.currentRevision !== status.updateRevision) {
+    return [`${status.updatedReplicas ?? 0} of ${desired} pods at the new revision`, false];
+  }
+  return ["Successfully rolled out", true];
+}
+
+function daemonSetStatus(spec: DaemonSetSpec, status: DaemonSetStatus, generation?: number): [string, boolean] {
+  const desired = status.desiredNumberScheduled ?? 0;
+  if (spec.updateStrategy?.type === "OnDelete") {
+    return ["Updates only on pod deletion", (status.numberReady ?? 0) >= desired];
+  }
+  if (generation !== undefined && (status.observedGeneration ?? 0) < generation) {
+    return ["Waiting for the rollout to be observed", false];
+  }
+  if ((status.updatedNumberScheduled ?? 0) < desired) return [`${status.updatedNumberScheduled ?? 0} of ${desired} updated pods scheduled`, false];
+  if ((status.numberAvailable ?? 0) < desired) return [`${status.numberAvailable ?? 0} of ${desired} updated pods available`, false];
+  return ["Successfully rolled out", true];
+}
+
+export function summarizeWorkload(kind: WorkloadKind, workload: RawWorkload): WorkloadSummary {
+  const generation = workload.metadata.generation;
+  const base = {
+    kind,
+    name: workload.metadata.name,
+    namespace: workload.metadata.namespace,
+    conditions: workload.status?.conditions ?? [],
+    createdAt: workload.metadata.creationTimestamp ?? null
+  };
+
+  switch (kind) {
+    case "Deployment": {
+      const { spec = {}, status = {} } = workload as RawWorkload<DeploymentSpec, DeploymentStatus>;
+      const [rolloutStatus, healthy] = deploymentStatus(spec, status, generation);
+      return {
+        ...base, rolloutStatus, healthy,
+        desired: spec.replicas ?? 1,
+        ready: status.readyReplicas ?? 0,
+        updated: status.updatedReplicas ?? 0,
+        available: status.availableReplicas ?? 0
+      };
+    }
+    case "StatefulSet": {
+      const { spec = {}, status = {} } = workload as RawWorkload<StatefulSetSpec, StatefulSetStatus>;
+      const [rolloutStatus, healthy] = statefulSetStatus(spec, status, generation);
+      return {
+        ...base, rolloutStatus, healthy,
+        desired: spec.replicas ?? 1,
+        ready: status.readyReplicas ?? 0,
+        updated: status.updatedReplicas ?? 0,
+        available: status.availableReplicas ?? null
+      };
+    }
+    case "DaemonSet": {
+      const { spec = {}, status = {} } = workload as RawWorkload<DaemonSetSpec, DaemonSetStatus>;
+      const [rolloutStatus, healthy] = daemonSetStatus(spec, status, generation);
+      return {
+        ...base, rolloutStatus, healthy,
+        desired: status.desiredNumberScheduled ?? 0,
+        ready: status.numberReady ?? 0,
+        updated: status.updatedNumberScheduled ?? 0,
+        available: status.numberAvailable ?? 0
+      };
+    }
+    case "Job": {
+      const { spec = {}, status = {} } = workload as RawWorkload<JobSpec, JobStatus>;
+      const finished = base.conditions.find((condition) =>
+        (condition.type === "Complete" || condition.type === "Failed") && condition.status === "True");
+      const completions = spec.completions ?? 1;
+      const rolloutStatus = finished?.type === "Complete"
+        ? "Complete"
+        : finished?.type === "Failed"
+          ? `Failed: ${finished.reason || "unknown"}`
+          : spec.suspend ? "Suspended" : `Running, ${status.active ?? 0} active`;
+      return {
+        ...base, rolloutStatus,
+        healthy: finished?.type !== "Failed" && !((status.failed ?? 0) > 0 && !finished),
+        desired: completions,
+        ready: status.succeeded ?? 0,
+        updated: null,
+        available: null,
+        detail: `${status.succeeded ?? 0}/${completions} completions${status.failed ? `, ${status.failed} failed` : ""}`
+      };
+    }
+    case "CronJob": {
+      const { spec = {}, status = {} } = workload as RawWorkload<CronJobSpec, CronJobStatus>;
+      return {
+        ...base,
+        rolloutStatus: spec.suspend ? "Suspended" : status.lastScheduleTime ? `Last scheduled ${new Date(status.lastScheduleTime).toLocaleString()}` : "Never scheduled",
+        healthy: true,
+        desired: null,
+        ready: (status.active ?? []).length,
+        updated: null,
+        available: null,
+        detail: spec.schedule
+      };
+    }
+  }
+}
+
+export async function listWorkloads(scope: Pick<KubectlOptions, "clusterId" | "namespace" | "allNamespaces">): Promise<WorkloadSummary[]> {
+  const lists = await Promise.all(WORKLOAD_KINDS.map(async ({ kind, resource }) =>
+    (await listResource<RawWorkload>(resource, scope)).map((workload) => summarizeWorkload(kind, workload))
+  ));
+  return lists.flat();
+}
+
+interface RawOwned {
+  metadata: {
+    name: string;
+    namespace: string;
+    ownerReferences?: { kind: string; name: string; controller?: boolean }[];
+  };
+}
+
+// ReplicaSets and Jobs, the controllers that sit between a workload and its pods
+export async function listIntermediates(scope: Pick<KubectlOptions, "clusterId" | "namespace" | "allNamespaces">): Promise<OwnedObject[]> {
+  const [replicaSets, jobs] = await Promise.all([
+    listResource<RawOwned>("replicasets", scope),
+    listResource<RawOwned>("jobs", scope)
+  ]);
+  const toOwned = (kind: string) => ({ metadata }: RawOwned): OwnedObject => {
+    const owner = metadata.ownerReferences?.find((ref) => ref.controller) ?? metadata.ownerReferences?.[0];
+    return {
+      kind,
+      name: metadata.name,
+      namespace: metadata.namespace,
+      owner: owner ? { kind: owner.kind, name: owner.name } : null
+    };
+  };
+  return [...replicaSets.map(toOwned("ReplicaSet")), ...jobs.map(toOwned("Job"))];
+}
+
+// Whether `object` is controlled by the workload, following ownerReferences by kind and name
+export function isOwnedBy(object: { namespace: string; owner: { kind: string; name: string } | null }, owner: { kind: string; name: string; namespace: string }): boolean {
+  return object.namespace === owner.namespace && object.owner?.kind === owner.kind && object.owner.name === owner.name;
+}
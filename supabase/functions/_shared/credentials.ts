@@ -0,0 +1,178 @@
+// Cluster credentials are stored in cluster_credentials, encrypted with AES-256-GCM under an
+// application key from the functions' environment. Only the service role can read that table,
+// so decrypted tokens and keys exist nowhere but inside edge functions.
+//
+// CLUSTER_CREDENTIALS_KEY is 32 random bytes, base64-encoded (`openssl rand -base64 32`).
+// To rotate, move the old value into CLUSTER_CREDENTIALS_PREVIOUS_KEYS (comma-separated),
+// set a new CLUSTER_CREDENTIALS_KEY and run the cluster-credentials `rotate` action.
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2.45.0'
+import { decode as decodeBase64, encode as encodeBase64 } from 'https://deno.land/std@0.168.0/encoding/base64.ts'
+
+export const SECRET_FIELDS = ['token', 'certificate_authority_data', 'client_certificate_data', 'client_key_data'] as const;
+export type SecretField = typeof SECRET_FIELDS[number];
+export type ClusterCredentials = Partial<Record<SecretField, string | null>>;
+
+const CIPHERTEXT_VERSION = 'v1';
+
+type CredentialsRow = Record<SecretField, string | null> & {
+  cluster_id: string;
+  // Set on rows the 20250812083126 migration copied over unencrypted, until they are re-encrypted
+  legacy_plaintext: boolean;
+};
+
+interface Keyring {
+  current: { id: string; key: CryptoKey };
+  byId: Map<string, CryptoKey>;
+}
+
+let keyring: Promise<Keyring> | null = null;
+
+async function importKey(encoded: string): Promise<{ id: string; key: CryptoKey }> {
+  const raw = decodeBase64(encoded.trim());
+  if (raw.length !== 32) {
+    throw new Error('cluster credentials keys must be 32 bytes, base64-encoded');
+  }
+  // The id only tells keys apart in stored values; it reveals nothing useful about the key
+  const digest = new Uint8Array(await crypto.subtle.digest('SHA-256', raw));
+  const id = Array.from(digest.slice(0, 4), (b) => b.toString(16).padStart(2, '0')).join('');
+  const key = await crypto.subtle.importKey('raw', raw, 'AES-GCM', false, ['encrypt', 'decrypt']);
+  return { id, key };
+}
+
+function loadKeyring(): Promise<Keyring> {
+  keyring ??= (async () => {
+    const current = Deno.env.get('CLUSTER_CREDENTIALS_KEY');
+    if (!current) {
+      throw new Error('CLUSTER_CREDENTIALS_KEY is not set; cluster credentials cannot be read or saved');
+    }
+    const previous = (Deno.env.get('CLUSTER_CREDENTIALS_PREVIOUS_KEYS') ?? '').split(',').filter((k) => k.trim());
+    const keys = await Promise.all([current, ...previous].map(importKey));
+    return { current: keys[0], byId: new Map(keys.map(({ id, key }) => [id, key])) };
+  })();
+  return keyring;
+}
+
+// Ciphertexts are bound to their cluster so a value can't be copied onto another row
+async function encryptSecret(clusterId: string, plaintext: string): Promise<string> {
+  const { current } = await loadKeyring();
+  const iv = crypto.getRandomValues(new Uint8Array(12));
+  const ciphertext = await crypto.subtle.encrypt(
+    { name: 'AES-GCM', iv, additionalData: new TextEncoder().encode(clusterId) },
+    current.key,
+    new TextEncoder().encode(plaintext),
+  );
+  return [CIPHERTEXT_VERSION, current.id, encodeBase64(iv), encodeBase64(new Uint8Array(ciphertext))].join(':');
+}
+
+async function decryptSecret(clusterId: string, stored: string | null, allowPlaintext: boolean): Promise<string | null> {
+  if (!stored) return null;
+  const [version, keyId, iv, ciphertext] = stored.split(':');
+  if (version !== CIPHERTEXT_VERSION || ciphertext === undefined) {
+    if (allowPlaintext) return stored;
+    throw new Error(`cluster credentials for ${clusterId} are not encrypted; save them again`);
+  }
+
+  const key = (await loadKeyring()).byId.get(keyId);
+  if (!key) {
+    throw new Error(`cluster credentials were encrypted with key ${keyId}, which is not configured; add it to CLUSTER_CREDENTIALS_PREVIOUS_KEYS`);
+  }
+  const plaintext = await crypto.subtle.decrypt(
+    { name: 'AES-GCM', iv: decodeBase64(iv), additionalData: new TextEncoder().encode(clusterId) },
+    key,
+    decodeBase64(ciphertext),
+  );
+  return new TextDecoder().decode(plaintext);
+}
+
+function credentialsClient() {
+  return createClient(
+    Deno.env.get('SUPABASE_URL') ?? '',
+    Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') ?? '',
+    {
+      auth: {
+        persistSession: false
+      }
+    }
+  );
+}
+
+async function decryptRow(row: CredentialsRow): Promise<ClusterCredentials> {
+  const credentials: ClusterCredentials = {};
+  for (const field of SECRET_FIELDS) {
+    credentials[field] = await decryptSecret(row.cluster_id, row[field], row.legacy_plaintext);
+  }
+  return credentials;
+}
+
+async function encryptRow(clusterId: string, credentials: ClusterCredentials): Promise<Record<SecretField, string | null>> {
+  const encrypted = {} as Record<SecretField, string | null>;
+  for (const field of SECRET_FIELDS) {
+    encrypted[field] = credentials[field] ? await encryptSecret(clusterId, credentials[field]!) : null;
+  }
+  return encrypted;
+}
+
+async function storeEncrypted(admin: ReturnType<typeof credentialsClient>, clusterId: string, credentials: ClusterCredentials) {
+  const { error } = await admin
+    .from('cluster_credentials')
+    .update({ ...await encryptRow(clusterId, credentials), legacy_plaintext: false })
+    .eq('cluster_id', clusterId);
+
+  if (error) throw error;
+}
+
+export async function loadCredentials(clusterId: string): Promise<ClusterCredentials> {
+  const admin = credentialsClient();
+  const { data, error } = await admin
+    .from('cluster_credentials')
+    .select('*')
+    .eq('cluster_id', clusterId)
+    .maybeSingle();
+
+  if (error) throw error;
+  if (!data) return {};
+
+  const credentials = await decryptRow(data);
+  // Legacy plaintext is encrypted the first time it is read, so it doesn't outlive one request
+  if (data.legacy_plaintext) {
+    await storeEncrypted(admin, clusterId, credentials);
+  }
+  return credentials;
+}
+
+// A cluster_configs row with its decrypted credentials merged in, ready for kubeFetch
+export async function withCredentials<T extends { id: string }>(clusterConfig: T): Promise<T & ClusterCredentials> {
+  return { ...clusterConfig, ...await loadCredentials(clusterConfig.id) };
+}
+
+// Fields left undefined keep their stored value; null clears them
+export async function saveCredentials(clusterId: string, userId: string, changes: ClusterCredentials): Promise<ClusterCredentials> {
+  const merged = { ...await loadCredentials(clusterId), ...changes };
+  if (!merged.token && !(merged.client_certificate_data && merged.client_key_data)) {
+    throw new Error('a cluster needs either a token or a client certificate and key');
+  }
+  if (!merged.client_certificate_data !== !merged.client_key_data) {
+    throw new Error('a client certificate and its key must be provided together');
+  }
+
+  const { error } = await credentialsClient()
+    .from('cluster_credentials')
+    .upsert({ cluster_id: clusterId, user_id: userId, ...await encryptRow(clusterId, merged), legacy_plaintext: false });
+
+  if (error) throw error;
+  return merged;
+}
+
+// Re-encrypts every stored credential under the current key, legacy plaintext included; returns how many rows were written
+export async function rotateCredentials(): Promise<number> {
+  const admin = credentialsClient();
+  const { data, error } = await admin
+    .from('cluster_credentials')
+    .select('*');
+
+  if (error) throw error;
+  for (const row of data ?? []) {
+    await storeEncrypted(admin, row.cluster_id, await decryptRow(row));
+  }
+  return data?.length ?? 0;
+}
@@ -0,0 +1,136 @@
+// Thin wrapper around fetch for talking to a cluster's API server, shared by every function
+// that reads from clusters. TLS trusts the cluster's own CA bundle and, when configured,
+// presents its client certificate; bearer tokens are sent when the cluster has one.
+import { ClientWebSocket, type KubeSocket } from './websocket.ts'
+
+// The columns of a cluster_configs row (or an unsaved config being tested) needed to reach its API server
+export interface ClusterConnection {
+  id?: string;
+  updated_at?: string;
+  endpoint: string;
+  token?: string | null;
+  certificate_authority_data?: string | null;
+  client_certificate_data?: string | null;
+  client_key_data?: string | null;
+  namespace?: string | null;
+  watched_namespaces?: string[] | null;
+  watch_all_namespaces?: boolean | null;
+}
+
+// kubeconfig stores certificates and keys base64-encoded; accept raw PEM as well
+export function decodePem(data: string | null | undefined): string | undefined {
+  const trimmed = data?.trim();
+  if (!trimmed) return undefined;
+  if (trimmed.startsWith('-----BEGIN')) return trimmed;
+  try {
+    return atob(trimmed.replace(/\s+/g, ''));
+  } catch {
+    throw new Error('certificate data is neither PEM nor base64-encoded PEM');
+  }
+}
+
+// One HTTP client per distinct set of TLS credentials, so edited rows and unsaved configs
+// being tested never pick up a client built for different certificates
+const httpClients = new Map<string, Deno.HttpClient | null>();
+
+export function kubeHttpClient(clusterConfig: ClusterConnection, { clientAuth = true } = {}): Deno.HttpClient | undefined {
+  const caCert = decodePem(clusterConfig.certificate_authority_data);
+  const cert = clientAuth ? decodePem(clusterConfig.client_certificate_data) : undefined;
+  const privateKey = clientAuth ? decodePem(clusterConfig.client_key_data) : undefined;
+  const key = JSON.stringify([caCert, cert, privateKey]);
+  if (!httpClients.has(key)) {
+    httpClients.set(key, caCert || (cert && privateKey)
+      ? Deno.createHttpClient({
+        ...(caCert && { caCerts: [caCert] }),
+        ...(cert && privateKey && { cert, key: privateKey }),
+      })
+      : null);
+  }
+  return httpClients.get(key) ?? undefined;
+}
+
+export function apiBaseUrl(clusterConfig: ClusterConnection): string {
+  return clusterConfig.endpoint.replace(/\/$/, '');
+}
+
+export function kubeFetch(clusterConfig: ClusterConnection, path: string, init: RequestInit = {}): Promise<Response> {
+  const client = kubeHttpClient(clusterConfig);
+  return fetch(`${apiBaseUrl(clusterConfig)}${path}`, {
+    ...init,
+    ...(client && { client }),
+    headers: {
+      ...(clusterConfig.token && { 'Authorization': `Bearer ${clusterConfig.token}` }),
+      'Content-Type': 'application/json',
+      ...init.headers,
+    }
+  } as RequestInit);
+}
+
+export async function kubeGetJson<T>(clusterConfig: ClusterConnection, path: string): Promise<T> {
+  const response = await kubeFetch(clusterConfig, path);
+  if (!response.ok) {
+    throw new Error(`Kubernetes API error (${response.status}) for ${path}: ${await response.text()}`);
+  }
+  return response.json() as Promise<T>;
+}
+
+// The namespaces a cluster is scoped to, or null when it watches all of them
+export function watchedNamespaces(clusterConfig: ClusterConnection): string[] | null {
+  if (clusterConfig.watch_all_namespaces) return null;
+  return clusterConfig.watched_namespaces?.length
+    ? clusterConfig.watched_namespaces
+    : [clusterConfig.namespace || 'default'];
+}
+
+// Items of a core/v1 list across every watched namespace, e.g. listWatched(cluster, 'pods')
+export async function listWatched<T>(clusterConfig: ClusterConnection, resource: string): Promise<T[]> {
+  const namespaces = watchedNamespaces(clusterConfig);
+  if (!namespaces) {
+    return (await kubeGetJson<{ items?: T[] }>(clusterConfig, `/api/v1/${resource}`)).items ?? [];
+  }
+
+  const items: T[] = [];
+  for (const namespace of namespaces) {
+    const list = await kubeGetJson<{ items?: T[] }>(clusterConfig, `/api/v1/namespaces/${encodeURIComponent(namespace)}/${resource}`);
+    items.push(...(list.items ?? []));
+  }
+  return items;
+}
+
+// Deno can't set headers on a WebSocket, so the token rides in the bearer subprotocol the API server accepts
+function bearerProtocol(token: string): string {
+  const encoded = btoa(token).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+  return `base64url.bearer.authorization.k8s.io.${encoded}`;
+}
+
+// Deno's WebSocket only trusts the system store and can't present a client certificate, so clusters
+// with their own CA or certificate credentials get a socket over a TLS connection we configure
+export function kubeWebSocket(clusterConfig: ClusterConnection, path: string, protocol: string): KubeSocket {
+  const url = `${apiBaseUrl(clusterConfig).replace(/^http/, 'ws')}${path}`;
+  const caCert = decodePem(clusterConfig.certificate_authority_data);
+  const cert = decodePem(clusterConfig.client_certificate_data);
+  const privateKey = decodePem(clusterConfig.client_key_data);
+
+  if (caCert || (cert && privateKey)) {
+    return new ClientWebSocket(url, {
+      protocols: [protocol],
+      ...(clusterConfig.token && { headers: { Authorization: `Bearer ${clusterConfig.token}` } }),
+      tls: {
+        ...(caCert && { caCerts: [caCert] }),
+        ...(cert && privateKey && { cert, key: privateKey }),
+      },
+    });
+  }
+
+  const socket = new WebSocket(url, clusterConfig.token ? [protocol, bearerProtocol(clusterConfig.token)] : [protocol]);
+  socket.binaryType = 'arraybuffer';
+  return socket;
+}
+
+// exec and port-forward sockets prefix every message with the channel it belongs to
+export function channelFrame(channel: number, data: Uint8Array): Uint8Array {
+  const bytes = new Uint8Array(data.length + 1);
+  bytes[0] = channel;
+  bytes.set(data, 1);
+  return bytes;
+}
@@ -0,0 +1,57 @@
+// Kubernetes resource.Quantity parsing, good enough for summing requests/limits and usage.
+// Used by kubectl top and describe and, through src/lib/quantity.ts, by the dashboard's node
+// views, so it must not import anything either runtime can't load.
+
+const BINARY_SUFFIXES: Record<string, number> = {
+  Ki: 1024,
+  Mi: 1024 ** 2,
+  Gi: 1024 ** 3,
+  Ti: 1024 ** 4,
+  Pi: 1024 ** 5,
+  Ei: 1024 ** 6,
+};
+
+const DECIMAL_SUFFIXES: Record<string, number> = {
+  n: 1e-9,
+  u: 1e-6,
+  m: 1e-3,
+  '': 1,
+  k: 1e3,
+  M: 1e6,
+  G: 1e9,
+  T: 1e12,
+  P: 1e15,
+  E: 1e18,
+};
+
+export function parseQuantity(quantity: string | number | undefined | null): number {
+  if (quantity === undefined || quantity === null || quantity === '') return 0;
+  if (typeof quantity === 'number') return quantity;
+
+  const match = String(quantity).trim().match(/^([+-]?[0-9.]+(?:[eE][+-]?[0-9]+)?)([a-zA-Z]*)$/);
+  if (!match) {
+    throw new Error(`invalid quantity "${quantity}"`);
+  }
+
+  const [, number, suffix] = match;
+  const multiplier = BINARY_SUFFIXES[suffix] ?? DECIMAL_SUFFIXES[suffix];
+  if (multiplier === undefined) {
+    throw new Error(`invalid quantity suffix "${suffix}" in "${quantity}"`);
+  }
+  return Number(number) * multiplier;
+}
+
+// CPU in cores -> "250m" style
+export function formatMillicores(cores: number): string {
+  return `${Math.round(cores * 1000)}m`;
+}
+
+// Memory in bytes -> "128Mi" style
+export function formatMebibytes(bytes: number): string {
+  return `${Math.round(bytes / BINARY_SUFFIXES.Mi)}Mi`;
+}
+
+// Whole percent; callers add the % sign
+export function percentOf(value: number, total: number): number {
+  return total > 0 ? Math.round((value / total) * 100) : 0;
+}
@@ -0,0 +1,4 @@
+// Server-sent event framing for functions that stream to the browser (log follow, watches)
+export function sseEvent(event: string, data: string): string {
+  return `event: ${event}\n${data.split('\n').map((line) => `data: ${line}`).join('\n')}\n\n`;
+}
@@ -0,0 +1,314 @@
+// A WebSocket client over a connection we open ourselves. Deno's WebSocket can't be given a CA
+// bundle or a client certificate, so exec and port-forward reach API servers with a private CA or
+// certificate-only credentials through this instead. It speaks just enough of RFC 6455 for them:
+// text and binary messages, fragmentation, ping/pong and close; no extensions.
+import { encode as encodeBase64 } from 'https://deno.land/std@0.168.0/encoding/base64.ts'
+
+// What exec and port-forward use of a socket; Deno's WebSocket has the same shape
+export interface KubeSocket {
+  readonly readyState: number;
+  onopen: ((event: Event) => void) | null;
+  onmessage: ((event: MessageEvent) => void) | null;
+  onerror: ((event: Event) => void) | null;
+  onclose: ((event: CloseEvent) => void) | null;
+  send(data: Uint8Array): void;
+  close(): void;
+}
+
+export interface ClientWebSocketOptions {
+  protocols: string[];
+  headers?: Record<string, string>;
+  // Used for wss:// URLs; ws:// connects without TLS
+  tls?: { caCerts?: string[]; cert?: string; key?: string };
+}
+
+// The readyState values of the WebSocket API
+const CONNECTING = 0;
+const OPEN = 1;
+const CLOSING = 2;
+const CLOSED = 3;
+
+const HANDSHAKE_GUID = '258EAFA5-E914-47DA-95CA-C5AB0DC85B11';
+const CONTINUATION = 0x0;
+const TEXT = 0x1;
+const BINARY = 0x2;
+const CLOSE = 0x8;
+const PING = 0x9;
+const PONG = 0xa;
+
+const MAX_HEAD_BYTES = 16 * 1024;
+const MAX_ERROR_BODY_BYTES = 4096;
+// How long to wait for the server to answer our close frame before hanging up anyway
+const CLOSE_TIMEOUT_MS = 5000;
+
+interface Frame {
+  fin: boolean;
+  opcode: number;
+  payload: Uint8Array;
+}
+
+// Buffers reads so the handshake head and each frame can be taken off the connection exactly
+class ConnReader {
+  private buffer = new Uint8Array(0);
+
+  constructor(private conn: Deno.Conn) {}
+
+  // Null once the peer has closed the connection
+  async readExact(length: number): Promise<Uint8Array | null> {
+    if (this.buffer.length >= length) {
+      const bytes = this.buffer.slice(0, length);
+      this.buffer = this.buffer.subarray(length);
+      return bytes;
+    }
+    // Large payloads are read straight into place rather than through the buffer
+    const bytes = new Uint8Array(length);
+    bytes.set(this.buffer);
+    let filled = this.buffer.length;
+    this.buffer = new Uint8Array(0);
+    while (filled < length) {
+      const n = await this.conn.read(bytes.subarray(filled));
+      if (n === null) return null;
+      filled += n;
+    }
+    return bytes;
+  }
+
+  // The HTTP response head, up to and including the blank line that ends it
+  async readHead(): Promise<string | null> {
+    while (true) {
+      const text = new TextDecoder().decode(this.buffer);
+      const end = text.indexOf('\r\n\r\n');
+      if (end !== -1) {
+        const head = await this.readExact(new TextEncoder().encode(text.slice(0, end + 4)).length);
+        return head && new TextDecoder().decode(head);
+      }
+      if (this.buffer.length > MAX_HEAD_BYTES) return null;
+
+      const chunk = new Uint8Array(4096);
+      const n = await this.conn.read(chunk);
+      if (n === null) return null;
+      const merged = new Uint8Array(this.buffer.length + n);
+      merged.set(this.buffer);
+      merged.set(chunk.subarray(0, n), this.buffer.length);
+      this.buffer = merged;
+    }
+  }
+
+  async readFrame(): Promise<Frame | null> {
+    const head = await this.readExact(2);
+    if (!head) return null;
+    let length = head[1] & 0x7f;
+    if (length >= 126) {
+      const extended = await this.readExact(length === 126 ? 2 : 8);
+      if (!extended) return null;
+      const view = new DataView(extended.buffer, extended.byteOffset, extended.length);
+      length = length === 126 ? view.getUint16(0) : Number(view.getBigUint64(0));
+    }
+    // Servers must not mask their frames, but unmasking costs nothing
+    const mask = head[1] & 0x80 ? await this.readExact(4) : null;
+    const payload = await this.readExact(length);
+    if (!payload || (head[1] & 0x80 && !mask)) return null;
+    if (mask) {
+      for (let i = 0; i < payload.length; i++) payload[i] ^= mask[i % 4];
+    }
+    return { fin: (head[0] & 0x80) !== 0, opcode: head[0] & 0x0f, payload };
+  }
+}
+
+// Client frames are always masked
+function encodeFrame(opcode: number, payload: Uint8Array): Uint8Array {
+  const lengthBytes = payload.length < 126 ? 0 : payload.length < 65536 ? 2 : 8;
+  const offset = 2 + lengthBytes;
+  const frame = new Uint8Array(offset + 4 + payload.length);
+  const view = new DataView(frame.buffer);
+  frame[0] = 0x80 | opcode;
+  if (lengthBytes === 0) {
+    frame[1] = 0x80 | payload.length;
+  } else if (lengthBytes === 2) {
+    frame[1] = 0x80 | 126;
+    view.setUint16(2, payload.length);
+  } else {
+    frame[1] = 0x80 | 127;
+    view.setBigUint64(2, BigInt(payload.length));
+  }
+
+  const mask = crypto.getRandomValues(new Uint8Array(4));
+  frame.set(mask, offset);
+  for (let i = 0; i < payload.length; i++) frame[offset + 4 + i] = payload[i] ^ mask[i % 4];
+  return frame;
+}
+
+function concat(chunks: Uint8Array[]): Uint8Array {
+  if (chunks.length === 1) return chunks[0];
+  const bytes = new Uint8Array(chunks.reduce((total, chunk) => total + chunk.length, 0));
+  let offset = 0;
+  for (const chunk of chunks) {
+    bytes.set(chunk, offset);
+    offset += chunk.length;
+  }
+  return bytes;
+}
+
+async function expectedAccept(key: string): Promise<string> {
+  const digest = await crypto.subtle.digest('SHA-1', new TextEncoder().encode(key + HANDSHAKE_GUID));
+  return encodeBase64(new Uint8Array(digest));
+}
+
+export class ClientWebSocket implements KubeSocket {
+  readyState = CONNECTING;
+  onopen: ((event: Event) => void) | null = null;
+  onmessage: ((event: MessageEvent) => void) | null = null;
+  onerror: ((event: Event) => void) | null = null;
+  onclose: ((event: CloseEvent) => void) | null = null;
+
+  private conn: Deno.Conn | null = null;
+  private writes: Promise<void> = Promise.resolve();
+  private closeTimer: ReturnType<typeof setTimeout> | undefined;
+
+  constructor(url: string, options: ClientWebSocketOptions) {
+    this.run(new URL(url), options).catch((error) => this.fail(error));
+  }
+
+  send(data: Uint8Array) {
+    if (this.readyState !== OPEN) {
+      throw new Error('WebSocket is not open');
+    }
+    this.write(encodeFrame(BINARY, data));
+  }
+
+  close() {
+    if (this.readyState === CONNECTING) {
+      this.finish(1006, false);
+    } else if (this.readyState === OPEN) {
+      this.readyState = CLOSING;
+      // 1000, normal closure; the server answers with its own close frame
+      this.write(encodeFrame(CLOSE, new Uint8Array([0x03, 0xe8])));
+      this.closeTimer = setTimeout(() => this.finish(1000, false), CLOSE_TIMEOUT_MS);
+    }
+  }
+
+  private async run(url: URL, { protocols, headers = {}, tls }: ClientWebSocketOptions) {
+    const secure = url.protocol === 'wss:';
+    // IPv6 literals come back from URL in brackets
+    const hostname = url.hostname.replace(/^\[(.*)\]$/, '$1');
+    const port = Number(url.port) || (secure ? 443 : 80);
+    const conn = secure ? await Deno.connectTls({ hostname, port, ...tls }) : await Deno.connect({ hostname, port });
+    if (this.readyState === CLOSED) {
+      conn.close();
+      return;
+    }
+    this.conn = conn;
+    const reader = new ConnReader(conn);
+
+    const key = encodeBase64(crypto.getRandomValues(new Uint8Array(16)));
+    this.write(new TextEncoder().encode([
+      `GET ${url.pathname}${url.search} HTTP/1.1`,
+      `Host: ${url.host}`,
+      'Upgrade: websocket',
+      'Connection: Upgrade',
+      `Sec-WebSocket-Key: ${key}`,
+      'Sec-WebSocket-Version: 13',
+      ...(protocols.length > 0 ? [`Sec-WebSocket-Protocol: ${protocols.join(', ')}`] : []),
+      ...Object.entries(headers).map(([name, value]) => `${name}: ${value}`),
+      '',
+      '',
+    ].join('\r\n')));
+    await this.handshake(reader, key);
+    if (this.readyState !== CONNECTING) return;
+
+    this.readyState = OPEN;
+    this.onopen?.(new Event('open'));
+
+    let message: Uint8Array[] = [];
+    let messageOpcode = BINARY;
+    while (this.readyState !== CLOSED) {
+      const frame = await reader.readFrame();
+      if (!frame) break;
+
+      if (frame.opcode === PING) {
+        if (this.readyState === OPEN) this.write(encodeFrame(PONG, frame.payload));
+      } else if (frame.opcode === CLOSE) {
+        const code = frame.payload.length >= 2 ? (frame.payload[0] << 8) | frame.payload[1] : 1005;
+        if (this.readyState === OPEN) {
+          this.readyState = CLOSING;
+          this.write(encodeFrame(CLOSE, frame.payload.subarray(0, 2)));
+        }
+        await this.writes;
+        this.finish(code, true);
+        return;
+      } else if (frame.opcode !== PONG) {
+        if (frame.opcode !== CONTINUATION) {
+          messageOpcode = frame.opcode;
+          message = [];
+        }
+        message.push(frame.payload);
+        if (frame.fin) {
+          this.dispatch(messageOpcode, concat(message));
+          message = [];
+        }
+      }
+    }
+    this.finish(1006, false);
+  }
+
+  private async handshake(reader: ConnReader, key: string) {
+    const head = await reader.readHead();
+    if (!head) {
+      throw new Error('the API server closed the connection before accepting the WebSocket');
+    }
+    const [statusLine, ...lines] = head.split('\r\n');
+    const headers = new Map(lines.filter(Boolean).map((line): [string, string] => {
+      const colon = line.indexOf(':');
+      return [line.slice(0, colon).trim().toLowerCase(), line.slice(colon + 1).trim()];
+    }));
+
+    const status = Number(statusLine.split(' ')[1]);
+    if (status !== 101) {
+      // API server errors are a metav1.Status with a Content-Length
+      const length = Math.min(Number(headers.get('content-length') ?? 0), MAX_ERROR_BODY_BYTES);
+      const body = length > 0 ? await reader.readExact(length) : null;
+      throw new Error(`Kubernetes API error (${status})${body ? `: ${new TextDecoder().decode(body)}` : ''}`);
+    }
+    if (headers.get('sec-websocket-accept') !== await expectedAccept(key)) {
+      throw new Error('the API server answered the WebSocket handshake with the wrong Sec-WebSocket-Accept');
+    }
+  }
+
+  private dispatch(opcode: number, payload: Uint8Array) {
+    const data = opcode === TEXT
+      ? new TextDecoder().decode(payload)
+      : payload.buffer.slice(payload.byteOffset, payload.byteOffset + payload.length);
+    this.onmessage?.(new MessageEvent('message', { data }));
+  }
+
+  // Frames go out in order even when send() is called again before the last write finished
+  private write(bytes: Uint8Array) {
+    const conn = this.conn;
+    if (!conn) return;
+    this.writes = this.writes
+      .then(async () => {
+        for (let written = 0; written < bytes.length;) {
+          written += await conn.write(bytes.subarray(written));
+        }
+      })
+      .catch((error) => this.fail(error));
+  }
+
+  private fail(error: Error) {
+    if (this.readyState === CLOSED) return;
+    this.onerror?.(new ErrorEvent('error', { message: error.message, error }));
+    this.finish(1006, false);
+  }
+
+  private finish(code: number, wasClean: boolean) {
+    if (this.readyState === CLOSED) return;
+    this.readyState = CLOSED;
+    clearTimeout(this.closeTimer);
+    try {
+      this.conn?.close();
+    } catch {
+      // Already closed by the peer
+    }
+    this.onclose?.(new CloseEvent('close', { code, wasClean }));
+  }
+}
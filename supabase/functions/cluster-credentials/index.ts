@@ -0,0 +1,123 @@
+// Writes and exports cluster credentials on behalf of the browser, which can't read
+// cluster_credentials itself. The `rotate` action re-encrypts every row under the current key:
+//
+//   curl -X POST "$SUPABASE_URL/functions/v1/cluster-credentials" \
+//     -H "Authorization: Bearer $SUPABASE_SERVICE_ROLE_KEY" -d '{"action":"rotate"}'
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts"
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2.45.0'
+import { SECRET_FIELDS, loadCredentials, rotateCredentials, saveCredentials, type ClusterCredentials } from '../_shared/credentials.ts'
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+}
+
+type CredentialsRequest =
+  | { action: 'save'; clusterId: string; credentials: ClusterCredentials }
+  | { action: 'export'; clusterId: string; includeCredentials?: boolean }
+  | { action: 'rotate' };
+
+function json(body: unknown, status = 200): Response {
+  return new Response(
+    JSON.stringify(body),
+    {
+      status,
+      headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+    }
+  );
+}
+
+serve(async (req) => {
+  // Handle CORS preflight requests
+  if (req.method === 'OPTIONS') {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  try {
+    const authHeader = req.headers.get('Authorization');
+    if (!authHeader) {
+      throw new Error('No authorization header');
+    }
+
+    const request: CredentialsRequest = await req.json();
+
+    if (request.action === 'rotate') {
+      if (authHeader !== `Bearer ${Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')}`) {
+        return json({ success: false, error: 'Rotation requires the service role key' }, 403);
+      }
+      const rotated = await rotateCredentials();
+      return json({ success: true, output: `Re-encrypted credentials for ${rotated} cluster${rotated === 1 ? '' : 's'}` });
+    }
+
+    const supabase = createClient(
+      Deno.env.get('SUPABASE_URL') ?? '',
+      Deno.env.get('SUPABASE_ANON_KEY') ?? '',
+      {
+        auth: {
+          persistSession: false
+        },
+        global: {
+          headers: { Authorization: authHeader }
+        }
+      }
+    );
+
+    const { data: { user }, error: authError } = await supabase.auth.getUser(
+      authHeader.replace('Bearer ', '')
+    );
+
+    if (authError || !user) {
+      throw new Error('Invalid authentication');
+    }
+
+    // Ownership is checked through the user's own view of cluster_configs
+    const { data: cluster, error: clusterError } = await supabase
+      .from('cluster_configs')
+      .select('id, name, endpoint, namespace')
+      .eq('id', request.clusterId)
+      .eq('user_id', user.id)
+      .single();
+
+    if (clusterError) throw clusterError;
+
+    if (request.action === 'save') {
+      const changes: ClusterCredentials = {};
+      for (const field of SECRET_FIELDS) {
+        const value = request.credentials?.[field];
+        if (value !== undefined) changes[field] = value?.trim() || null;
+      }
+      const saved = await saveCredentials(cluster.id, user.id, changes);
+
+      // Record which kind of credential is in use so the browser can show it without reading it
+      const { error } = await supabase
+        .from('cluster_configs')
+        .update({ auth_method: saved.token ? 'token' : 'certificate' })
+        .eq('id', cluster.id);
+
+      if (error) throw error;
+      return json({ success: true });
+    }
+
+    if (request.action === 'export') {
+      // The CA is always exported; tokens and keys only when explicitly asked for
+      const { token, certificate_authority_data, client_certificate_data, client_key_data } = await loadCredentials(cluster.id);
+      return json({
+        success: true,
+        cluster: {
+          ...cluster,
+          certificate_authority_data,
+          ...(request.includeCredentials && { token, client_certificate_data, client_key_data })
+        }
+      });
+    }
+
+    return json({ success: false, error: 'Unknown action' }, 400);
+
+  } catch (error) {
+    console.error('Error in cluster-credentials function:', error);
+    return json({
+      success: false,
+      error: error.message || 'An unexpected error occurred'
+    }, 500);
+  }
+});
@@ -0,0 +1,129 @@
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts"
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2.45.0'
+import { probeCluster } from './probe.ts'
+import { withCredentials } from '../_shared/credentials.ts'
+import type { ClusterConnection } from '../_shared/kube.ts'
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+}
+
+// Connection settings from the cluster form; blank fields fall back to the saved row
+interface ClusterOverrides {
+  endpoint?: string;
+  namespace?: string;
+  token?: string;
+  certificate_authority_data?: string;
+  client_certificate_data?: string;
+  client_key_data?: string;
+}
+
+interface ProbeRequest {
+  clusterId?: string;
+  cluster?: ClusterOverrides;
+}
+
+serve(async (req) => {
+  // Handle CORS preflight requests
+  if (req.method === 'OPTIONS') {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  try {
+    const authHeader = req.headers.get('Authorization');
+    if (!authHeader) {
+      throw new Error('No authorization header');
+    }
+
+    const supabase = createClient(
+      Deno.env.get('SUPABASE_URL') ?? '',
+      Deno.env.get('SUPABASE_ANON_KEY') ?? '',
+      {
+        auth: {
+          persistSession: false
+        },
+        global: {
+          headers: { Authorization: authHeader }
+        }
+      }
+    );
+
+    const { data: { user }, error: authError } = await supabase.auth.getUser(
+      authHeader.replace('Bearer ', '')
+    );
+
+    if (authError || !user) {
+      throw new Error('Invalid authentication');
+    }
+
+    const { clusterId, cluster }: ProbeRequest = await req.json();
+    if (!clusterId && !cluster?.endpoint) {
+      throw new Error('Provide a saved clusterId or an endpoint to test');
+    }
+
+    let stored: Partial<ClusterConnection> = {};
+    if (clusterId) {
+      const { data, error } = await supabase
+        .from('cluster_configs')
+        .select('*')
+        .eq('id', clusterId)
+        .eq('user_id', user.id)
+        .single();
+
+      if (error) throw error;
+      stored = await withCredentials(data);
+    }
+
+    const overrides = Object.fromEntries(
+      Object.entries(cluster ?? {}).filter(([, value]) => typeof value === 'string' && value.trim() !== '')
+    );
+    // A new token replaces a stored client certificate and vice versa, mirroring how the form saves
+    if (overrides.token) {
+      overrides.client_certificate_data = overrides.client_key_data = null;
+    } else if (overrides.client_certificate_data) {
+      overrides.token = null;
+    }
+
+    // The check above guarantees an endpoint from one side or the other
+    const result = await probeCluster({ ...stored, ...overrides } as ClusterConnection);
+
+    // Only a probe of the saved settings describes the saved row
+    if (clusterId && Object.keys(overrides).length === 0) {
+      const { error } = await supabase
+        .from('cluster_configs')
+        .update({
+          server_version: result.serverVersion,
+          reachable: result.reachable,
+          ready: result.ready,
+          permissions: result.permissions,
+          probe_problems: result.problems,
+          probed_at: new Date().toISOString()
+        })
+        .eq('id', clusterId);
+
+      if (error) throw error;
+    }
+
+    return new Response(
+      JSON.stringify({ success: true, probe: result }),
+      {
+        status: 200,
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+      }
+    );
+
+  } catch (error) {
+    console.error('Error in cluster-probe function:', error);
+    return new Response(
+      JSON.stringify({
+        success: false,
+        error: error.message || 'An unexpected error occurred'
+      }),
+      {
+        status: 500,
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+      }
+    );
+  }
+});
@@ -0,0 +1,133 @@
+// Connectivity check for a cluster config: can we reach and trust the API server, is it ready,
+// and what are the credentials allowed to do in the cluster's default namespace.
+import { kubeFetch, type ClusterConnection } from '../_shared/kube.ts'
+
+export interface PolicyRule {
+  verbs: string[];
+  apiGroups?: string[];
+  resources?: string[];
+  resourceNames?: string[];
+}
+
+export interface ProbePermissions {
+  namespace: string;
+  resourceRules: PolicyRule[];
+  nonResourceRules: unknown[];
+  incomplete: boolean;
+}
+
+interface SelfSubjectRulesReviewStatus {
+  resourceRules?: PolicyRule[];
+  nonResourceRules?: unknown[];
+  incomplete?: boolean;
+  evaluationError?: string;
+}
+
+export interface ProbeResult {
+  reachable: boolean;
+  ready: boolean | null;
+  serverVersion: string | null;
+  permissions: ProbePermissions | null;
+  problems: string[];
+}
+
+// Deno surfaces rustls failures as plain errors; these are the ones a wrong or missing CA produces
+const TLS_ERROR = /certificate|UnknownIssuer|invalid peer|handshake|tls/i;
+
+function describeFetchError(endpoint: string, error: Error): string {
+  if (TLS_ERROR.test(error.message)) {
+    return `TLS verification failed for ${endpoint}: ${error.message}. Check that the CA certificate is the one that signed the API server's certificate.`;
+  }
+  return `Could not reach ${endpoint}: ${error.message}`;
+}
+
+function describeAuthFailure(clusterConfig: ClusterConnection, status: number): string {
+  if (status === 401) {
+    return clusterConfig.token
+      ? 'The API server rejected the token (401 Unauthorized). It may be expired, revoked or for a different cluster.'
+      : 'The API server rejected the client certificate (401 Unauthorized). It may be expired or signed by a CA the cluster does not trust.';
+  }
+  return `The credentials are not allowed to read the server version (${status} Forbidden).`;
+}
+
+function ruleAllows(rule: PolicyRule, verb: string, group: string, resource: string): boolean {
+  const matches = (values: string[] | undefined, value: string) => !!values && (values.includes('*') || values.includes(value));
+  return matches(rule.verbs, verb) && matches(rule.apiGroups, group) && matches(rule.resources, resource) && !rule.resourceNames?.length;
+}
+
+function canAccess(permissions: ProbePermissions, verb: string, group: string, resource: string): boolean {
+  return permissions.resourceRules.some((rule) => ruleAllows(rule, verb, group, resource));
+}
+
+async function checkReady(clusterConfig: ClusterConnection, problems: string[]): Promise<boolean | null> {
+  const response = await kubeFetch(clusterConfig, '/readyz?verbose');
+  const body = await response.text();
+  // Some clusters only expose /readyz to system:monitoring; that says nothing about readiness
+  if (response.status === 401 || response.status === 403 || response.status === 404) return null;
+  if (response.ok) return true;
+
+  const failing = body.split('\n').filter((line) => line.startsWith('[-]')).map((line) => line.slice(3).trim());
+  problems.push(`The API server reports it is not ready (${response.status})${failing.length ? `: ${failing.join(', ')}` : ''}`);
+  return false;
+}
+
+async function reviewPermissions(clusterConfig: ClusterConnection, namespace: string, problems: string[]): Promise<ProbePermissions | null> {
+  const response = await kubeFetch(clusterConfig, '/apis/authorization.k8s.io/v1/selfsubjectrulesreviews', {
+    method: 'POST',
+    body: JSON.stringify({
+      apiVersion: 'authorization.k8s.io/v1',
+      kind: 'SelfSubjectRulesReview',
+      spec: { namespace },
+    }),
+  });
+  if (!response.ok) {
+    problems.push(`Could not review the credentials' permissions (${response.status}): ${await response.text()}`);
+    return null;
+  }
+
+  const { status }: { status?: SelfSubjectRulesReviewStatus } = await response.json();
+  const permissions: ProbePermissions = {
+    namespace,
+    resourceRules: status?.resourceRules ?? [],
+    nonResourceRules: status?.nonResourceRules ?? [],
+    incomplete: Boolean(status?.incomplete),
+  };
+
+  if (!canAccess(permissions, 'list', '', 'pods')) {
+    problems.push(permissions.incomplete
+      ? `The permission review for namespace "${namespace}" is incomplete (${status?.evaluationError ?? 'the authorizer cannot enumerate rules'}); listing pods may still work.`
+      : `Forbidden in namespace "${namespace}": the credentials cannot list pods there. Pick a namespace they have access to or grant a Role.`);
+  }
+  return permissions;
+}
+
+export async function probeCluster(clusterConfig: ClusterConnection): Promise<ProbeResult> {
+  const namespace = clusterConfig.namespace || 'default';
+  const problems: string[] = [];
+  const result: ProbeResult = { reachable: false, ready: null, serverVersion: null, permissions: null, problems };
+
+  let versionResponse: Response;
+  try {
+    versionResponse = await kubeFetch(clusterConfig, '/version');
+  } catch (error) {
+    problems.push(describeFetchError(clusterConfig.endpoint, error));
+    return result;
+  }
+
+  result.reachable = true;
+  if (versionResponse.status === 401 || versionResponse.status === 403) {
+    await versionResponse.body?.cancel();
+    problems.push(describeAuthFailure(clusterConfig, versionResponse.status));
+    return result;
+  }
+  if (!versionResponse.ok) {
+    problems.push(`Unexpected response from ${clusterConfig.endpoint}/version (${versionResponse.status}); is this a Kubernetes API server?`);
+    await versionResponse.body?.cancel();
+    return result;
+  }
+  result.serverVersion = (await versionResponse.json()).gitVersion ?? null;
+
+  result.ready = await checkReady(clusterConfig, problems);
+  result.permissions = await reviewPermissions(clusterConfig, namespace, problems);
+  return result;
+}
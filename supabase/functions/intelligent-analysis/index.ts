@@ -32,11 +32,11 @@ serve(async (req) => {
 
     console.log('Starting intelligent analysis...');
 
-    // Get all active clusters
+    // Get all monitored clusters
     const { data: clusters, error: clustersError } = await supabase
       .from('cluster_configs')
       .select('*')
-      .eq('is_active', true);
+      .eq('is_monitored', true);
 
     if (clustersError) {
       throw clustersError;
@@ -44,7 +44,7 @@ serve(async (req) => {
 
     if (!clusters || clusters.length === 0) {
       return new Response(
-        JSON.stringify({ message: 'No active clusters to analyze' }),
+        JSON.stringify({ message: 'No monitored clusters to analyze' }),
         { 
           status: 200, 
           headers: { ...corsHeaders, 'Content-Type': 'application/json' } 
@@ -0,0 +1,98 @@
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts"
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2.45.0'
+import { watchCollection } from './watch.ts'
+import { withCredentials } from '../_shared/credentials.ts'
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+}
+
+// Namespaced core/v1 collections the dashboard keeps live
+const WATCHABLE_RESOURCES = ['pods', 'events'];
+
+interface WatchRequest {
+  clusterId: string;
+  resource: string;
+  // The tab's namespace; ignored when allNamespaces is set
+  namespace?: string;
+  allNamespaces?: boolean;
+  // Last version the browser applied, to resume after the previous stream ended
+  resourceVersion?: string;
+}
+
+serve(async (req) => {
+  // Handle CORS preflight requests
+  if (req.method === 'OPTIONS') {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  try {
+    const authHeader = req.headers.get('Authorization');
+    if (!authHeader) {
+      throw new Error('No authorization header');
+    }
+
+    const supabase = createClient(
+      Deno.env.get('SUPABASE_URL') ?? '',
+      Deno.env.get('SUPABASE_ANON_KEY') ?? '',
+      {
+        auth: {
+          persistSession: false
+        },
+        global: {
+          headers: { Authorization: authHeader }
+        }
+      }
+    );
+
+    const { data: { user }, error: authError } = await supabase.auth.getUser(
+      authHeader.replace('Bearer ', '')
+    );
+
+    if (authError || !user) {
+      throw new Error('Invalid authentication');
+    }
+
+    const { clusterId, resource, namespace, allNamespaces = false, resourceVersion }: WatchRequest = await req.json();
+    if (!WATCHABLE_RESOURCES.includes(resource)) {
+      throw new Error(`Cannot watch "${resource}"; supported resources are ${WATCHABLE_RESOURCES.join(', ')}`);
+    }
+
+    const { data, error } = await supabase
+      .from('cluster_configs')
+      .select('*')
+      .eq('id', clusterId)
+      .eq('user_id', user.id)
+      .single();
+
+    if (error) throw error;
+    const clusterConfig = await withCredentials(data);
+
+    const path = allNamespaces
+      ? `/api/v1/${resource}`
+      : `/api/v1/namespaces/${encodeURIComponent(namespace || clusterConfig.namespace || 'default')}/${resource}`;
+    console.log(`Watching ${path} on ${clusterConfig.name}${resourceVersion ? ` from ${resourceVersion}` : ''}`);
+
+    return new Response(watchCollection(clusterConfig, path, resourceVersion, req.signal), {
+      headers: {
+        ...corsHeaders,
+        'Content-Type': 'text/event-stream',
+        'Cache-Control': 'no-cache',
+      }
+    });
+
+  } catch (error) {
+    console.error('Error in kube-watch function:', error);
+    return new Response(
+      JSON.stringify({
+        success: false,
+        error: error.message || 'An unexpected error occurred'
+      }),
+      {
+        status: 500,
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+      }
+    );
+  }
+});
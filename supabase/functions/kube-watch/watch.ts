@@ -0,0 +1,130 @@
+// Relays a Kubernetes watch on a core/v1 collection to the browser as server-sent events:
+//   sync      {items, resourceVersion}  the full list; sent first, and again whenever a relist was needed
+//   change    {type, object}            one ADDED, MODIFIED or DELETED delta
+//   bookmark  {resourceVersion}         progress with nothing to report, so a reconnect resumes from here
+//   end       {resourceVersion}         the stream hit its lifetime; reconnect with this version
+//   error     message
+import { kubeFetch, kubeGetJson, type ClusterConnection } from '../_shared/kube.ts'
+import { sseEvent } from '../_shared/sse.ts'
+
+// Edge functions are stopped after a few minutes of wall clock, so streams end on their own
+// well before that and tell the browser where to resume
+const STREAM_LIFETIME_SECONDS = 120;
+
+// Objects are passed through untouched apart from their metadata
+interface WatchedObject {
+  metadata?: { resourceVersion?: string; managedFields?: unknown[] };
+  [field: string]: unknown;
+}
+
+interface WatchEvent {
+  type: 'ADDED' | 'MODIFIED' | 'DELETED' | 'BOOKMARK' | 'ERROR';
+  // A metav1.Status for ERROR events
+  object?: WatchedObject & { code?: number; message?: string };
+}
+
+// Neither the object nor the browser needs the server-side apply bookkeeping
+function trimObject(object: WatchedObject): WatchedObject {
+  if (!object?.metadata?.managedFields) return object;
+  const { managedFields: _managedFields, ...metadata } = object.metadata;
+  return { ...object, metadata };
+}
+
+// Reads one watch request until the API server closes it. Returns the last resourceVersion seen,
+// or null when that version is too old to resume from (410 Gone) and the caller must relist.
+async function watchOnce(
+  clusterConfig: ClusterConnection,
+  path: string,
+  resourceVersion: string,
+  timeoutSeconds: number,
+  signal: AbortSignal,
+  send: (event: string, data: unknown) => void
+): Promise<string | null> {
+  const query = new URLSearchParams({
+    watch: 'true',
+    resourceVersion,
+    allowWatchBookmarks: 'true',
+    timeoutSeconds: String(timeoutSeconds),
+  });
+  const response = await kubeFetch(clusterConfig, `${path}?${query}`, { signal });
+  if (response.status === 410) {
+    await response.body?.cancel();
+    return null;
+  }
+  if (!response.ok || !response.body) {
+    throw new Error(`Kubernetes API error (${response.status}): ${await response.text()}`);
+  }
+
+  const reader = response.body.pipeThrough(new TextDecoderStream()).getReader();
+  let buffer = '';
+  let latest = resourceVersion;
+  while (true) {
+    const { done, value } = await reader.read();
+    if (done) return latest;
+    buffer += value;
+    const lines = buffer.split('\n');
+    buffer = lines.pop() ?? '';
+
+    for (const line of lines) {
+      if (!line.trim()) continue;
+      const { type, object }: WatchEvent = JSON.parse(line);
+      if (type === 'ERROR') {
+        // Expired versions can also arrive in-band as a Status object
+        if (object?.code === 410) {
+          await reader.cancel();
+          return null;
+        }
+        throw new Error(object?.message || 'watch failed');
+      }
+
+      latest = object?.metadata?.resourceVersion ?? latest;
+      if (type === 'BOOKMARK') {
+        send('bookmark', { resourceVersion: latest });
+      } else {
+        send('change', { type, object: object && trimObject(object) });
+      }
+    }
+  }
+}
+
+// `path` is a collection such as /api/v1/namespaces/default/pods or /api/v1/pods.
+// Without a resourceVersion (or once it expires) the stream starts from a fresh list.
+export function watchCollection(clusterConfig: ClusterConnection, path: string, resourceVersion: string | undefined, signal: AbortSignal): ReadableStream<Uint8Array> {
+  const upstream = new AbortController();
+  signal.addEventListener('abort', () => upstream.abort());
+  const encoder = new TextEncoder();
+
+  return new ReadableStream<Uint8Array>({
+    async start(controller) {
+      const send = (event: string, data: unknown) => {
+        if (upstream.signal.aborted) return;
+        controller.enqueue(encoder.encode(sseEvent(event, typeof data === 'string' ? data : JSON.stringify(data))));
+      };
+      const deadline = Date.now() + STREAM_LIFETIME_SECONDS * 1000;
+      let latest: string | null = resourceVersion || null;
+
+      try {
+        while (!upstream.signal.aborted) {
+          if (!latest) {
+            const list = await kubeGetJson<{ metadata?: { resourceVersion?: string }; items?: WatchedObject[] }>(clusterConfig, path);
+            latest = list.metadata?.resourceVersion ?? '';
+            send('sync', { items: (list.items ?? []).map(trimObject), resourceVersion: latest });
+          }
+          const remaining = Math.floor((deadline - Date.now()) / 1000);
+          if (remaining <= 0) break;
+          latest = await watchOnce(clusterConfig, path, latest!, remaining, upstream.signal, send);
+        }
+        send('end', { resourceVersion: latest });
+      } catch (error) {
+        if (!upstream.signal.aborted) {
+          console.error(`Watch on ${path} failed:`, error);
+          send('error', error.message);
+        }
+      }
+      if (!upstream.signal.aborted) controller.close();
+    },
+    cancel() {
+      upstream.abort();
+    },
+  });
+}
@@ -0,0 +1,128 @@
+// `kubectl apply -f -` against a pasted manifest, using server-side apply for every object.
+import { parseAll } from 'https://deno.land/std@0.168.0/encoding/yaml.ts'
+import { getFlag, hasFlag, type ParsedCommand } from './parser.ts'
+import { getApiResources, resourcePath, type ApiResource } from './discovery.ts'
+import { kubeFetch, type ClusterConnection } from '../_shared/kube.ts'
+import { diffObjects, type ObjectDiff } from './diff.ts'
+import type { KubeObject } from './objects.ts'
+
+export const DEFAULT_FIELD_MANAGER = 'kube-tui-aid';
+
+// Split a multi-document YAML (or JSON) manifest into objects, flattening `kind: List`
+export function parseManifest(manifest: string): KubeObject[] {
+  let documents: unknown[];
+  try {
+    documents = parseAll(manifest) as unknown[];
+  } catch (error) {
+    throw new Error(`error parsing manifest: ${error.message}`);
+  }
+
+  const objects: KubeObject[] = [];
+  for (const document of documents) {
+    if (document === null || document === undefined) continue;
+    if (typeof document !== 'object' || Array.isArray(document)) {
+      throw new Error('error parsing manifest: every document must be a Kubernetes object');
+    }
+    const object = document as KubeObject;
+    if (object.kind === 'List' || (typeof object.kind === 'string' && object.kind.endsWith('List') && Array.isArray(object.items))) {
+      objects.push(...object.items as KubeObject[]);
+      continue;
+    }
+    if (!object.apiVersion || !object.kind || !object.metadata?.name) {
+      throw new Error('error validating manifest: apiVersion, kind and metadata.name are required on every object');
+    }
+    objects.push(object);
+  }
+
+  if (objects.length === 0) {
+    throw new Error('no objects passed to apply');
+  }
+  return objects;
+}
+
+function resourceForObject(resources: ApiResource[], object: KubeObject): ApiResource {
+  const resource = resources.find((r) =>
+    r.groupVersion === object.apiVersion && r.kind === object.kind && !r.name.includes('/')
+  );
+  if (!resource) {
+    throw new Error(`resource mapping not found for name: "${object.metadata.name}" namespace: "${object.metadata.namespace ?? ''}": no matches for kind "${object.kind}" in version "${object.apiVersion}"`);
+  }
+  return resource;
+}
+
+export async function runApply(parsed: ParsedCommand, manifest: string | undefined, clusterConfig: ClusterConnection, dryRun = false) {
+  const filename = getFlag(parsed, 'filename');
+  if (!filename) {
+    throw new Error('must specify -f - and paste the manifest to apply');
+  }
+  if (filename !== '-') {
+    throw new Error(`cannot read "${filename}": only -f - with a pasted manifest is supported`);
+  }
+  if (!manifest?.trim()) {
+    throw new Error('no manifest provided; paste the objects to apply');
+  }
+
+  const objects = parseManifest(manifest);
+  const resources = await getApiResources(clusterConfig);
+  const defaultNamespace = parsed.namespace || clusterConfig.namespace || 'default';
+  const query = new URLSearchParams({ fieldManager: getFlag(parsed, 'field-manager') ?? DEFAULT_FIELD_MANAGER });
+  if (hasFlag(parsed, 'force-conflicts')) query.set('force', 'true');
+  if (dryRun) query.set('dryRun', 'All');
+
+  const suffix = dryRun ? ' (server dry run)' : '';
+  const lines: string[] = [];
+  const failures: string[] = [];
+  const diff: ObjectDiff[] = [];
+
+  for (const object of objects) {
+    try {
+      const resource = resourceForObject(resources, object);
+      const namespace = resource.namespaced ? object.metadata.namespace || defaultNamespace : undefined;
+      if (resource.namespaced && parsed.namespace && object.metadata.namespace && object.metadata.namespace !== parsed.namespace) {
+        throw new Error(`the namespace from the provided object "${object.metadata.namespace}" does not match the namespace "${parsed.namespace}". You must pass '--namespace=${object.metadata.namespace}' to perform this operation.`);
+      }
+      const path = resourcePath(resource, namespace, object.metadata.name);
+      const target = `${[resource.singularName, resource.group].filter(Boolean).join('.')}/${object.metadata.name}`;
+
+      // Fetch the live object first so we can tell created / configured / unchanged apart
+      const existing = await kubeFetch(clusterConfig, path);
+      if (!existing.ok && existing.status !== 404) {
+        throw new Error(`Kubernetes API error (${existing.status}): ${await existing.text()}`);
+      }
+      let before: unknown = null;
+      if (existing.ok) {
+        before = await existing.json();
+      } else {
+        await existing.body?.cancel();
+      }
+
+      const response = await kubeFetch(clusterConfig, `${path}?${query}`, {
+        method: 'PATCH',
+        headers: { 'Content-Type': 'application/apply-patch+yaml' },
+        // JSON is valid YAML, so the object can go over as-is
+        body: JSON.stringify({ ...object, metadata: { ...object.metadata, ...(namespace && { namespace }) } }),
+      });
+      if (!response.ok) {
+        const errorText = await response.text();
+        throw new Error(response.status === 409
+          ? `Apply failed with conflicts for ${target}; re-run with --force-conflicts to take ownership: ${errorText}`
+          : `Kubernetes API error (${response.status}): ${errorText}`);
+      }
+      const after = await response.json();
+
+      const changes = before ? diffObjects(before, after) : [];
+      const result = !before ? 'created' : changes.length === 0 ? 'unchanged' : 'configured';
+      if (dryRun) {
+        diff.push({ target, action: before ? 'patch' : 'create', changes });
+      }
+      lines.push(`${target} ${result}${suffix}`);
+    } catch (error) {
+      failures.push(`error: ${error.message}`);
+    }
+  }
+
+  if (failures.length) {
+    return { success: false, error: [...lines, ...failures].join('\n'), ...(dryRun && { diff }) };
+  }
+  return { success: true, output: lines.join('\n') + '\n', ...(dryRun && { diff }) };
+}
@@ -0,0 +1,645 @@
+// kubectl-style `describe` output for the resources we debug most, with a generic fallback.
+import { decode as decodeBase64 } from 'https://deno.land/std@0.168.0/encoding/base64.ts'
+import { kubeGetJson, type ClusterConnection } from '../_shared/kube.ts'
+import { calculateAge } from './output.ts'
+import { formatMebibytes, formatMillicores, parseQuantity, percentOf } from '../_shared/quantity.ts'
+import type { ApiResource } from './discovery.ts'
+import type {
+  Condition,
+  Container,
+  ContainerState,
+  ContainerStatus,
+  Deployment,
+  DeploymentSpec,
+  DeploymentStatus,
+  Endpoints,
+  KubeEvent,
+  KubeNode,
+  KubeObject,
+  LabelSelector,
+  NodeSpec,
+  NodeStatus,
+  ObjectList,
+  ObjectMeta,
+  Pod,
+  PodSpec,
+  PodStatus,
+  PodTemplateSpec,
+  Probe,
+  ReplicaSet,
+  ReplicaSetSpec,
+  ReplicaSetStatus,
+  Secret,
+  Service,
+  ServiceSpec,
+  Toleration,
+  Volume,
+} from './objects.ts'
+
+const LAST_APPLIED_ANNOTATION = 'kubectl.kubernetes.io/last-applied-configuration';
+
+// Collects `Key: value` lines and aligns values the way kubectl's tabwriter does
+class DescribeWriter {
+  private lines: { level: number; key: string; value?: string }[] = [];
+
+  line(level: number, key: string, value?: string | number | boolean | null) {
+    this.lines.push({ level, key, value: value === undefined ? undefined : formatValue(value) });
+  }
+
+  // Multi-line values such as labels continue under the first value column
+  list(level: number, key: string, values: string[]) {
+    if (values.length === 0) {
+      this.line(level, key, '<none>');
+      return;
+    }
+    values.forEach((value, i) => this.line(level, i === 0 ? key : '', value));
+  }
+
+  raw(text: string) {
+    this.lines.push({ level: -1, key: text });
+  }
+
+  toString(): string {
+    const output: string[] = [];
+    let i = 0;
+    while (i < this.lines.length) {
+      const { level } = this.lines[i];
+      let j = i;
+      while (j < this.lines.length && this.lines[j].level === level && this.lines[j].value !== undefined) j++;
+
+      if (j === i) {
+        const entry = this.lines[i];
+        output.push(entry.level === -1 ? entry.key : `${'  '.repeat(entry.level)}${entry.key}:`);
+        i++;
+        continue;
+      }
+
+      const group = this.lines.slice(i, j);
+      const width = Math.max(...group.map((entry) => entry.key.length + 1)) + 2;
+      for (const entry of group) {
+        const label = entry.key ? `${entry.key}:` : '';
+        output.push(`${'  '.repeat(level)}${label.padEnd(width)}${entry.value}`.trimEnd());
+      }
+      i = j;
+    }
+    return output.join('\n') + '\n';
+  }
+}
+
+export async function describeObject(clusterConfig: ClusterConnection, resource: ApiResource, obj: KubeObject): Promise<string> {
+  const writer = new DescribeWriter();
+
+  switch (resource.group ? `${resource.kind}.${resource.group}` : resource.kind) {
+    case 'Pod':
+      describePod(writer, obj as Pod);
+      break;
+    case 'Deployment.apps':
+      await describeDeployment(clusterConfig, writer, obj as Deployment);
+      break;
+    case 'ReplicaSet.apps':
+      await describeReplicaSet(clusterConfig, writer, obj as ReplicaSet);
+      break;
+    case 'Node':
+      await describeNode(clusterConfig, writer, obj as KubeNode);
+      break;
+    case 'Service':
+      await describeService(clusterConfig, writer, obj as Service);
+      break;
+    case 'Secret':
+      describeSecret(writer, obj as Secret);
+      break;
+    default:
+      describeGeneric(writer, obj);
+  }
+
+  await writeEvents(clusterConfig, writer, obj);
+  return writer.toString();
+}
+
+function describePod(w: DescribeWriter, pod: Pod) {
+  const spec: PodSpec = pod.spec || {};
+  const status: PodStatus = pod.status || {};
+
+  w.line(0, 'Name', pod.metadata.name);
+  w.line(0, 'Namespace', pod.metadata.namespace);
+  w.line(0, 'Priority', spec.priority ?? 0);
+  if (spec.priorityClassName) w.line(0, 'Priority Class Name', spec.priorityClassName);
+  w.line(0, 'Service Account', spec.serviceAccountName || 'default');
+  w.line(0, 'Node', spec.nodeName ? `${spec.nodeName}/${status.hostIP || ''}` : '<none>');
+  w.line(0, 'Start Time', status.startTime ? formatTime(status.startTime) : '<none>');
+  writeMetadata(w, pod);
+  w.line(0, 'Status', pod.metadata.deletionTimestamp ? 'Terminating' : status.phase);
+  if (status.reason) w.line(0, 'Reason', status.reason);
+  if (status.message) w.line(0, 'Message', status.message);
+  w.line(0, 'IP', status.podIP || '<none>');
+  w.list(0, 'IPs', (status.podIPs || []).map((ip) => `IP:  ${ip.ip}`));
+  writeControlledBy(w, pod);
+
+  if (spec.initContainers?.length) {
+    w.line(0, 'Init Containers');
+    for (const container of spec.initContainers) {
+      writeContainer(w, container, (status.initContainerStatuses || []).find((s) => s.name === container.name));
+    }
+  }
+  w.line(0, 'Containers');
+  for (const container of spec.containers || []) {
+    writeContainer(w, container, (status.containerStatuses || []).find((s) => s.name === container.name));
+  }
+
+  writeConditions(w, status.conditions, ['type', 'status']);
+  writeVolumes(w, spec.volumes || []);
+  w.line(0, 'QoS Class', status.qosClass || '<none>');
+  w.list(0, 'Node-Selectors', formatMap(spec.nodeSelector));
+  w.list(0, 'Tolerations', (spec.tolerations || []).map(formatToleration));
+}
+
+function writeContainer(w: DescribeWriter, container: Container, status: ContainerStatus | undefined) {
+  w.line(1, container.name);
+  if (status?.containerID) w.line(2, 'Container ID', status.containerID);
+  w.line(2, 'Image', container.image);
+  if (status?.imageID) w.line(2, 'Image ID', status.imageID);
+  const ports = (container.ports || []).map((p) => `${p.containerPort}/${p.protocol || 'TCP'}`);
+  w.line(2, 'Port', ports.join(', ') || '<none>');
+  const hostPorts = (container.ports || []).map((p) => `${p.hostPort ?? 0}/${p.protocol || 'TCP'}`);
+  w.line(2, 'Host Port', hostPorts.join(', ') || '<none>');
+  if (container.command?.length) w.list(2, 'Command', container.command);
+  if (container.args?.length) w.list(2, 'Args', container.args);
+
+  if (status) {
+    writeContainerState(w, 'State', status.state);
+    if (status.lastState && Object.keys(status.lastState).length) {
+      writeContainerState(w, 'Last State', status.lastState);
+    }
+    w.line(2, 'Ready', status.ready ? 'True' : 'False');
+    w.line(2, 'Restart Count', status.restartCount ?? 0);
+  }
+
+  if (container.resources?.limits) {
+    w.line(2, 'Limits');
+    for (const [name, value] of Object.entries(container.resources.limits)) w.line(3, name, value);
+  }
+  if (container.resources?.requests) {
+    w.line(2, 'Requests');
+    for (const [name, value] of Object.entries(container.resources.requests)) w.line(3, name, value);
+  }
+  if (container.livenessProbe) w.line(2, 'Liveness', formatProbe(container.livenessProbe));
+  if (container.readinessProbe) w.line(2, 'Readiness', formatProbe(container.readinessProbe));
+  if (container.startupProbe) w.line(2, 'Startup', formatProbe(container.startupProbe));
+
+  const env = (container.env || []).map((e) => {
+    if (e.value !== undefined) return `${e.name}:  ${e.value}`;
+    const from = e.valueFrom || {};
+    if (from.secretKeyRef) return `${e.name}:  <set to the key '${from.secretKeyRef.key}' in secret '${from.secretKeyRef.name}'>`;
+    if (from.configMapKeyRef) return `${e.name}:  <set to the key '${from.configMapKeyRef.key}' of config map '${from.configMapKeyRef.name}'>`;
+    if (from.fieldRef) return `${e.name}:   (${from.fieldRef.apiVersion || 'v1'}:${from.fieldRef.fieldPath})`;
+    if (from.resourceFieldRef) return `${e.name}:  ${from.resourceFieldRef.resource}`;
+    return `${e.name}:`;
+  });
+  w.list(2, 'Environment', env);
+  w.list(2, 'Mounts', (container.volumeMounts || []).map((m) =>
+    `${m.mountPath} from ${m.name} (${m.readOnly ? 'ro' : 'rw'}${m.subPath ? `,path="${m.subPath}"` : ''})`
+  ));
+}
+
+function writeContainerState(w: DescribeWriter, label: string, state: ContainerState | undefined) {
+  if (state?.running) {
+    w.line(2, label, 'Running');
+    w.line(3, 'Started', formatTime(state.running.startedAt));
+  } else if (state?.waiting) {
+    w.line(2, label, 'Waiting');
+    w.line(3, 'Reason', state.waiting.reason || '');
+    if (state.waiting.message) w.line(3, 'Message', state.waiting.message);
+  } else if (state?.terminated) {
+    w.line(2, label, 'Terminated');
+    w.line(3, 'Reason', state.terminated.reason || '');
+    if (state.terminated.message) w.line(3, 'Message', state.terminated.message);
+    w.line(3, 'Exit Code', state.terminated.exitCode);
+    if (state.terminated.signal) w.line(3, 'Signal', state.terminated.signal);
+    w.line(3, 'Started', formatTime(state.terminated.startedAt));
+    w.line(3, 'Finished', formatTime(state.terminated.finishedAt));
+  } else {
+    w.line(2, label, 'Waiting');
+  }
+}
+
+function writeVolumes(w: DescribeWriter, volumes: Volume[]) {
+  if (volumes.length === 0) {
+    w.line(0, 'Volumes', '<none>');
+    return;
+  }
+  w.line(0, 'Volumes');
+  for (const volume of volumes) {
+    w.line(1, volume.name);
+    if (volume.configMap) {
+      w.line(2, 'Type', 'ConfigMap (a volume populated by a ConfigMap)');
+      w.line(2, 'Name', volume.configMap.name);
+      w.line(2, 'Optional', volume.configMap.optional ?? false);
+    } else if (volume.secret) {
+      w.line(2, 'Type', 'Secret (a volume populated by a Secret)');
+      w.line(2, 'SecretName', volume.secret.secretName);
+      w.line(2, 'Optional', volume.secret.optional ?? false);
+    } else if (volume.persistentVolumeClaim) {
+      w.line(2, 'Type', 'PersistentVolumeClaim (a reference to a PersistentVolumeClaim in the same namespace)');
+      w.line(2, 'ClaimName', volume.persistentVolumeClaim.claimName);
+      w.line(2, 'ReadOnly', volume.persistentVolumeClaim.readOnly ?? false);
+    } else if (volume.emptyDir) {
+      w.line(2, 'Type', "EmptyDir (a temporary directory that shares a pod's lifetime)");
+      w.line(2, 'Medium', volume.emptyDir.medium || '');
+      w.line(2, 'SizeLimit', volume.emptyDir.sizeLimit || '<unset>');
+    } else if (volume.hostPath) {
+      w.line(2, 'Type', 'HostPath (bare host directory volume)');
+      w.line(2, 'Path', volume.hostPath.path);
+      w.line(2, 'HostPathType', volume.hostPath.type || '');
+    } else if (volume.projected) {
+      w.line(2, 'Type', 'Projected (a volume that contains injected data from multiple sources)');
+      for (const source of volume.projected.sources || []) {
+        if (source.serviceAccountToken) {
+          w.line(2, 'TokenExpirationSeconds', source.serviceAccountToken.expirationSeconds ?? 3607);
+        } else if (source.configMap) {
+          w.line(2, 'ConfigMapName', source.configMap.name);
+        } else if (source.secret) {
+          w.line(2, 'SecretName', source.secret.name);
+        } else if (source.downwardAPI) {
+          w.line(2, 'DownwardAPI', 'true');
+        }
+      }
+    } else {
+      const type = Object.keys(volume).find((key) => key !== 'name');
+      w.line(2, 'Type', type ?? '<unknown>');
+    }
+  }
+}
+
+async function describeDeployment(clusterConfig: ClusterConnection, w: DescribeWriter, deployment: Deployment) {
+  const spec: DeploymentSpec = deployment.spec || {};
+  const status: DeploymentStatus = deployment.status || {};
+
+  w.line(0, 'Name', deployment.metadata.name);
+  w.line(0, 'Namespace', deployment.metadata.namespace);
+  w.line(0, 'CreationTimestamp', formatTime(deployment.metadata.creationTimestamp));
+  writeMetadata(w, deployment);
+  w.line(0, 'Selector', formatSelector(spec.selector));
+  w.line(0, 'Replicas', `${spec.replicas ?? 0} desired | ${status.updatedReplicas ?? 0} updated | ${status.replicas ?? 0} total | ${status.availableReplicas ?? 0} available | ${status.unavailableReplicas ?? 0} unavailable`);
+  w.line(0, 'StrategyType', spec.strategy?.type || 'RollingUpdate');
+  w.line(0, 'MinReadySeconds', spec.minReadySeconds ?? 0);
+  if (spec.strategy?.rollingUpdate) {
+    w.line(0, 'RollingUpdateStrategy', `${spec.strategy.rollingUpdate.maxUnavailable ?? '25%'} max unavailable, ${spec.strategy.rollingUpdate.maxSurge ?? '25%'} max surge`);
+  }
+  writePodTemplate(w, spec.template);
+  writeConditions(w, status.conditions, ['type', 'status', 'reason']);
+
+  const replicaSets = await listOwned<ReplicaSet>(clusterConfig, `/apis/apps/v1/namespaces/${deployment.metadata.namespace}/replicasets`, spec.selector, deployment.metadata.uid);
+  const revision = deployment.metadata.annotations?.['deployment.kubernetes.io/revision'];
+  const current = replicaSets.find((rs) => rs.metadata.annotations?.['deployment.kubernetes.io/revision'] === revision);
+  const old = replicaSets.filter((rs) => rs !== current && (rs.spec?.replicas ?? 0) > 0);
+  const describeRs = (rs: ReplicaSet) => `${rs.metadata.name} (${rs.status?.replicas ?? 0}/${rs.spec?.replicas ?? 0} replicas created)`;
+  w.line(0, 'OldReplicaSets', old.length ? old.map(describeRs).join(', ') : '<none>');
+  w.line(0, 'NewReplicaSet', current ? describeRs(current) : '<none>');
+}
+
+async function describeReplicaSet(clusterConfig: ClusterConnection, w: DescribeWriter, replicaSet: ReplicaSet) {
+  const spec: ReplicaSetSpec = replicaSet.spec || {};
+  const status: ReplicaSetStatus = replicaSet.status || {};
+
+  w.line(0, 'Name', replicaSet.metadata.name);
+  w.line(0, 'Namespace', replicaSet.metadata.namespace);
+  w.line(0, 'Selector', formatSelector(spec.selector));
+  writeMetadata(w, replicaSet);
+  writeControlledBy(w, replicaSet);
+  w.line(0, 'Replicas', `${status.replicas ?? 0} current / ${spec.replicas ?? 0} desired`);
+
+  const pods = await listOwned<Pod>(clusterConfig, `/api/v1/namespaces/${replicaSet.metadata.namespace}/pods`, spec.selector, replicaSet.metadata.uid);
+  const phaseCount = (phase: string) => pods.filter((pod) => pod.status?.phase === phase).length;
+  w.line(0, 'Pods Status', `${phaseCount('Running')} Running / ${phaseCount('Pending')} Waiting / ${phaseCount('Succeeded')} Succeeded / ${phaseCount('Failed')} Failed`);
+  writePodTemplate(w, spec.template);
+  writeConditions(w, status.conditions, ['type', 'status', 'reason']);
+}
+
+async function describeNode(clusterConfig: ClusterConnection, w: DescribeWriter, node: KubeNode) {
+  const spec: NodeSpec = node.spec || {};
+  const status: NodeStatus = node.status || {};
+  const labels = node.metadata.labels || {};
+  const roles = Object.keys(labels)
+    .filter((key) => key.startsWith('node-role.kubernetes.io/'))
+    .map((key) => key.slice('node-role.kubernetes.io/'.length));
+
+  w.line(0, 'Name', node.metadata.name);
+  w.line(0, 'Roles', roles.join(',') || '<none>');
+  writeMetadata(w, node);
+  w.line(0, 'CreationTimestamp', formatTime(node.metadata.creationTimestamp));
+  w.list(0, 'Taints', (spec.taints || []).map((t) => `${t.key}${t.value ? `=${t.value}` : ''}:${t.effect}`));
+  w.line(0, 'Unschedulable', spec.unschedulable ?? false);
+  writeConditions(w, status.conditions, ['type', 'status', 'lastHeartbeatTime', 'lastTransitionTime', 'reason', 'message']);
+
+  w.line(0, 'Addresses');
+  for (const address of status.addresses || []) w.line(1, address.type, address.address);
+  for (const [label, values] of [['Capacity', status.capacity], ['Allocatable', status.allocatable]] as const) {
+    w.line(0, label);
+    for (const [name, value] of Object.entries(values || {})) w.line(1, name, value);
+  }
+  if (status.nodeInfo) {
+    w.line(0, 'System Info');
+    const info = status.nodeInfo;
+    w.line(1, 'Machine ID', info.machineID);
+    w.line(1, 'System UUID', info.systemUUID);
+    w.line(1, 'Boot ID', info.bootID);
+    w.line(1, 'Kernel Version', info.kernelVersion);
+    w.line(1, 'OS Image', info.osImage);
+    w.line(1, 'Operating System', info.operatingSystem);
+    w.line(1, 'Architecture', info.architecture);
+    w.line(1, 'Container Runtime Version', info.containerRuntimeVersion);
+    w.line(1, 'Kubelet Version', info.kubeletVersion);
+    w.line(1, 'Kube-Proxy Version', info.kubeProxyVersion);
+  }
+  w.line(0, 'PodCIDR', spec.podCIDR || '<none>');
+  if (spec.providerID) w.line(0, 'ProviderID', spec.providerID);
+
+  const pods = await kubeGetJson<ObjectList<Pod>>(
+    clusterConfig,
+    `/api/v1/pods?fieldSelector=${encodeURIComponent(`spec.nodeName=${node.metadata.name},status.phase!=Succeeded,status.phase!=Failed`)}`
+  );
+  const allocatable = status.allocatable || {};
+  const totals = { cpuRequests: 0, cpuLimits: 0, memoryRequests: 0, memoryLimits: 0 };
+  const podRows = (pods.items || []).map((pod) => {
+    const usage = podResourceTotals(pod);
+    totals.cpuRequests += usage.cpuRequests;
+    totals.cpuLimits += usage.cpuLimits;
+    totals.memoryRequests += usage.memoryRequests;
+    totals.memoryLimits += usage.memoryLimits;
+    return [
+      pod.metadata.namespace ?? '',
+      pod.metadata.name,
+      `${formatMillicores(usage.cpuRequests)} (${percentOf(usage.cpuRequests, parseQuantity(allocatable.cpu))}%)`,
+      `${formatMillicores(usage.cpuLimits)} (${percentOf(usage.cpuLimits, parseQuantity(allocatable.cpu))}%)`,
+      `${formatMebibytes(usage.memoryRequests)} (${percentOf(usage.memoryRequests, parseQuantity(allocatable.memory))}%)`,
+      `${formatMebibytes(usage.memoryLimits)} (${percentOf(usage.memoryLimits, parseQuantity(allocatable.memory))}%)`,
+      calculateAge(pod.metadata.creationTimestamp),
+    ];
+  });
+
+  w.raw(`Non-terminated Pods:          (${podRows.length} in total)`);
+  writeTable(w, ['Namespace', 'Name', 'CPU Requests', 'CPU Limits', 'Memory Requests', 'Memory Limits', 'Age'], podRows);
+  w.raw('Allocated resources:');
+  w.raw('  (Total limits may be over 100 percent, i.e., overcommitted.)');
+  writeTable(w, ['Resource', 'Requests', 'Limits'], [
+    ['cpu', `${formatMillicores(totals.cpuRequests)} (${percentOf(totals.cpuRequests, parseQuantity(allocatable.cpu))}%)`, `${formatMillicores(totals.cpuLimits)} (${percentOf(totals.cpuLimits, parseQuantity(allocatable.cpu))}%)`],
+    ['memory', `${formatMebibytes(totals.memoryRequests)} (${percentOf(totals.memoryRequests, parseQuantity(allocatable.memory))}%)`, `${formatMebibytes(totals.memoryLimits)} (${percentOf(totals.memoryLimits, parseQuantity(allocatable.memory))}%)`],
+  ]);
+}
+
+async function describeService(clusterConfig: ClusterConnection, w: DescribeWriter, service: Service) {
+  const spec: ServiceSpec = service.spec || {};
+
+  w.line(0, 'Name', service.metadata.name);
+  w.line(0, 'Namespace', service.metadata.namespace);
+  writeMetadata(w, service);
+  w.line(0, 'Selector', formatMap(spec.selector).join(',') || '<none>');
+  w.line(0, 'Type', spec.type);
+  if (spec.ipFamilyPolicy) w.line(0, 'IP Family Policy', spec.ipFamilyPolicy);
+  if (spec.ipFamilies) w.line(0, 'IP Families', spec.ipFamilies.join(','));
+  w.line(0, 'IP', spec.clusterIP || '<none>');
+  w.line(0, 'IPs', (spec.clusterIPs || []).join(',') || '<none>');
+  if (spec.externalIPs?.length) w.line(0, 'External IPs', spec.externalIPs.join(','));
+  const ingress = service.status?.loadBalancer?.ingress || [];
+  if (ingress.length) w.line(0, 'LoadBalancer Ingress', ingress.map((i) => i.ip || i.hostname).join(', '));
+  if (spec.externalName) w.line(0, 'External Name', spec.externalName);
+
+  let endpoints: Endpoints | null = null;
+  try {
+    endpoints = await kubeGetJson<Endpoints>(clusterConfig, `/api/v1/namespaces/${service.metadata.namespace}/endpoints/${service.metadata.name}`);
+  } catch {
+    // No Endpoints object for services without a selector is normal
+  }
+
+  for (const port of spec.ports || []) {
+    const name = port.name || '<unset>';
+    w.line(0, 'Port', `${name}  ${port.port}/${port.protocol || 'TCP'}`);
+    w.line(0, 'TargetPort', `${port.targetPort ?? port.port}/${port.protocol || 'TCP'}`);
+    if (port.nodePort) w.line(0, 'NodePort', `${name}  ${port.nodePort}/${port.protocol || 'TCP'}`);
+    const addresses = (endpoints?.subsets || [])
+      .filter((subset) => (subset.ports || []).some((p) => (p.name || '') === (port.name || '')))
+      .flatMap((subset) => {
+        const endpointPort = subset.ports?.find((p) => (p.name || '') === (port.name || ''))?.port;
+        return (subset.addresses || []).map((address) => `${address.ip}:${endpointPort}`);
+      });
+    w.line(0, 'Endpoints', addresses.join(',') || '<none>');
+  }
+  w.line(0, 'Session Affinity', spec.sessionAffinity || 'None');
+  if (spec.externalTrafficPolicy) w.line(0, 'External Traffic Policy', spec.externalTrafficPolicy);
+  if (spec.internalTrafficPolicy) w.line(0, 'Internal Traffic Policy', spec.internalTrafficPolicy);
+}
+
+// Describe output is stored in kubectl_logs, so like kubectl this shows key names and sizes, never values
+function describeSecret(w: DescribeWriter, secret: Secret) {
+  w.line(0, 'Name', secret.metadata.name);
+  w.line(0, 'Namespace', secret.metadata.namespace);
+  writeMetadata(w, secret);
+  w.raw('');
+  w.line(0, 'Type', secret.type || 'Opaque');
+  w.raw('');
+  w.raw('Data');
+  w.raw('====');
+  const sizes: [string, number][] = [
+    ...Object.entries(secret.data || {}).map(([key, value]): [string, number] => [key, decodeBase64(value).length]),
+    ...Object.entries(secret.stringData || {}).map(([key, value]): [string, number] => [key, new TextEncoder().encode(value).length]),
+  ];
+  for (const [key, size] of sizes.sort(([a], [b]) => a.localeCompare(b))) {
+    w.line(0, key, `${size} bytes`);
+  }
+}
+
+// Anything without a dedicated describer prints its metadata followed by spec/status as nested fields
+function describeGeneric(w: DescribeWriter, obj: KubeObject) {
+  w.line(0, 'Name', obj.metadata.name);
+  if (obj.metadata.namespace) w.line(0, 'Namespace', obj.metadata.namespace);
+  writeMetadata(w, obj);
+  w.line(0, 'API Version', obj.apiVersion);
+  w.line(0, 'Kind', obj.kind);
+  for (const [key, value] of Object.entries(obj)) {
+    if (['apiVersion', 'kind', 'metadata'].includes(key)) continue;
+    writeNested(w, 0, capitalize(key), value);
+  }
+}
+
+function writeNested(w: DescribeWriter, level: number, key: string, value: unknown) {
+  if (Array.isArray(value)) {
+    w.line(level, key);
+    value.forEach((item: unknown) => {
+      if (item !== null && typeof item === 'object') {
+        Object.entries(item).forEach(([k, v]) => writeNested(w, level + 1, capitalize(k), v));
+      } else {
+        w.line(level + 1, '', scalar(item));
+      }
+    });
+  } else if (value !== null && typeof value === 'object') {
+    w.line(level, key);
+    Object.entries(value).forEach(([k, v]) => writeNested(w, level + 1, capitalize(k), v));
+  } else {
+    w.line(level, key, scalar(value));
+  }
+}
+
+// JSON leaves are strings, numbers, booleans or null
+function scalar(value: unknown): string | number | boolean | null {
+  return typeof value === 'string' || typeof value === 'number' || typeof value === 'boolean' ? value : null;
+}
+
+function writePodTemplate(w: DescribeWriter, template: PodTemplateSpec | undefined) {
+  if (!template) return;
+  w.line(0, 'Pod Template');
+  w.list(1, 'Labels', formatMap(template.metadata?.labels));
+  if (template.metadata?.annotations) w.list(1, 'Annotations', formatMap(template.metadata.annotations));
+  if (template.spec?.serviceAccountName) w.line(1, 'Service Account', template.spec.serviceAccountName);
+  w.line(1, 'Containers');
+  for (const container of template.spec?.containers || []) {
+    w.line(2, container.name);
+    w.line(3, 'Image', container.image);
+    w.line(3, 'Port', (container.ports || []).map((p) => `${p.containerPort}/${p.protocol || 'TCP'}`).join(', ') || '<none>');
+    if (container.resources?.limits) w.line(3, 'Limits', formatMap(container.resources.limits).join(', '));
+    if (container.resources?.requests) w.line(3, 'Requests', formatMap(container.resources.requests).join(', '));
+    w.list(3, 'Environment', (container.env || []).map((e) => `${e.name}:  ${e.value ?? '<set from source>'}`));
+    w.list(3, 'Mounts', (container.volumeMounts || []).map((m) => `${m.mountPath} from ${m.name} (${m.readOnly ? 'ro' : 'rw'})`));
+  }
+  w.list(1, 'Volumes', (template.spec?.volumes || []).map((v) => v.name));
+  if (template.spec?.nodeSelector) w.list(1, 'Node-Selectors', formatMap(template.spec.nodeSelector));
+  if (template.spec?.tolerations) w.list(1, 'Tolerations', template.spec.tolerations.map(formatToleration));
+}
+
+// kubectl leaves out the last-applied-configuration annotation: it repeats the whole object,
+// including a Secret's data
+function writeMetadata(w: DescribeWriter, obj: { metadata: ObjectMeta }) {
+  const { [LAST_APPLIED_ANNOTATION]: _lastApplied, ...annotations } = obj.metadata.annotations || {};
+  w.list(0, 'Labels', formatMap(obj.metadata.labels));
+  w.list(0, 'Annotations', formatMap(annotations));
+}
+
+function writeControlledBy(w: DescribeWriter, obj: { metadata: ObjectMeta }) {
+  const owner = (obj.metadata.ownerReferences || []).find((ref) => ref.controller);
+  if (owner) w.line(0, 'Controlled By', `${owner.kind}/${owner.name}`);
+}
+
+function writeConditions(w: DescribeWriter, conditions: Condition[] | undefined, fields: (keyof Condition)[]) {
+  if (!conditions?.length) return;
+  w.raw('Conditions:');
+  writeTable(w, fields.map(capitalize), conditions.map((condition) => fields.map((field) =>
+    field.endsWith('Time') && condition[field] ? formatTime(condition[field]) : String(condition[field] ?? '')
+  )));
+}
+
+function writeTable(w: DescribeWriter, header: string[], rows: string[][]) {
+  const all = [header, header.map((h) => '-'.repeat(h.length)), ...rows];
+  const widths = header.map((_, i) => Math.max(...all.map((row) => (row[i] ?? '').length)));
+  for (const row of all) {
+    w.raw(`  ${row.map((cell, i) => (cell ?? '').padEnd(widths[i])).join('  ').trimEnd()}`);
+  }
+}
+
+async function writeEvents(clusterConfig: ClusterConnection, w: DescribeWriter, obj: KubeObject) {
+  const namespace = obj.metadata.namespace;
+  const selector = encodeURIComponent(`involvedObject.uid=${obj.metadata.uid}`);
+  const path = namespace
+    ? `/api/v1/namespaces/${namespace}/events?fieldSelector=${selector}`
+    : `/api/v1/events?fieldSelector=${selector}`;
+
+  let events: KubeEvent[] = [];
+  try {
+    events = (await kubeGetJson<ObjectList<KubeEvent>>(clusterConfig, path)).items || [];
+  } catch (error) {
+    console.error('Error fetching events for describe:', error);
+    w.raw(`Events:  <unable to fetch events: ${error.message}>`);
+    return;
+  }
+
+  if (events.length === 0) {
+    w.raw('Events:  <none>');
+    return;
+  }
+
+  const lastSeen = (event: KubeEvent) => event.lastTimestamp || event.eventTime || event.metadata.creationTimestamp;
+  events.sort((a, b) => new Date(lastSeen(a)).getTime() - new Date(lastSeen(b)).getTime());
+
+  w.raw('Events:');
+  writeTable(w, ['Type', 'Reason', 'Age', 'From', 'Message'], events.map((event) => {
+    const count = event.count ?? event.series?.count ?? 1;
+    const first = event.firstTimestamp || event.eventTime || event.metadata.creationTimestamp;
+    const age = count > 1
+      ? `${calculateAge(lastSeen(event))} (x${count} over ${calculateAge(first)})`
+      : calculateAge(lastSeen(event));
+    return [
+      event.type || '',
+      event.reason || '',
+      age,
+      event.source?.component || event.reportingComponent || '',
+      (event.message || '').trim(),
+    ];
+  }));
+}
+
+async function listOwned<T extends { metadata: ObjectMeta }>(
+  clusterConfig: ClusterConnection,
+  path: string,
+  selector: LabelSelector | undefined,
+  ownerUid: string | undefined
+): Promise<T[]> {
+  const labelSelector = formatMap(selector?.matchLabels).join(',');
+  const list = await kubeGetJson<ObjectList<T>>(clusterConfig, labelSelector ? `${path}?labelSelector=${encodeURIComponent(labelSelector)}` : path);
+  return (list.items || []).filter((item) =>
+    (item.metadata.ownerReferences || []).some((ref) => ref.uid === ownerUid)
+  );
+}
+
+export function podResourceTotals(pod: Pod) {
+  const totals = { cpuRequests: 0, cpuLimits: 0, memoryRequests: 0, memoryLimits: 0 };
+  for (const container of pod.spec?.containers || []) {
+    totals.cpuRequests += parseQuantity(container.resources?.requests?.cpu);
+    totals.cpuLimits += parseQuantity(container.resources?.limits?.cpu);
+    totals.memoryRequests += parseQuantity(container.resources?.requests?.memory);
+    totals.memoryLimits += parseQuantity(container.resources?.limits?.memory);
+  }
+  return totals;
+}
+
+function formatProbe(probe: Probe): string {
+  let action = 'unknown';
+  if (probe.httpGet) {
+    action = `http-get ${probe.httpGet.scheme === 'HTTPS' ? 'https' : 'http'}://${probe.httpGet.host || ''}:${probe.httpGet.port}${probe.httpGet.path || ''}`;
+  } else if (probe.tcpSocket) {
+    action = `tcp-socket :${probe.tcpSocket.port}`;
+  } else if (probe.exec) {
+    action = `exec [${(probe.exec.command || []).join(' ')}]`;
+  } else if (probe.grpc) {
+    action = `grpc <pod>:${probe.grpc.port} ${probe.grpc.service || ''}`.trim();
+  }
+  return `${action} delay=${probe.initialDelaySeconds ?? 0}s timeout=${probe.timeoutSeconds ?? 1}s period=${probe.periodSeconds ?? 10}s #success=${probe.successThreshold ?? 1} #failure=${probe.failureThreshold ?? 3}`;
+}
+
+function formatToleration(t: Toleration): string {
+  const base = t.key ? `${t.key}${t.operator === 'Exists' ? '' : `=${t.value ?? ''}`}` : '';
+  const effect = t.effect ? `:${t.effect}` : '';
+  const seconds = t.tolerationSeconds !== undefined ? ` for ${t.tolerationSeconds}s` : '';
+  return `${base}${effect}${seconds}` || `op=${t.operator}`;
+}
+
+function formatSelector(selector: LabelSelector | undefined): string {
+  const labels = formatMap(selector?.matchLabels);
+  const expressions = (selector?.matchExpressions || []).map((e) =>
+    e.operator === 'Exists' ? e.key : e.operator === 'DoesNotExist' ? `!${e.key}` : `${e.key} ${e.operator.toLowerCase()} (${(e.values || []).join(',')})`
+  );
+  return [...labels, ...expressions].join(',') || '<none>';
+}
+
+function formatMap(map?: Record<string, string>): string[] {
+  return Object.entries(map || {}).map(([key, value]) => `${key}=${value}`);
+}
+
+function formatTime(timestamp?: string): string {
+  return timestamp ? new Date(timestamp).toUTCString().replace('GMT', '+0000') : '<unknown>';
+}
+
+function formatValue(value: string | number | boolean | null): string {
+  return value === null ? '<nil>' : String(value);
+}
+
+function capitalize(key: string): string {
+  return key.charAt(0).toUpperCase() + key.slice(1);
+}
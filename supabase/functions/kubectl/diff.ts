@@ -0,0 +1,44 @@
+// Field-level diff between two versions of an object, used to preview dry-run writes.
+
+export interface FieldChange {
+  path: string;
+  before?: unknown;
+  after?: unknown;
+}
+
+export interface ObjectDiff {
+  target: string;
+  action: 'patch' | 'delete' | 'evict' | 'create';
+  changes: FieldChange[];
+}
+
+// Fields the API server rewrites on every write; showing them would bury the real change
+const IGNORED_PATHS = new Set([
+  'metadata.resourceVersion',
+  'metadata.generation',
+  'metadata.managedFields',
+]);
+
+export function diffObjects(before: unknown, after: unknown, path = ''): FieldChange[] {
+  if (IGNORED_PATHS.has(path)) return [];
+  if (JSON.stringify(before) === JSON.stringify(after)) return [];
+
+  if (isPlainObject(before) && isPlainObject(after)) {
+    const keys = [...new Set([...Object.keys(before), ...Object.keys(after)])].sort();
+    return keys.flatMap((key) => diffObjects(before[key], after[key], path ? `${path}.${key}` : key));
+  }
+
+  if (Array.isArray(before) && Array.isArray(after) && before.length === after.length) {
+    return before.flatMap((item, i) => diffObjects(item, after[i], `${path}[${i}]`));
+  }
+
+  return [{
+    path: path || '.',
+    ...(before !== undefined && { before }),
+    ...(after !== undefined && { after }),
+  }];
+}
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return value !== null && typeof value === 'object' && !Array.isArray(value);
+}
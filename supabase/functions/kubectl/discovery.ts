@@ -0,0 +1,129 @@
+// API discovery: maps whatever the user typed (pods, po, sts, deployments.apps, a CRD plural...)
+// onto the REST path the API server expects.
+import { kubeGetJson, type ClusterConnection } from '../_shared/kube.ts';
+
+export interface ApiResource {
+  group: string;
+  version: string;
+  groupVersion: string;
+  name: string;
+  singularName: string;
+  kind: string;
+  namespaced: boolean;
+  shortNames: string[];
+  verbs: string[];
+}
+
+interface APIGroupList {
+  groups?: {
+    name: string;
+    versions: { groupVersion: string; version: string }[];
+    preferredVersion?: { groupVersion: string; version: string };
+  }[];
+}
+
+interface APIResourceList {
+  resources?: {
+    name: string;
+    singularName?: string;
+    kind: string;
+    namespaced: boolean;
+    shortNames?: string[];
+    verbs?: string[];
+  }[];
+}
+
+const DISCOVERY_TTL_MS = 10 * 60 * 1000;
+
+// Keyed by cluster row id + updated_at so editing a cluster invalidates its entry
+const discoveryCache = new Map<string, { expiresAt: number; resources: ApiResource[] }>();
+
+export async function getApiResources(clusterConfig: ClusterConnection): Promise<ApiResource[]> {
+  const cacheKey = `${clusterConfig.id}:${clusterConfig.updated_at}`;
+  const cached = discoveryCache.get(cacheKey);
+  if (cached && cached.expiresAt > Date.now()) {
+    return cached.resources;
+  }
+
+  const [core, apis] = await Promise.all([
+    kubeGetJson<{ versions?: string[] }>(clusterConfig, '/api'),
+    kubeGetJson<APIGroupList>(clusterConfig, '/apis'),
+  ]);
+
+  // Core group first, then named groups in the order the server lists them (which is its priority order)
+  const groupVersions: { group: string; version: string; path: string }[] = [
+    ...(core.versions || []).map((version: string) => ({ group: '', version, path: `/api/${version}` })),
+    ...(apis.groups || []).map((g) => ({
+      group: g.name,
+      version: g.preferredVersion?.version ?? g.versions[0].version,
+      path: `/apis/${g.preferredVersion?.groupVersion ?? g.versions[0].groupVersion}`,
+    })),
+  ];
+
+  const lists = await Promise.all(groupVersions.map(async (gv) => {
+    try {
+      const list = await kubeGetJson<APIResourceList>(clusterConfig, gv.path);
+      return (list.resources || [])
+        // Subresources such as pods/log or deployments/scale are reached through their parent
+        .filter((r) => !r.name.includes('/'))
+        .map((r): ApiResource => ({
+          group: gv.group,
+          version: gv.version,
+          groupVersion: gv.group ? `${gv.group}/${gv.version}` : gv.version,
+          name: r.name,
+          singularName: r.singularName || r.kind.toLowerCase(),
+          kind: r.kind,
+          namespaced: r.namespaced,
+          shortNames: r.shortNames || [],
+          verbs: r.verbs || [],
+        }));
+    } catch (error) {
+      // Aggregated APIs (e.g. a broken metrics-server) shouldn't take discovery down with them
+      console.error(`Discovery failed for ${gv.path}:`, error);
+      return [];
+    }
+  }));
+
+  const resources = lists.flat();
+  for (const key of discoveryCache.keys()) {
+    if (key.startsWith(`${clusterConfig.id}:`)) discoveryCache.delete(key);
+  }
+  discoveryCache.set(cacheKey, { expiresAt: Date.now() + DISCOVERY_TTL_MS, resources });
+  return resources;
+}
+
+export function resolveResource(resources: ApiResource[], input: string): ApiResource {
+  const lowered = input.toLowerCase();
+  // `deployments.apps` or `deployments.v1.apps` pin the group explicitly
+  const [name, ...groupParts] = lowered.split('.');
+  let group = groupParts.join('.');
+  let version: string | undefined;
+  if (groupParts.length > 1 && /^v\d/.test(groupParts[0])) {
+    version = groupParts[0];
+    group = groupParts.slice(1).join('.');
+  }
+
+  const matches = (r: ApiResource) =>
+    r.name === name ||
+    r.singularName === name ||
+    r.kind.toLowerCase() === name ||
+    r.shortNames.includes(name);
+
+  const found = resources.find((r) =>
+    matches(r) &&
+    (!groupParts.length || r.group === group) &&
+    (!version || r.version === version)
+  );
+
+  if (!found) {
+    throw new Error(`the server doesn't have a resource type "${input}"`);
+  }
+  return found;
+}
+
+export function resourcePath(resource: ApiResource, namespace?: string, name?: string): string {
+  const prefix = resource.group ? `/apis/${resource.groupVersion}` : `/api/${resource.version}`;
+  const namespacePart = resource.namespaced && namespace ? `/namespaces/${encodeURIComponent(namespace)}` : '';
+  const namePart = name ? `/${encodeURIComponent(name)}` : '';
+  return `${prefix}${namespacePart}/${resource.name}${namePart}`;
+}
@@ -0,0 +1,175 @@
+// `kubectl exec` over the API server's WebSocket endpoint, speaking v4.channel.k8s.io.
+// Every frame starts with a channel byte: 0 stdin, 1 stdout, 2 stderr, 3 status, 4 resize.
+import { getFlag, hasFlag, type ParsedCommand } from './parser.ts'
+import { channelFrame, kubeWebSocket, type ClusterConnection } from '../_shared/kube.ts'
+
+const EXEC_PROTOCOL = 'v4.channel.k8s.io';
+const STDIN = 0;
+const STDOUT = 1;
+const STDERR = 2;
+const STATUS = 3;
+const RESIZE = 4;
+
+// Non-interactive commands that haven't finished by then are cut off
+const EXEC_TIMEOUT_MS = 60_000;
+
+// Messages exchanged with the browser in interactive mode
+export type ExecClientMessage =
+  | { type: 'stdin'; data: string }
+  | { type: 'resize'; cols: number; rows: number };
+
+export type ExecServerMessage =
+  | { type: 'stdout' | 'stderr'; data: string }
+  | { type: 'exit'; code: number; message?: string };
+
+export function isInteractiveExec(parsed: ParsedCommand): boolean {
+  return hasFlag(parsed, 'stdin') || hasFlag(parsed, 'tty');
+}
+
+export function execPath(parsed: ParsedCommand, namespace: string): string {
+  const target = parsed.args[0];
+  if (!target) {
+    throw new Error('kubectl exec requires a pod name');
+  }
+  if (parsed.trailing.length === 0) {
+    throw new Error('you must specify at least one command for the container, e.g. kubectl exec <pod> -- ls');
+  }
+  const podName = target.includes('/') ? target.split('/', 2)[1] : target;
+  const tty = hasFlag(parsed, 'tty');
+
+  const query = new URLSearchParams();
+  for (const arg of parsed.trailing) query.append('command', arg);
+  const container = getFlag(parsed, 'container');
+  if (container) query.set('container', container);
+  query.set('stdin', String(hasFlag(parsed, 'stdin')));
+  query.set('stdout', 'true');
+  // With a TTY stderr is merged into stdout, and the API server rejects asking for both
+  query.set('stderr', String(!tty));
+  query.set('tty', String(tty));
+
+  return `/api/v1/namespaces/${encodeURIComponent(namespace)}/pods/${encodeURIComponent(podName)}/exec?${query}`;
+}
+
+interface Status {
+  status?: string;
+  message?: string;
+  details?: { causes?: { reason?: string; message?: string }[] };
+}
+
+// The status channel carries a metav1.Status; a NonZeroExitCode failure has the code in its causes
+function exitFromStatus(text: string): { code: number; message?: string } {
+  try {
+    const status: Status = JSON.parse(text);
+    if (status.status === 'Success') return { code: 0 };
+    const exitCode = status.details?.causes?.find((cause) => cause.reason === 'ExitCode')?.message;
+    return { code: exitCode ? Number(exitCode) : 1, message: status.message };
+  } catch {
+    return { code: 1, message: text };
+  }
+}
+
+// `kubectl exec pod -- cmd`: run to completion and collect stdout/stderr in arrival order
+export function runExec(clusterConfig: ClusterConnection, path: string): Promise<{ success: boolean; output?: string; error?: string }> {
+  return new Promise((resolve) => {
+    const socket = kubeWebSocket(clusterConfig, path, EXEC_PROTOCOL);
+    const decoders = new Map<number, TextDecoder>();
+    let output = '';
+    let exit: { code: number; message?: string } | null = null;
+
+    const timer = setTimeout(() => {
+      exit = { code: 1, message: `command did not finish within ${EXEC_TIMEOUT_MS / 1000}s` };
+      socket.close();
+    }, EXEC_TIMEOUT_MS);
+
+    socket.onmessage = (event) => {
+      const bytes = new Uint8Array(event.data as ArrayBuffer);
+      if (bytes.length < 2) return;
+      const channel = bytes[0];
+      if (!decoders.has(channel)) decoders.set(channel, new TextDecoder());
+      const text = decoders.get(channel)!.decode(bytes.subarray(1), { stream: true });
+
+      if (channel === STDOUT || channel === STDERR) {
+        output += text;
+      } else if (channel === STATUS) {
+        exit = exitFromStatus(text);
+      }
+    };
+
+    socket.onerror = (event) => {
+      exit ??= { code: 1, message: `unable to connect to the exec endpoint: ${(event as ErrorEvent).message ?? 'connection failed'}` };
+    };
+
+    socket.onclose = () => {
+      clearTimeout(timer);
+      if (!exit || exit.code === 0) {
+        resolve({ success: true, output });
+        return;
+      }
+      const reason = exit.message?.startsWith('command terminated')
+        ? `command terminated with exit code ${exit.code}`
+        : exit.message ?? `command terminated with exit code ${exit.code}`;
+      resolve({ success: false, error: `${output}${output && !output.endsWith('\n') ? '\n' : ''}${reason}` });
+    };
+  });
+}
+
+// Interactive mode: bridge the browser's socket to the API server's, translating between
+// JSON messages on our side and channel frames on theirs.
+export function relayExec(client: WebSocket, clusterConfig: ClusterConnection, path: string) {
+  const upstream = kubeWebSocket(clusterConfig, path, EXEC_PROTOCOL);
+  const encoder = new TextEncoder();
+  const decoders = new Map<number, TextDecoder>();
+  const pending: Uint8Array[] = [];
+
+  const send = (message: ExecServerMessage) => {
+    if (client.readyState === WebSocket.OPEN) client.send(JSON.stringify(message));
+  };
+  const toUpstream = (bytes: Uint8Array) => {
+    if (upstream.readyState === WebSocket.OPEN) upstream.send(bytes);
+    else pending.push(bytes);
+  };
+
+  upstream.onopen = () => {
+    for (const bytes of pending.splice(0)) upstream.send(bytes);
+  };
+
+  upstream.onmessage = (event) => {
+    const bytes = new Uint8Array(event.data as ArrayBuffer);
+    if (bytes.length < 2) return;
+    const channel = bytes[0];
+    if (!decoders.has(channel)) decoders.set(channel, new TextDecoder());
+    const text = decoders.get(channel)!.decode(bytes.subarray(1), { stream: true });
+
+    if (channel === STDOUT || channel === STDERR) {
+      send({ type: channel === STDOUT ? 'stdout' : 'stderr', data: text });
+    } else if (channel === STATUS) {
+      send({ type: 'exit', ...exitFromStatus(text) });
+    }
+  };
+
+  upstream.onerror = () => {
+    send({ type: 'exit', code: 1, message: 'lost connection to the exec endpoint' });
+  };
+
+  upstream.onclose = () => {
+    if (client.readyState === WebSocket.OPEN) client.close();
+  };
+
+  client.onmessage = (event) => {
+    let message: ExecClientMessage;
+    try {
+      message = JSON.parse(event.data);
+    } catch {
+      return;
+    }
+    if (message.type === 'stdin') {
+      toUpstream(channelFrame(STDIN, encoder.encode(message.data)));
+    } else if (message.type === 'resize') {
+      toUpstream(channelFrame(RESIZE, encoder.encode(JSON.stringify({ Width: message.cols, Height: message.rows }))));
+    }
+  };
+
+  client.onclose = () => {
+    if (upstream.readyState === WebSocket.OPEN || upstream.readyState === WebSocket.CONNECTING) upstream.close();
+  };
+}
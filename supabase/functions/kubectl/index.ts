@@ -1,5 +1,27 @@
 import { serve } from "https://deno.land/std@0.168.0/http/server.ts"
-import { createClient } from 'https://esm.sh/@supabase/supabase-js@2.45.0'
+import { createClient, type SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2.45.0'
+import { parseKubectlCommand, type ParsedCommand } from './parser.ts'
+import { getApiResources, resolveResource, resourcePath, type ApiResource } from './discovery.ts'
+import { kubeFetch, type ClusterConnection } from '../_shared/kube.ts'
+import { withCredentials } from '../_shared/credentials.ts'
+import { describeObject } from './describe.ts'
+import { execPath, isInteractiveExec, relayExec, runExec } from './exec.ts'
+import { followLogs, isFollowingLogs, logsPath } from './logs.ts'
+import type { ObjectDiff } from './diff.ts'
+import { runApply } from './apply.ts'
+import { isVerbAllowed, mutationVerb, planMutation, runMutation, type MutatingVerb } from './mutations.ts'
+import { top } from './top.ts'
+import { rolloutHistory } from './rollout.ts'
+import {
+  PORT_FORWARD_TTL_MINUTES,
+  forwardHttpRequest,
+  generateSessionToken,
+  hashSessionToken,
+  matchProxyPath,
+  resolvePortForward,
+  type PortForwardSession,
+} from './portforward.ts'
+import { formatGetOutput, renderColumns, wantsServerTable, TABLE_ACCEPT_HEADER, isList, type GetResponse } from './output.ts'
 
 const corsHeaders = {
   'Access-Control-Allow-Origin': '*',
@@ -8,27 +30,81 @@ const corsHeaders = {
 
 interface KubectlRequest {
   command: string;
+  // The cluster selected in the browser tab that sent the command
   clusterId?: string;
+  // The tab's namespace, used when the command has no -n; replaces the cluster's default
+  namespace?: string;
+  // The tab is scoped to all namespaces: list commands without -n behave as if given -A
+  allNamespaces?: boolean;
+  // Run write commands with dryRun=All and return a diff instead of changing the cluster
+  dryRun?: boolean;
+  // Multi-document YAML for `kubectl apply -f -`
+  manifest?: string;
+  // A dashboard view polling for data rather than a person running a command; read-only
+  // results are not written to kubectl_logs, or every poll would store a full listing
+  background?: boolean;
 }
 
+interface KubectlResult {
+  success: boolean;
+  output?: string;
+  error?: string;
+  mutating?: boolean;
+  dryRun?: boolean;
+  diff?: ObjectDiff[];
+  portForwards?: PortForwardSession[];
+}
+
+// A cluster_configs row with its credentials merged in
+type KubectlCluster = ClusterConnection & { id: string; name: string; allowed_verbs?: string[] | null };
+
+interface ExecuteOptions {
+  userId: string;
+  allNamespaces?: boolean;
+  dryRun?: boolean;
+  manifest?: string;
+}
+
+const NO_CLUSTER_SELECTED = 'No cluster selected. Choose a cluster in the dashboard header, or add one in settings.';
+
+// Subprotocols offered by the Terminal when opening an exec session: the session protocol
+// plus `access-token.<jwt>` carrying the user's Supabase session
+const EXEC_SOCKET_PROTOCOL = 'kubectl-exec';
+const ACCESS_TOKEN_PROTOCOL_PREFIX = 'access-token.';
+
 serve(async (req) => {
+  // Requests to a port-forward proxy URL are relayed to the pod as-is, preflights included
+  const proxy = matchProxyPath(new URL(req.url).pathname);
+  if (proxy) {
+    return serveProxyRequest(req, proxy);
+  }
+
   // Handle CORS preflight requests
   if (req.method === 'OPTIONS') {
     return new Response(null, { headers: corsHeaders });
   }
 
+  // Interactive exec sessions arrive as a WebSocket upgrade, which can't carry an Authorization header
+  if (req.headers.get('upgrade')?.toLowerCase() === 'websocket') {
+    return serveExecSocket(req);
+  }
+
   try {
     const authHeader = req.headers.get('Authorization');
     if (!authHeader) {
       throw new Error('No authorization header');
     }
 
+    // Acting as the caller keeps reads and the audit inserts below subject to their row level security
     const supabase = createClient(
       Deno.env.get('SUPABASE_URL') ?? '',
       Deno.env.get('SUPABASE_ANON_KEY') ?? '',
       {
         auth: {
           persistSession: false
+        },
+        global: {
+          headers: { Authorization: authHeader }
         }
       }
     );
@@ -42,56 +118,71 @@ serve(async (req) => {
       throw new Error('Invalid authentication');
     }
 
-    const { command, clusterId }: KubectlRequest = await req.json();
+    const { command, clusterId, namespace, allNamespaces, dryRun = false, manifest, background = false }: KubectlRequest = await req.json();
 
     // Get cluster configuration
-    let clusterConfig;
-    if (clusterId) {
-      const { data, error } = await supabase
-        .from('cluster_configs')
-        .select('*')
-        .eq('id', clusterId)
-        .eq('user_id', user.id)
-        .single();
-      
-      if (error) throw error;
-      clusterConfig = data;
-    } else {
-      // Get active cluster
-      const { data, error } = await supabase
-        .from('cluster_configs')
-        .select('*')
-        .eq('user_id', user.id)
-        .eq('is_active', true)
-        .single();
-      
-      if (error || !data) {
+    const clusterConfig = await getClusterConfig(supabase, user.id, clusterId, namespace);
+    if (!clusterConfig) {
+      return new Response(
+        JSON.stringify({ 
+          error: NO_CLUSTER_SELECTED 
+        }),
+        { 
+          status: 400, 
+          headers: { ...corsHeaders, 'Content-Type': 'application/json' } 
+        }
+      );
+    }
+
+    // `logs -f` is relayed as a server-sent event stream rather than a single JSON result
+    const streamed = await streamFollowedLogs(command, clusterConfig, req.signal);
+    if (streamed) {
+      await supabase
+        .from('kubectl_logs')
+        .insert([{
+          user_id: user.id,
+          cluster_id: clusterConfig.id,
+          command,
+          output: null,
+          error: streamed instanceof Response ? null : streamed.error,
+        }]);
+
+      if (!(streamed instanceof Response)) {
         return new Response(
-          JSON.stringify({ 
-            error: 'No active cluster configured. Please set an active cluster in settings.' 
-          }),
+          JSON.stringify(streamed),
           { 
-            status: 400, 
+            status: 200, 
             headers: { ...corsHeaders, 'Content-Type': 'application/json' } 
           }
         );
       }
-      clusterConfig = data;
+      return streamed;
     }
 
     // Execute kubectl command
-    const result = await executeKubectl(command, clusterConfig);
-
-    // Log the command execution
-    await supabase
-      .from('kubectl_logs')
-      .insert([{
-        user_id: user.id,
-        cluster_id: clusterConfig.id,
-        command,
-        output: result.success ? result.output : null,
-        error: result.success ? null : result.error
-      }]);
+    const result = await executeKubectl(command, clusterConfig, { userId: user.id, allNamespaces, dryRun, manifest });
+
+    // Log the command execution; anything that changes the cluster is logged however it was sent
+    if (!background || result.mutating) {
+      await supabase
+        .from('kubectl_logs')
+        .insert([{
+          user_id: user.id,
+          cluster_id: clusterConfig.id,
+          command,
+          output: result.success ? result.output : null,
+          error: result.success ? null : result.error,
+          mutating: result.mutating ?? false,
+          dry_run: result.dryRun ?? false
+        }]);
+    }
+
+    if (result.success && result.mutating && !result.dryRun && isRollback(command)) {
+      await recordOnActiveIncident(supabase, user.id, clusterConfig.id, {
+        action: 'rollback',
+        details: `${(result.output || '').trim()} (${command})`
+      });
+    }
 
     return new Response(
       JSON.stringify(result),
@@ -116,23 +207,285 @@ serve(async (req) => {
   }
 });
 
-async function executeKubectl(command: string, clusterConfig: any) {
+// Port-forward sessions are created and served without the user's session (proxy URLs are
+// opened in a plain browser tab), so they go through the service role
+function serviceClient() {
+  return createClient(
+    Deno.env.get('SUPABASE_URL') ?? '',
+    Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') ?? '',
+    {
+      auth: {
+        persistSession: false
+      }
+    }
+  );
+}
+
+// Null when the request doesn't say which cluster it is for. A namespace from the browser
+// tab stands in for the cluster's default namespace everywhere a command has no -n.
+async function getClusterConfig(supabase: SupabaseClient, userId: string, clusterId?: string | null, namespace?: string | null): Promise<KubectlCluster | null> {
+  if (!clusterId) return null;
+
+  const { data, error } = await supabase
+    .from('cluster_configs')
+    .select('*')
+    .eq('id', clusterId)
+    .eq('user_id', userId)
+    .single();
+  
+  if (error) throw error;
+  return withCredentials(namespace ? { ...data, namespace } : data);
+}
+
+function isRollback(command: string): boolean {
+  try {
+    return mutationVerb(parseKubectlCommand(command)) === 'rollout undo';
+  } catch {
+    return false;
+  }
+}
+
+// Appends to the timeline of the cluster's most recent open or investigating incident, if there is one
+async function recordOnActiveIncident(supabase: SupabaseClient, userId: string, clusterId: string, event: { action: string; details: string }) {
+  const { data: incident, error } = await supabase
+    .from('incident_timelines')
+    .select('id, timeline_events')
+    .eq('user_id', userId)
+    .eq('cluster_id', clusterId)
+    .in('status', ['open', 'investigating'])
+    .order('started_at', { ascending: false })
+    .limit(1)
+    .maybeSingle();
+
+  if (error || !incident) {
+    if (error) console.error('Error finding active incident:', error);
+    return;
+  }
+
+  // Older rows hold the timeline as a JSON string rather than an array. The rollback has already
+  // happened, so an unreadable timeline is logged and left alone rather than failing the command.
+  let timeline: unknown[];
   try {
-    // Parse kubectl command
-    const args = command.trim().split(' ');
-    if (args[0] !== 'kubectl') {
+    timeline = Array.isArray(incident.timeline_events)
+      ? incident.timeline_events
+      : JSON.parse(incident.timeline_events || '[]');
+  } catch (parseError) {
+    console.error(`Incident ${incident.id} has an unreadable timeline:`, parseError);
+    return;
+  }
+  const { error: updateError } = await supabase
+    .from('incident_timelines')
+    .update({
+      timeline_events: [...timeline, { timestamp: new Date().toISOString(), ...event, user_id: userId }]
+    })
+    .eq('id', incident.id);
+
+  if (updateError) console.error('Error recording on incident timeline:', updateError);
+}
+
+async function serveExecSocket(req: Request): Promise<Response> {
+  const url = new URL(req.url);
+  const protocols = (req.headers.get('sec-websocket-protocol') ?? '').split(',').map((p) => p.trim());
+  const accessToken = protocols.find((p) => p.startsWith(ACCESS_TOKEN_PROTOCOL_PREFIX))?.slice(ACCESS_TOKEN_PROTOCOL_PREFIX.length);
+  if (!protocols.includes(EXEC_SOCKET_PROTOCOL) || !accessToken) {
+    return new Response('Missing exec session protocol or access token', { status: 401, headers: corsHeaders });
+  }
+
+  const supabase = createClient(
+    Deno.env.get('SUPABASE_URL') ?? '',
+    Deno.env.get('SUPABASE_ANON_KEY') ?? '',
+    {
+      auth: {
+        persistSession: false
+      },
+      global: {
+        headers: { Authorization: `Bearer ${accessToken}` }
+      }
+    }
+  );
+
+  const { data: { user }, error: authError } = await supabase.auth.getUser(accessToken);
+  if (authError || !user) {
+    return new Response('Invalid authentication', { status: 401, headers: corsHeaders });
+  }
+
+  const { socket, response } = Deno.upgradeWebSocket(req, { protocol: EXEC_SOCKET_PROTOCOL });
+  // Errors after the upgrade are reported in-band so the Terminal can show them
+  const fail = (message: string) => {
+    socket.onopen = () => {
+      socket.send(JSON.stringify({ type: 'exit', code: 1, message }));
+      socket.close();
+    };
+    return response;
+  };
+
+  const command = url.searchParams.get('command') ?? '';
+  let clusterConfig;
+  let path: string;
+  try {
+    clusterConfig = await getClusterConfig(supabase, user.id, url.searchParams.get('clusterId'), url.searchParams.get('namespace'));
+    if (!clusterConfig) return fail(NO_CLUSTER_SELECTED);
+
+    const parsed = parseKubectlCommand(command);
+    if (parsed.verb !== 'exec') {
+      return fail('error: only kubectl exec can be run as an interactive session');
+    }
+    if (!isVerbAllowed(clusterConfig, 'exec')) {
+      return fail(`error: "exec" is not permitted on cluster "${clusterConfig.name}". Enable it in the cluster settings to allow it.`);
+    }
+    path = execPath(parsed, parsed.namespace || clusterConfig.namespace || 'default');
+  } catch (error) {
+    return fail(`error: ${error.message}`);
+  }
+
+  console.log(`Opening exec session: ${path}`);
+  try {
+    relayExec(socket, clusterConfig, path);
+  } catch (error) {
+    return fail(`error: ${error.message}`);
+  }
+
+  await supabase
+    .from('kubectl_logs')
+    .insert([{
+      user_id: user.id,
+      cluster_id: clusterConfig.id,
+      command,
+      output: null,
+      error: null,
+      mutating: true
+    }]);
+
+  return response;
+}
+
+async function serveProxyRequest(req: Request, proxy: { sessionId: string; token: string; path: string }): Promise<Response> {
+  const admin = serviceClient();
+  const { data: session } = await admin
+    .from('port_forward_sessions')
+    .select('*')
+    .eq('id', proxy.sessionId)
+    .maybeSingle();
+
+  if (!session || session.token_hash !== await hashSessionToken(proxy.token)) {
+    return new Response('Port-forward session not found', { status: 404 });
+  }
+  if (new Date(session.expires_at) <= new Date()) {
+    await admin.from('port_forward_sessions').delete().eq('id', session.id);
+    return new Response('Port-forward session expired; run kubectl port-forward again', { status: 410 });
+  }
+
+  const { data: cluster } = await admin
+    .from('cluster_configs')
+    .select('*')
+    .eq('id', session.cluster_id)
+    .single();
+  if (!cluster || !isVerbAllowed(cluster, 'port-forward')) {
+    return new Response('Port-forwarding is no longer permitted on this cluster', { status: 403 });
+  }
+  const clusterConfig = await withCredentials(cluster);
+
+  await admin
+    .from('port_forward_sessions')
+    .update({ last_used_at: new Date().toISOString() })
+    .eq('id', session.id);
+
+  try {
+    return await forwardHttpRequest(
+      clusterConfig,
+      session,
+      req,
+      proxy.path,
+      `/functions/v1/kubectl/port-forward/${proxy.sessionId}/${proxy.token}`
+    );
+  } catch (error) {
+    console.error('Error forwarding request:', error);
+    return new Response(`port-forward failed: ${error.message}`, { status: 502 });
+  }
+}
+
+async function streamFollowedLogs(command: string, clusterConfig: KubectlCluster, signal: AbortSignal): Promise<Response | KubectlResult | null> {
+  let parsed: ParsedCommand;
+  try {
+    parsed = parseKubectlCommand(command);
+  } catch {
+    // Let executeKubectl report the parse error
+    return null;
+  }
+  if (!isFollowingLogs(parsed)) return null;
+
+  try {
+    const path = logsPath(parsed, parsed.namespace || clusterConfig.namespace || 'default');
+    if (!path) {
+      return { success: false, error: 'error: kubectl logs requires a pod name' };
+    }
+    console.log(`Following logs: ${path}`);
+    const body = await followLogs(clusterConfig, path, signal);
+    return new Response(body, {
+      headers: {
+        ...corsHeaders,
+        'Content-Type': 'text/event-stream',
+        'Cache-Control': 'no-cache',
+      }
+    });
+  } catch (error) {
+    console.error('Error following logs:', error);
+    return { success: false, error: `error: ${error.message}` };
+  }
+}
+
+async function executeKubectl(command: string, clusterConfig: KubectlCluster, { userId, allNamespaces = false, dryRun = false, manifest }: ExecuteOptions): Promise<KubectlResult> {
+  let parsed: ParsedCommand;
+  try {
+    parsed = parseKubectlCommand(command);
+  } catch (error) {
+    return {
+      success: false,
+      error: `error: ${error.message}`
+    };
+  }
+  if (allNamespaces && !parsed.namespace) {
+    parsed.allNamespaces = true;
+  }
+
+  if (parsed.verb === 'exec') {
+    return executeExec(parsed, clusterConfig, dryRun);
+  }
+
+  if (parsed.verb === 'port-forward') {
+    return executePortForward(parsed, clusterConfig, userId, dryRun);
+  }
+
+  const verb = mutationVerb(parsed);
+  if (verb) {
+    return executeMutation(parsed, verb, clusterConfig, dryRun, manifest);
+  }
+
+  try {
+    if (parsed.verb === 'top') {
       return {
-        success: false,
-        error: 'Only kubectl commands are supported'
+        success: true,
+        output: await top(parsed, clusterConfig)
+      };
+    }
+
+    if (parsed.verb === 'rollout' && parsed.args[0] === 'history') {
+      return {
+        success: true,
+        output: await rolloutHistory(parsed, clusterConfig)
+      };
+    }
+
+    if (parsed.verb === 'api-resources') {
+      return {
+        success: true,
+        output: formatApiResources(await getApiResources(clusterConfig))
       };
     }
 
-    // Extract the actual kubectl operation
-    const operation = args.slice(1).join(' ');
-    
     // Build Kubernetes API request
-    const apiUrl = buildKubernetesApiUrl(operation, clusterConfig);
-    if (!apiUrl) {
+    const apiRequest = await buildKubernetesApiRequest(parsed, clusterConfig);
+    if (!apiRequest) {
       return {
         success: false,
         error: 'Unsupported kubectl command or unable to parse'
@@ -140,18 +493,14 @@ async function executeKubectl(command: string, clusterConfig: any) {
     }
 
     console.log(`Executing kubectl command: ${command}`);
-    console.log(`API URL: ${apiUrl.url}`);
+    console.log(`API path: ${apiRequest.path}`);
 
     // Make request to Kubernetes API
-    const response = await fetch(apiUrl.url, {
-      method: apiUrl.method,
-      headers: {
-        'Authorization': `Bearer ${clusterConfig.token}`,
-        'Content-Type': 'application/json',
-        ...(clusterConfig.certificate_authority_data && {
-          'X-CA-Data': clusterConfig.certificate_authority_data
-        })
-      }
+    const response = await kubeFetch(clusterConfig, apiRequest.path, {
+      method: apiRequest.method,
+      ...(parsed.verb === 'get' && wantsServerTable(parsed) && {
+        headers: { 'Accept': `${TABLE_ACCEPT_HEADER}, application/json` }
+      })
     });
 
     if (!response.ok) {
@@ -162,10 +511,13 @@ async function executeKubectl(command: string, clusterConfig: any) {
       };
     }
 
-    const data = await response.json();
+    // Logs come back as plain text, everything else as JSON
+    const data = parsed.verb === 'logs' ? await response.text() : await response.json();
     
     // Format output to match kubectl format
-    const formattedOutput = formatKubectlOutput(operation, data);
+    const formattedOutput = parsed.verb === 'describe'
+      ? await describeResponse(parsed, data, apiRequest.resource!, clusterConfig)
+      : formatKubectlOutput(parsed, data, apiRequest.resource, clusterConfig);
 
     return {
       success: true,
@@ -181,146 +533,201 @@ async function executeKubectl(command: string, clusterConfig: any) {
   }
 }
 
-function buildKubernetesApiUrl(operation: string, clusterConfig: any) {
-  const baseUrl = clusterConfig.endpoint.replace(/\/$/, '');
-  const namespace = clusterConfig.namespace || 'default';
-  
-  // Parse common kubectl operations
-  const parts = operation.split(' ');
-  const verb = parts[0]; // get, describe, logs, etc.
-  const resource = parts[1]; // pods, services, deployments, etc.
-  const resourceName = parts[2]; // specific resource name (optional)
-
-  switch (verb) {
-    case 'get':
-      if (resource === 'pods') {
-        const url = resourceName 
-          ? `${baseUrl}/api/v1/namespaces/${namespace}/pods/${resourceName}`
-          : `${baseUrl}/api/v1/namespaces/${namespace}/pods`;
-        return { url, method: 'GET' };
-      }
-      if (resource === 'services' || resource === 'svc') {
-        const url = resourceName 
-          ? `${baseUrl}/api/v1/namespaces/${namespace}/services/${resourceName}`
-          : `${baseUrl}/api/v1/namespaces/${namespace}/services`;
-        return { url, method: 'GET' };
-      }
-      if (resource === 'deployments' || resource === 'deploy') {
-        const url = resourceName 
-          ? `${baseUrl}/apis/apps/v1/namespaces/${namespace}/deployments/${resourceName}`
-          : `${baseUrl}/apis/apps/v1/namespaces/${namespace}/deployments`;
-        return { url, method: 'GET' };
-      }
-      if (resource === 'nodes') {
-        const url = resourceName 
-          ? `${baseUrl}/api/v1/nodes/${resourceName}`
-          : `${baseUrl}/api/v1/nodes`;
-        return { url, method: 'GET' };
-      }
-      break;
+async function executeMutation(parsed: ParsedCommand, verb: MutatingVerb, clusterConfig: KubectlCluster, dryRun: boolean, manifest?: string): Promise<KubectlResult> {
+  if (!isVerbAllowed(clusterConfig, verb)) {
+    return {
+      success: false,
+      mutating: true,
+      error: `error: "${verb}" is not permitted on cluster "${clusterConfig.name}". Enable it in the cluster settings to allow it.`
+    };
+  }
+
+  try {
+    if (verb === 'apply') {
+      console.log(`Executing apply (${dryRun ? 'dry run' : 'server-side'})`);
+      return { mutating: true, dryRun, ...(await runApply(parsed, manifest, clusterConfig, dryRun)) };
+    }
+
+    const plan = await planMutation(parsed, clusterConfig, verb);
+    console.log(`Executing ${verb} on ${plan.resource.name}/${plan.name} (${plan.operations.length} API calls${dryRun ? ', dry run' : ''})`);
+    return { mutating: true, dryRun, ...(await runMutation(plan, clusterConfig, dryRun)) };
+  } catch (error) {
+    console.error('Error executing kubectl mutation:', error);
+    return {
+      success: false,
+      mutating: true,
+      dryRun,
+      error: `error: ${error.message}`
+    };
+  }
+}
+
+async function executeExec(parsed: ParsedCommand, clusterConfig: KubectlCluster, dryRun: boolean): Promise<KubectlResult> {
+  if (!isVerbAllowed(clusterConfig, 'exec')) {
+    return {
+      success: false,
+      mutating: true,
+      error: `error: "exec" is not permitted on cluster "${clusterConfig.name}". Enable it in the cluster settings to allow it.`
+    };
+  }
+  if (dryRun) {
+    return { success: false, mutating: true, dryRun, error: 'error: kubectl exec cannot be run as a dry run' };
+  }
+  if (isInteractiveExec(parsed)) {
+    return { success: false, mutating: true, error: 'error: -i/-t need an interactive session; run the command from the Terminal' };
+  }
+
+  try {
+    const path = execPath(parsed, parsed.namespace || clusterConfig.namespace || 'default');
+    console.log(`Executing exec: ${path}`);
+    return { mutating: true, ...(await runExec(clusterConfig, path)) };
+  } catch (error) {
+    return { success: false, mutating: true, error: `error: ${error.message}` };
+  }
+}
+
+async function executePortForward(parsed: ParsedCommand, clusterConfig: KubectlCluster, userId: string, dryRun: boolean): Promise<KubectlResult> {
+  if (!isVerbAllowed(clusterConfig, 'port-forward')) {
+    return {
+      success: false,
+      mutating: true,
+      error: `error: "port-forward" is not permitted on cluster "${clusterConfig.name}". Enable it in the cluster settings to allow it.`
+    };
+  }
+  if (dryRun) {
+    return { success: false, mutating: true, dryRun, error: 'error: kubectl port-forward cannot be run as a dry run' };
+  }
+
+  try {
+    const target = await resolvePortForward(parsed, clusterConfig);
+    const admin = serviceClient();
+
+    // Tear down sessions that have timed out before handing out new ones
+    await admin
+      .from('port_forward_sessions')
+      .delete()
+      .lt('expires_at', new Date().toISOString());
+
+    const expiresAt = new Date(Date.now() + PORT_FORWARD_TTL_MINUTES * 60_000).toISOString();
+    const sessions: PortForwardSession[] = [];
+    for (const mapping of target.mappings) {
+      const token = generateSessionToken();
+      const { data, error } = await admin
+        .from('port_forward_sessions')
+        .insert([{
+          user_id: userId,
+          cluster_id: clusterConfig.id,
+          namespace: target.namespace,
+          pod_name: target.podName,
+          local_port: mapping.localPort,
+          remote_port: mapping.remotePort,
+          token_hash: await hashSessionToken(token),
+          expires_at: expiresAt,
+        }])
+        .select('id')
+        .single();
+      if (error) throw error;
+
+      sessions.push({
+        id: data.id,
+        url: `${Deno.env.get('SUPABASE_URL')}/functions/v1/kubectl/port-forward/${data.id}/${token}/`,
+        podName: target.podName,
+        namespace: target.namespace,
+        localPort: mapping.localPort,
+        remotePort: mapping.remotePort,
+        expiresAt,
+      });
+    }
+
+    return {
+      success: true,
+      mutating: true,
+      output: sessions.map((session) => `Forwarding from ${session.url} -> ${session.remotePort}`).join('\n')
+        + `\nSessions close at ${expiresAt} (${PORT_FORWARD_TTL_MINUTES} minutes)\n`,
+      portForwards: sessions,
+    };
+  } catch (error) {
+    console.error('Error starting port-forward:', error);
+    return { success: false, mutating: true, error: `error: ${error.message}` };
+  }
+}
+
+// Accept both `get pod nginx` and `get pod/nginx`
+function splitResourceArgs(args: string[]): [string | undefined, string | undefined] {
+  if (args[0]?.includes('/')) {
+    const [type, name] = args[0].split('/', 2);
+    return [type, name];
+  }
+  return [args[0], args[1]];
+}
+
+async function buildKubernetesApiRequest(
+  parsed: ParsedCommand,
+  clusterConfig: KubectlCluster
+): Promise<{ path: string; method: string; resource?: ApiResource } | null> {
+  const namespace = parsed.namespace || clusterConfig.namespace || 'default';
+  const [resourceArg, resourceName] = splitResourceArgs(parsed.args);
+
+  switch (parsed.verb) {
+    case 'get': {
+      if (!resourceArg) return null;
+      const resource = resolveResource(await getApiResources(clusterConfig), resourceArg);
+      // Namespaced list requests honor --all-namespaces; named lookups always need a namespace
+      const scope = parsed.allNamespaces && !resourceName ? undefined : namespace;
+      const query = new URLSearchParams();
+      if (!resourceName && parsed.labelSelector) query.set('labelSelector', parsed.labelSelector);
+      if (!resourceName && parsed.fieldSelector) query.set('fieldSelector', parsed.fieldSelector);
+      const path = resourcePath(resource, scope, resourceName);
+      return { path: query.toString() ? `${path}?${query}` : path, method: 'GET', resource };
+    }
     
-    case 'logs':
-      if (parts.length >= 2) {
-        const podName = parts[1];
-        return { 
-          url: `${baseUrl}/api/v1/namespaces/${namespace}/pods/${podName}/log?tailLines=100`, 
-          method: 'GET' 
-        };
-      }
-      break;
+    case 'logs': {
+      const path = logsPath(parsed, namespace);
+      return path ? { path, method: 'GET' } : null;
+    }
     
-    case 'describe':
-      // For describe, we'll use get with additional details
-      if (resource === 'pod' && resourceName) {
-        return { 
-          url: `${baseUrl}/api/v1/namespaces/${namespace}/pods/${resourceName}`, 
-          method: 'GET' 
-        };
-      }
-      break;
+    case 'describe': {
+      // Describe fetches the object(s) as JSON and renders them in describe.ts
+      if (!resourceArg) return null;
+      const resource = resolveResource(await getApiResources(clusterConfig), resourceArg);
+      const query = new URLSearchParams();
+      if (!resourceName && parsed.labelSelector) query.set('labelSelector', parsed.labelSelector);
+      const path = resourcePath(resource, parsed.allNamespaces && !resourceName ? undefined : namespace, resourceName);
+      return { path: query.toString() ? `${path}?${query}` : path, method: 'GET', resource };
+    }
   }
 
   return null;
 }
 
-function formatKubectlOutput(operation: string, data: any): string {
-  const parts = operation.split(' ');
-  const verb = parts[0];
-  const resource = parts[1];
-
-  if (verb === 'get') {
-    if (resource === 'pods') {
-      if (data.items) {
-        // List of pods
-        let output = 'NAME                     READY   STATUS    RESTARTS   AGE\n';
-        data.items.forEach((pod: any) => {
-          const name = pod.metadata.name;
-          const ready = pod.status.containerStatuses 
-            ? `${pod.status.containerStatuses.filter((c: any) => c.ready).length}/${pod.status.containerStatuses.length}`
-            : '0/0';
-          const status = pod.status.phase;
-          const restarts = pod.status.containerStatuses 
-            ? pod.status.containerStatuses.reduce((sum: number, c: any) => sum + c.restartCount, 0)
-            : 0;
-          const age = calculateAge(pod.metadata.creationTimestamp);
-          
-          output += `${name.padEnd(25)} ${ready.padEnd(7)} ${status.padEnd(9)} ${restarts.toString().padEnd(10)} ${age}\n`;
-        });
-        return output;
-      } else {
-        // Single pod
-        return JSON.stringify(data, null, 2);
-      }
-    } else if (resource === 'services' || resource === 'svc') {
-      if (data.items) {
-        let output = 'NAME         TYPE        CLUSTER-IP     EXTERNAL-IP   PORT(S)    AGE\n';
-        data.items.forEach((svc: any) => {
-          const name = svc.metadata.name;
-          const type = svc.spec.type;
-          const clusterIP = svc.spec.clusterIP;
-          const externalIP = svc.spec.externalIPs?.join(',') || '<none>';
-          const ports = svc.spec.ports?.map((p: any) => `${p.port}/${p.protocol}`).join(',') || '<none>';
-          const age = calculateAge(svc.metadata.creationTimestamp);
-          
-          output += `${name.padEnd(12)} ${type.padEnd(11)} ${clusterIP.padEnd(14)} ${externalIP.padEnd(13)} ${ports.padEnd(10)} ${age}\n`;
-        });
-        return output;
-      }
-    } else if (resource === 'deployments' || resource === 'deploy') {
-      if (data.items) {
-        let output = 'NAME               READY   UP-TO-DATE   AVAILABLE   AGE\n';
-        data.items.forEach((dep: any) => {
-          const name = dep.metadata.name;
-          const ready = `${dep.status.readyReplicas || 0}/${dep.spec.replicas || 0}`;
-          const upToDate = dep.status.updatedReplicas || 0;
-          const available = dep.status.availableReplicas || 0;
-          const age = calculateAge(dep.metadata.creationTimestamp);
-          
-          output += `${name.padEnd(18)} ${ready.padEnd(7)} ${upToDate.toString().padEnd(12)} ${available.toString().padEnd(11)} ${age}\n`;
-        });
-        return output;
-      }
-    }
-  } else if (verb === 'logs') {
+function formatApiResources(resources: ApiResource[]): string {
+  return renderColumns([
+    ['NAME', 'SHORTNAMES', 'APIVERSION', 'NAMESPACED', 'KIND'],
+    ...resources.map((r) => [r.name, r.shortNames.join(','), r.groupVersion, String(r.namespaced), r.kind]),
+  ]);
+}
+
+async function describeResponse(parsed: ParsedCommand, data: GetResponse, resource: ApiResource, clusterConfig: KubectlCluster): Promise<string> {
+  const items = isList(data) ? data.items : [data];
+  if (items.length === 0) {
+    return `No resources found in ${parsed.namespace || clusterConfig.namespace || 'default'} namespace.\n`;
+  }
+  const described = [];
+  for (const item of items) {
+    described.push(await describeObject(clusterConfig, resource, item));
+  }
+  return described.join('\n\n');
+}
+
+function formatKubectlOutput(parsed: ParsedCommand, data: string | GetResponse, resource: ApiResource | undefined, clusterConfig: KubectlCluster): string {
+  if (typeof data === 'string') {
     return data; // Logs are returned as plain text
-  } else if (verb === 'describe') {
-    return JSON.stringify(data, null, 2);
+  }
+
+  if (parsed.verb === 'get') {
+    return formatGetOutput(parsed, data, resource, parsed.namespace || clusterConfig.namespace || 'default');
   }
 
   // Default fallback
   return JSON.stringify(data, null, 2);
 }
-
-function calculateAge(timestamp: string): string {
-  const now = new Date();
-  const created = new Date(timestamp);
-  const diff = now.getTime() - created.getTime();
-  
-  const days = Math.floor(diff / (1000 * 60 * 60 * 24));
-  const hours = Math.floor((diff % (1000 * 60 * 60 * 24)) / (1000 * 60 * 60));
-  const minutes = Math.floor((diff % (1000 * 60 * 60)) / (1000 * 60));
-  
-  if (days > 0) return `${days}d`;
-  if (hours > 0) return `${hours}h`;
-  return `${minutes}m`;
-}
\ No newline at end of file
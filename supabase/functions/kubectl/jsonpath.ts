@@ -0,0 +1,231 @@
+// The subset of kubectl's JSONPath templates we support for `-o jsonpath=` and `-o custom-columns=`:
+// {.a.b}, {.items[*].x}, {.a[0]}, {.a[1:3]}, {..name}, {.a['k.with.dots']}, {.a.b\.c},
+// {.items[?(@.type=="Ready")].status}, {"\n"} literals and {range ...}{end} blocks.
+
+type TemplateNode =
+  | { type: 'text'; value: string }
+  | { type: 'path'; path: string }
+  | { type: 'range'; path: string; body: TemplateNode[] };
+
+export function renderJsonPathTemplate(template: string, data: unknown): string {
+  return renderNodes(parseTemplate(template), data, data);
+}
+
+// Evaluates a single path (with or without surrounding braces) against `data`
+export function evaluateJsonPath(path: string, data: unknown): unknown[] {
+  const trimmed = path.trim().replace(/^\{(.*)\}$/s, '$1');
+  return evaluatePath(trimmed, data, data);
+}
+
+export function formatJsonPathValue(value: unknown): string {
+  if (value === null || value === undefined) return '';
+  if (typeof value === 'object') return JSON.stringify(value);
+  return String(value);
+}
+
+function parseTemplate(template: string): TemplateNode[] {
+  const root: TemplateNode[] = [];
+  const stack: TemplateNode[][] = [root];
+  let i = 0;
+
+  while (i < template.length) {
+    const open = template.indexOf('{', i);
+    if (open === -1) {
+      stack[stack.length - 1].push({ type: 'text', value: template.slice(i) });
+      break;
+    }
+    if (open > i) {
+      stack[stack.length - 1].push({ type: 'text', value: template.slice(i, open) });
+    }
+
+    const close = findClosing(template, open + 1, '}');
+    if (close === -1) {
+      throw new Error(`unclosed action in jsonpath template "${template}"`);
+    }
+
+    const action = template.slice(open + 1, close).trim();
+    const current = stack[stack.length - 1];
+    if (action.startsWith('range ')) {
+      const node: TemplateNode = { type: 'range', path: action.slice(6).trim(), body: [] };
+      current.push(node);
+      stack.push(node.body);
+    } else if (action === 'end') {
+      if (stack.length === 1) {
+        throw new Error('jsonpath template has {end} without a matching {range}');
+      }
+      stack.pop();
+    } else if (action.startsWith('"') || action.startsWith("'")) {
+      current.push({ type: 'text', value: unquote(action) });
+    } else {
+      current.push({ type: 'path', path: action });
+    }
+    i = close + 1;
+  }
+
+  if (stack.length !== 1) {
+    throw new Error('jsonpath template has {range} without a matching {end}');
+  }
+  return root;
+}
+
+function renderNodes(nodes: TemplateNode[], root: unknown, current: unknown): string {
+  let output = '';
+  for (const node of nodes) {
+    if (node.type === 'text') {
+      output += node.value;
+    } else if (node.type === 'path') {
+      output += evaluatePath(node.path, root, current).map(formatJsonPathValue).join(' ');
+    } else {
+      for (const item of evaluatePath(node.path, root, current)) {
+        output += renderNodes(node.body, root, item);
+      }
+    }
+  }
+  return output;
+}
+
+function evaluatePath(path: string, root: unknown, current: unknown): unknown[] {
+  let p = path.trim();
+  let nodes: unknown[];
+  if (p.startsWith('$')) {
+    nodes = [root];
+    p = p.slice(1);
+  } else {
+    nodes = [current];
+    if (p.startsWith('@')) p = p.slice(1);
+  }
+
+  let i = 0;
+  while (i < p.length) {
+    if (p.startsWith('..', i)) {
+      const { name, next } = readName(p, i + 2);
+      nodes = nodes.flatMap(descendants).flatMap((n) => name === '*' ? childValues(n) : child(n, name));
+      i = next;
+    } else if (p[i] === '.') {
+      const { name, next } = readName(p, i + 1);
+      if (name === '*') {
+        nodes = nodes.flatMap(childValues);
+      } else if (name) {
+        nodes = nodes.flatMap((n) => child(n, name));
+      }
+      i = next;
+    } else if (p[i] === '[') {
+      const close = findClosing(p, i + 1, ']');
+      if (close === -1) {
+        throw new Error(`unclosed [ in jsonpath "${path}"`);
+      }
+      nodes = applyBracket(nodes, p.slice(i + 1, close).trim(), root);
+      i = close + 1;
+    } else {
+      throw new Error(`unexpected "${p[i]}" in jsonpath "${path}"`);
+    }
+  }
+
+  return nodes.filter((n) => n !== undefined);
+}
+
+function applyBracket(nodes: unknown[], expr: string, root: unknown): unknown[] {
+  if (expr === '*') {
+    return nodes.flatMap(childValues);
+  }
+  if (/^-?\d+$/.test(expr)) {
+    const index = Number(expr);
+    return nodes.flatMap((n) => Array.isArray(n) ? [n[index < 0 ? n.length + index : index]] : []);
+  }
+  const slice = expr.match(/^(-?\d*):(-?\d*)(?::(\d+))?$/);
+  if (slice) {
+    const step = slice[3] ? Number(slice[3]) : 1;
+    return nodes.flatMap((n) => {
+      if (!Array.isArray(n)) return [];
+      const start = slice[1] ? Number(slice[1]) : 0;
+      const end = slice[2] ? Number(slice[2]) : n.length;
+      return n.slice(start, end).filter((_, idx) => idx % step === 0);
+    });
+  }
+  if (expr.startsWith('?(') && expr.endsWith(')')) {
+    const filter = expr.slice(2, -1).trim();
+    return nodes.flatMap(childValues).filter((item) => matchesFilter(filter, root, item));
+  }
+  if (expr.startsWith('"') || expr.startsWith("'")) {
+    const key = unquote(expr);
+    return nodes.flatMap((n) => child(n, key));
+  }
+  throw new Error(`unsupported jsonpath expression [${expr}]`);
+}
+
+function matchesFilter(filter: string, root: unknown, item: unknown): boolean {
+  const comparison = filter.match(/^(.+?)\s*(==|!=|<=|>=|<|>)\s*(.+)$/);
+  if (!comparison) {
+    return evaluatePath(filter, root, item).length > 0;
+  }
+
+  const [, leftExpr, operator, rightExpr] = comparison;
+  const left = evaluatePath(leftExpr, root, item)[0];
+  const right = rightExpr.startsWith('"') || rightExpr.startsWith("'")
+    ? unquote(rightExpr)
+    : /^-?\d+(\.\d+)?$/.test(rightExpr)
+      ? Number(rightExpr)
+      : evaluatePath(rightExpr, root, item)[0];
+
+  if (operator === '==') return left == right;
+  if (operator === '!=') return left != right;
+
+  // Strings order lexically; anything else is compared as a number, as JavaScript's < would
+  const [a, b] = typeof left === 'string' && typeof right === 'string' ? [left, right] : [Number(left), Number(right)];
+  switch (operator) {
+    case '<': return a < b;
+    case '>': return a > b;
+    case '<=': return a <= b;
+    case '>=': return a >= b;
+  }
+  return false;
+}
+
+function readName(path: string, start: number): { name: string; next: number } {
+  let name = '';
+  let i = start;
+  while (i < path.length && path[i] !== '.' && path[i] !== '[') {
+    if (path[i] === '\\' && i + 1 < path.length) {
+      name += path[i + 1];
+      i += 2;
+    } else {
+      name += path[i++];
+    }
+  }
+  return { name, next: i };
+}
+
+function findClosing(text: string, start: number, closer: string): number {
+  let quote: string | null = null;
+  for (let i = start; i < text.length; i++) {
+    const char = text[i];
+    if (quote) {
+      if (char === '\\') i++;
+      else if (char === quote) quote = null;
+    } else if (char === '"' || char === "'") {
+      quote = char;
+    } else if (char === closer) {
+      return i;
+    }
+  }
+  return -1;
+}
+
+function unquote(literal: string): string {
+  const body = literal.slice(1, -1);
+  return body.replace(/\\(.)/g, (_, c) => ({ n: '\n', t: '\t', r: '\r' } as Record<string, string>)[c] ?? c);
+}
+
+function child(node: unknown, name: string): unknown[] {
+  return node !== null && typeof node === 'object' && name in node ? [(node as Record<string, unknown>)[name]] : [];
+}
+
+function childValues(node: unknown): unknown[] {
+  if (Array.isArray(node)) return node;
+  if (node !== null && typeof node === 'object') return Object.values(node);
+  return [];
+}
+
+function descendants(node: unknown): unknown[] {
+  return [node, ...childValues(node).flatMap(descendants)];
+}
@@ -0,0 +1,94 @@
+// `kubectl logs`: builds the pod log query and, for --follow, relays the API server's
+// chunked response to the browser as server-sent events.
+import { getFlag, hasFlag, type ParsedCommand } from './parser.ts'
+import { kubeFetch, type ClusterConnection } from '../_shared/kube.ts'
+import { sseEvent } from '../_shared/sse.ts'
+
+const DEFAULT_TAIL_LINES = '100';
+
+// Go-style durations as accepted by --since, e.g. 30s, 5m, 1h30m
+function parseDurationSeconds(value: string): number {
+  const match = value.match(/^(?:(\d+)h)?(?:(\d+)m)?(?:(\d+)s)?$/);
+  if (!value || !match) {
+    throw new Error(`invalid argument "${value}" for "--since" flag: expected a duration such as 30s, 5m or 1h`);
+  }
+  const [, hours = '0', minutes = '0', seconds = '0'] = match;
+  return Number(hours) * 3600 + Number(minutes) * 60 + Number(seconds);
+}
+
+export function logsPath(parsed: ParsedCommand, namespace: string): string | null {
+  const target = parsed.args[0];
+  if (!target) return null;
+  // Accept both `logs web-1` and `logs pod/web-1`
+  const podName = target.includes('/') ? target.split('/', 2)[1] : target;
+
+  const query = new URLSearchParams();
+  // --tail=-1 means the whole log, as in kubectl
+  const tail = getFlag(parsed, 'tail') ?? DEFAULT_TAIL_LINES;
+  if (tail !== '-1') query.set('tailLines', tail);
+
+  const container = getFlag(parsed, 'container');
+  if (container) query.set('container', container);
+
+  const since = getFlag(parsed, 'since');
+  const sinceTime = getFlag(parsed, 'since-time');
+  if (since && sinceTime) {
+    throw new Error('at most one of --since or --since-time may be specified');
+  }
+  if (since) query.set('sinceSeconds', String(parseDurationSeconds(since)));
+  if (sinceTime) query.set('sinceTime', sinceTime);
+
+  if (hasFlag(parsed, 'previous')) query.set('previous', 'true');
+  if (hasFlag(parsed, 'timestamps')) query.set('timestamps', 'true');
+  if (hasFlag(parsed, 'follow')) query.set('follow', 'true');
+
+  return `/api/v1/namespaces/${encodeURIComponent(namespace)}/pods/${encodeURIComponent(podName)}/log?${query}`;
+}
+
+export function isFollowingLogs(parsed: ParsedCommand): boolean {
+  return parsed.verb === 'logs' && hasFlag(parsed, 'follow');
+}
+
+// Each log line becomes a `line` event; the stream finishes with `end` (or `error`).
+// Aborting `signal` (the browser went away or pressed stop) closes the upstream request too.
+export async function followLogs(clusterConfig: ClusterConnection, path: string, signal: AbortSignal): Promise<ReadableStream<Uint8Array>> {
+  const upstream = new AbortController();
+  signal.addEventListener('abort', () => upstream.abort());
+
+  const response = await kubeFetch(clusterConfig, path, { signal: upstream.signal });
+  if (!response.ok || !response.body) {
+    throw new Error(`Kubernetes API error (${response.status}): ${await response.text()}`);
+  }
+
+  const reader = response.body.pipeThrough(new TextDecoderStream()).getReader();
+  const encoder = new TextEncoder();
+  let buffer = '';
+
+  return new ReadableStream<Uint8Array>({
+    async pull(controller) {
+      try {
+        const { done, value } = await reader.read();
+        if (done) {
+          if (buffer) controller.enqueue(encoder.encode(sseEvent('line', buffer)));
+          controller.enqueue(encoder.encode(sseEvent('end', '')));
+          controller.close();
+          return;
+        }
+        buffer += value;
+        const lines = buffer.split('\n');
+        buffer = lines.pop() ?? '';
+        for (const line of lines) {
+          controller.enqueue(encoder.encode(sseEvent('line', line)));
+        }
+      } catch (error) {
+        if (!upstream.signal.aborted) {
+          controller.enqueue(encoder.encode(sseEvent('error', error.message)));
+        }
+        controller.close();
+      }
+    },
+    cancel() {
+      upstream.abort();
+    },
+  });
+}
@@ -0,0 +1,324 @@
+// Write verbs. Each command is turned into a plan of API calls first so callers can check
+// the per-cluster allowlist before anything touches the cluster.
+import { getFlag, hasFlag, type ParsedCommand } from './parser.ts'
+import { getApiResources, resolveResource, resourcePath, type ApiResource } from './discovery.ts'
+import { kubeFetch, kubeGetJson, type ClusterConnection } from '../_shared/kube.ts'
+import { diffObjects, type ObjectDiff } from './diff.ts'
+import type { ObjectList, Pod } from './objects.ts'
+import { deploymentRevisions, sameTemplate, undoTarget, withoutTemplateHash } from './rollout.ts'
+
+// Keys stored in cluster_configs.allowed_verbs
+export const MUTATING_VERBS = ['scale', 'rollout restart', 'rollout undo', 'delete', 'cordon', 'uncordon', 'drain', 'apply'] as const;
+
+export type MutatingVerb = typeof MUTATING_VERBS[number];
+
+export interface MutationOperation {
+  method: 'PATCH' | 'DELETE' | 'POST';
+  action: ObjectDiff['action'];
+  // e.g. `deployment.apps/web`, used to label dry-run diffs
+  target: string;
+  path: string;
+  // The object this operation changes, fetched before a dry run to diff against
+  objectPath: string;
+  contentType?: string;
+  body?: unknown;
+  // Printed on success, e.g. `pod/web-1 evicted`
+  message: string;
+  // Eviction failures are reported but don't abort the rest of a drain
+  continueOnError?: boolean;
+}
+
+export interface MutationPlan {
+  verb: Exclude<MutatingVerb, 'apply'>;
+  resource: ApiResource;
+  namespace?: string;
+  name: string;
+  operations: MutationOperation[];
+  // Lines printed before any operation runs (drain warnings, forced deletion notice)
+  preamble: string[];
+}
+
+export function mutationVerb(parsed: ParsedCommand): MutatingVerb | null {
+  const verb = parsed.verb === 'rollout' ? `rollout ${parsed.args[0] ?? ''}` : parsed.verb;
+  return (MUTATING_VERBS as readonly string[]).includes(verb) ? verb as MutatingVerb : null;
+}
+
+// `exec` and `port-forward` share the allowlist: reaching inside a container is as dangerous as any write
+export function isVerbAllowed(clusterConfig: { allowed_verbs?: string[] | null }, verb: MutatingVerb | 'exec' | 'port-forward'): boolean {
+  return (clusterConfig.allowed_verbs || []).includes(verb);
+}
+
+// apply works from a manifest rather than a resource/name pair and lives in apply.ts
+export async function planMutation(parsed: ParsedCommand, clusterConfig: ClusterConnection, verb: Exclude<MutatingVerb, 'apply'>): Promise<MutationPlan> {
+  const namespace = parsed.namespace || clusterConfig.namespace || 'default';
+  const args = verb.startsWith('rollout ') ? parsed.args.slice(1) : parsed.args;
+  const [typeArg, name] = args[0]?.includes('/') ? args[0].split('/', 2) : [args[0], args[1]];
+
+  if (!typeArg || !name) {
+    throw new Error(`kubectl ${verb} requires a resource type and name`);
+  }
+
+  const resources = await getApiResources(clusterConfig);
+  const display = (resource: ApiResource) => [resource.singularName, resource.group].filter(Boolean).join('.');
+
+  switch (verb) {
+    case 'scale': {
+      const resource = resolveResource(resources, typeArg);
+      const replicas = getFlag(parsed, 'replicas');
+      if (replicas === undefined || !/^\d+$/.test(replicas)) {
+        throw new Error('kubectl scale requires --replicas=<non-negative integer>');
+      }
+      if (!['deployments', 'statefulsets', 'replicasets'].includes(resource.name)) {
+        throw new Error(`cannot scale ${resource.name}; only deployments, statefulsets and replicasets are supported`);
+      }
+      return {
+        verb, resource, namespace, name, preamble: [],
+        operations: [{
+          method: 'PATCH',
+          action: 'patch',
+          target: `${display(resource)}/${name}`,
+          path: `${resourcePath(resource, namespace, name)}/scale`,
+          objectPath: `${resourcePath(resource, namespace, name)}/scale`,
+          contentType: 'application/merge-patch+json',
+          body: { spec: { replicas: Number(replicas) } },
+          message: `${display(resource)}/${name} scaled`,
+        }],
+      };
+    }
+
+    case 'rollout restart': {
+      const resource = resolveResource(resources, typeArg);
+      if (!['deployments', 'statefulsets', 'daemonsets'].includes(resource.name)) {
+        throw new Error(`cannot restart ${resource.name}; only deployments, statefulsets and daemonsets are supported`);
+      }
+      // Same trick kubectl uses: bump a pod template annotation so the controller rolls every pod
+      return {
+        verb, resource, namespace, name, preamble: [],
+        operations: [{
+          method: 'PATCH',
+          action: 'patch',
+          target: `${display(resource)}/${name}`,
+          path: resourcePath(resource, namespace, name),
+          objectPath: resourcePath(resource, namespace, name),
+          contentType: 'application/strategic-merge-patch+json',
+          body: {
+            spec: { template: { metadata: { annotations: { 'kubectl.kubernetes.io/restartedAt': new Date().toISOString() } } } },
+          },
+          message: `${display(resource)}/${name} restarted`,
+        }],
+      };
+    }
+
+    case 'rollout undo': {
+      const resource = resolveResource(resources, typeArg);
+      if (resource.name !== 'deployments') {
+        throw new Error(`cannot undo ${resource.name}; only deployments keep a revision history`);
+      }
+      const { deployment, revisions } = await deploymentRevisions(clusterConfig, namespace, name);
+      const target = undoTarget(parsed, deployment, revisions);
+      if (sameTemplate(target.template, deployment.spec?.template)) {
+        return {
+          verb, resource, namespace, name, operations: [],
+          preamble: [`${display(resource)}/${name} skipped rollback (current template already matches revision ${target.revision})`],
+        };
+      }
+      // Like kubectl: put the old ReplicaSet's template back and let the controller roll to it
+      return {
+        verb, resource, namespace, name, preamble: [],
+        operations: [{
+          method: 'PATCH',
+          action: 'patch',
+          target: `${display(resource)}/${name}`,
+          path: resourcePath(resource, namespace, name),
+          objectPath: resourcePath(resource, namespace, name),
+          contentType: 'application/json-patch+json',
+          body: [{ op: 'replace', path: '/spec/template', value: withoutTemplateHash(target.template) }],
+          message: `${display(resource)}/${name} rolled back to revision ${target.revision}`,
+        }],
+      };
+    }
+
+    case 'delete': {
+      const resource = resolveResource(resources, typeArg);
+      if (resource.name !== 'pods' || resource.group) {
+        throw new Error(`deleting ${resource.name} is not supported here; only pods can be deleted`);
+      }
+      const gracePeriod = getFlag(parsed, 'grace-period');
+      const force = hasFlag(parsed, 'force');
+      return {
+        verb, resource, namespace, name, preamble: force ? ['Warning: Immediate deletion does not wait for confirmation that the running resource has been terminated.'] : [],
+        operations: [{
+          method: 'DELETE',
+          action: 'delete',
+          target: `pod/${name}`,
+          path: resourcePath(resource, namespace, name),
+          objectPath: resourcePath(resource, namespace, name),
+          body: {
+            apiVersion: 'v1',
+            kind: 'DeleteOptions',
+            ...(force ? { gracePeriodSeconds: 0 } : gracePeriod !== undefined ? { gracePeriodSeconds: Number(gracePeriod) } : {}),
+          },
+          message: `pod "${name}" deleted`,
+        }],
+      };
+    }
+
+    case 'cordon':
+    case 'uncordon': {
+      const resource = resolveResource(resources, 'nodes');
+      return {
+        verb, resource, name, preamble: [],
+        operations: [{
+          method: 'PATCH',
+          action: 'patch',
+          target: `node/${name}`,
+          path: resourcePath(resource, undefined, name),
+          objectPath: resourcePath(resource, undefined, name),
+          contentType: 'application/merge-patch+json',
+          body: { spec: { unschedulable: verb === 'cordon' } },
+          message: `node/${name} ${verb}ed`,
+        }],
+      };
+    }
+
+    case 'drain':
+      return planDrain(parsed, clusterConfig, resolveResource(resources, 'nodes'), name);
+  }
+}
+
+async function planDrain(parsed: ParsedCommand, clusterConfig: ClusterConnection, nodes: ApiResource, nodeName: string): Promise<MutationPlan> {
+  const ignoreDaemonSets = hasFlag(parsed, 'ignore-daemonsets');
+  const deleteEmptyDirData = hasFlag(parsed, 'delete-emptydir-data');
+  const force = hasFlag(parsed, 'force');
+  const gracePeriod = getFlag(parsed, 'grace-period');
+
+  const pods = await kubeGetJson<ObjectList<Pod>>(
+    clusterConfig,
+    `/api/v1/pods?fieldSelector=${encodeURIComponent(`spec.nodeName=${nodeName},status.phase!=Succeeded,status.phase!=Failed`)}`
+  );
+
+  // Mirrors kubectl drain's pod filters
+  const preamble: string[] = [];
+  const blockers: string[] = [];
+  const evict: Pod[] = [];
+  for (const pod of pods.items || []) {
+    const ref = `${pod.metadata.namespace}/${pod.metadata.name}`;
+    const controller = (pod.metadata.ownerReferences || []).find((owner) => owner.controller);
+
+    if (pod.metadata.annotations?.['kubernetes.io/config.mirror']) {
+      continue;
+    }
+    if (controller?.kind === 'DaemonSet') {
+      if (ignoreDaemonSets) {
+        preamble.push(`Warning: ignoring DaemonSet-managed Pods: ${ref}`);
+      } else {
+        blockers.push(`cannot delete DaemonSet-managed Pods (use --ignore-daemonsets to ignore): ${ref}`);
+      }
+      continue;
+    }
+    if (!controller && !force) {
+      blockers.push(`cannot delete Pods that declare no controller (use --force to override): ${ref}`);
+      continue;
+    }
+    if ((pod.spec?.volumes || []).some((volume) => volume.emptyDir) && !deleteEmptyDirData) {
+      blockers.push(`cannot delete Pods with local storage (use --delete-emptydir-data to override): ${ref}`);
+      continue;
+    }
+    evict.push(pod);
+  }
+
+  if (blockers.length) {
+    throw new Error(`unable to drain node "${nodeName}" due to error:\n${blockers.join('\n')}`);
+  }
+
+  return {
+    verb: 'drain',
+    resource: nodes,
+    name: nodeName,
+    preamble,
+    operations: [
+      {
+        method: 'PATCH',
+        action: 'patch',
+        target: `node/${nodeName}`,
+        path: resourcePath(nodes, undefined, nodeName),
+        objectPath: resourcePath(nodes, undefined, nodeName),
+        contentType: 'application/merge-patch+json',
+        body: { spec: { unschedulable: true } },
+        message: `node/${nodeName} cordoned`,
+      },
+      ...evict.map((pod): MutationOperation => ({
+        method: 'POST',
+        action: 'evict',
+        target: `pod/${pod.metadata.name}`,
+        path: `/api/v1/namespaces/${pod.metadata.namespace}/pods/${pod.metadata.name}/eviction`,
+        objectPath: `/api/v1/namespaces/${pod.metadata.namespace}/pods/${pod.metadata.name}`,
+        body: {
+          apiVersion: 'policy/v1',
+          kind: 'Eviction',
+          metadata: { name: pod.metadata.name, namespace: pod.metadata.namespace },
+          ...(gracePeriod !== undefined && { deleteOptions: { gracePeriodSeconds: Number(gracePeriod) } }),
+        },
+        message: `pod/${pod.metadata.name} evicted`,
+        continueOnError: true,
+      })),
+    ],
+  };
+}
+
+// With dryRun the same calls go out with ?dryRun=All and we diff the server's answer
+// against the live object instead of changing anything.
+export async function runMutation(plan: MutationPlan, clusterConfig: ClusterConnection, dryRun = false) {
+  const suffix = dryRun ? ' (server dry run)' : '';
+  const lines = [...plan.preamble];
+  const failures: string[] = [];
+  const diff: ObjectDiff[] = [];
+
+  for (const operation of plan.operations) {
+    const before = dryRun ? await kubeGetJson<unknown>(clusterConfig, operation.objectPath) : null;
+
+    const response = await kubeFetch(clusterConfig, dryRun ? `${operation.path}?dryRun=All` : operation.path, {
+      method: operation.method,
+      headers: { 'Content-Type': operation.contentType ?? 'application/json' },
+      body: operation.body === undefined ? undefined : JSON.stringify(operation.body),
+    });
+
+    if (!response.ok) {
+      const errorText = await response.text();
+      // 429 on eviction means a PodDisruptionBudget is holding the pod
+      const failure = response.status === 429
+        ? `error when evicting ${operation.target}: Cannot evict pod as it would violate the pod's disruption budget`
+        : `Kubernetes API error (${response.status}): ${errorText}`;
+      if (!operation.continueOnError) {
+        return { success: false, error: [...lines, failure].join('\n'), ...(dryRun && { diff }) };
+      }
+      failures.push(failure);
+      continue;
+    }
+
+    if (dryRun) {
+      const after = await response.json();
+      diff.push({
+        target: operation.target,
+        action: operation.action,
+        changes: operation.action === 'patch' ? diffObjects(before, after) : [],
+      });
+    } else {
+      await response.body?.cancel();
+    }
+    lines.push(`${operation.message}${suffix}`);
+  }
+
+  if (plan.verb === 'drain') {
+    if (failures.length) {
+      return {
+        success: false,
+        error: [...lines, ...failures, `error: unable to drain node "${plan.name}"`].join('\n'),
+        ...(dryRun && { diff })
+      };
+    }
+    lines.push(`node/${plan.name} drained${suffix}`);
+  }
+
+  return { success: true, output: lines.join('\n') + '\n', ...(dryRun && { diff }) };
+}
@@ -0,0 +1,291 @@
+// The parts of Kubernetes API objects the kubectl function reads. Everything the API server
+// may leave out is optional; fields we never look at are not declared.
+
+export interface OwnerReference {
+  kind: string;
+  name: string;
+  uid: string;
+  controller?: boolean;
+}
+
+export interface ObjectMeta {
+  name: string;
+  namespace?: string;
+  uid?: string;
+  labels?: Record<string, string>;
+  annotations?: Record<string, string>;
+  ownerReferences?: OwnerReference[];
+  creationTimestamp: string;
+  deletionTimestamp?: string;
+  managedFields?: unknown[];
+}
+
+// Any object, for code that only needs its metadata
+export interface KubeObject {
+  apiVersion?: string;
+  kind?: string;
+  metadata: ObjectMeta;
+  [field: string]: unknown;
+}
+
+export interface ObjectList<T> {
+  items?: T[];
+}
+
+export interface LabelSelector {
+  matchLabels?: Record<string, string>;
+  matchExpressions?: { key: string; operator: string; values?: string[] }[];
+}
+
+export type ResourceList = Record<string, string>;
+
+export interface Condition {
+  type: string;
+  status: string;
+  reason?: string;
+  message?: string;
+  lastHeartbeatTime?: string;
+  lastTransitionTime?: string;
+}
+
+export interface Probe {
+  httpGet?: { scheme?: string; host?: string; port: number | string; path?: string };
+  tcpSocket?: { port: number | string };
+  exec?: { command?: string[] };
+  grpc?: { port: number; service?: string };
+  initialDelaySeconds?: number;
+  timeoutSeconds?: number;
+  periodSeconds?: number;
+  successThreshold?: number;
+  failureThreshold?: number;
+}
+
+export interface EnvVar {
+  name: string;
+  value?: string;
+  valueFrom?: {
+    secretKeyRef?: { name: string; key: string };
+    configMapKeyRef?: { name: string; key: string };
+    fieldRef?: { apiVersion?: string; fieldPath: string };
+    resourceFieldRef?: { resource: string };
+  };
+}
+
+export interface Container {
+  name: string;
+  image?: string;
+  command?: string[];
+  args?: string[];
+  ports?: { name?: string; containerPort: number; hostPort?: number; protocol?: string }[];
+  env?: EnvVar[];
+  resources?: { limits?: ResourceList; requests?: ResourceList };
+  volumeMounts?: { name: string; mountPath: string; readOnly?: boolean; subPath?: string }[];
+  livenessProbe?: Probe;
+  readinessProbe?: Probe;
+  startupProbe?: Probe;
+}
+
+export interface ContainerState {
+  running?: { startedAt?: string };
+  waiting?: { reason?: string; message?: string };
+  terminated?: {
+    reason?: string;
+    message?: string;
+    exitCode: number;
+    signal?: number;
+    startedAt?: string;
+    finishedAt?: string;
+  };
+}
+
+export interface ContainerStatus {
+  name: string;
+  containerID?: string;
+  imageID?: string;
+  state?: ContainerState;
+  lastState?: ContainerState;
+  ready?: boolean;
+  restartCount?: number;
+}
+
+export interface Toleration {
+  key?: string;
+  operator?: string;
+  value?: string;
+  effect?: string;
+  tolerationSeconds?: number;
+}
+
+export interface Volume {
+  name: string;
+  configMap?: { name: string; optional?: boolean };
+  secret?: { secretName: string; optional?: boolean };
+  persistentVolumeClaim?: { claimName: string; readOnly?: boolean };
+  emptyDir?: { medium?: string; sizeLimit?: string };
+  hostPath?: { path: string; type?: string };
+  projected?: {
+    sources?: {
+      serviceAccountToken?: { expirationSeconds?: number };
+      configMap?: { name: string };
+      secret?: { name: string };
+      downwardAPI?: unknown;
+    }[];
+  };
+}
+
+export interface PodSpec {
+  containers?: Container[];
+  initContainers?: Container[];
+  nodeName?: string;
+  priority?: number;
+  priorityClassName?: string;
+  serviceAccountName?: string;
+  volumes?: Volume[];
+  nodeSelector?: Record<string, string>;
+  tolerations?: Toleration[];
+}
+
+export interface PodStatus {
+  phase?: string;
+  reason?: string;
+  message?: string;
+  hostIP?: string;
+  podIP?: string;
+  podIPs?: { ip: string }[];
+  startTime?: string;
+  qosClass?: string;
+  conditions?: Condition[];
+  containerStatuses?: ContainerStatus[];
+  initContainerStatuses?: ContainerStatus[];
+}
+
+export interface Pod {
+  metadata: ObjectMeta;
+  spec?: PodSpec;
+  status?: PodStatus;
+}
+
+export interface PodTemplateSpec {
+  metadata?: { labels?: Record<string, string>; annotations?: Record<string, string> };
+  spec?: PodSpec;
+}
+
+export interface DeploymentSpec {
+  replicas?: number;
+  selector?: LabelSelector;
+  template?: PodTemplateSpec;
+  minReadySeconds?: number;
+  strategy?: {
+    type?: string;
+    rollingUpdate?: { maxUnavailable?: number | string; maxSurge?: number | string };
+  };
+}
+
+export interface DeploymentStatus {
+  replicas?: number;
+  updatedReplicas?: number;
+  availableReplicas?: number;
+  unavailableReplicas?: number;
+  conditions?: Condition[];
+}
+
+export interface Deployment {
+  metadata: ObjectMeta;
+  spec?: DeploymentSpec;
+  status?: DeploymentStatus;
+}
+
+export interface ReplicaSetSpec {
+  replicas?: number;
+  selector?: LabelSelector;
+  template?: PodTemplateSpec;
+}
+
+export interface ReplicaSetStatus {
+  replicas?: number;
+  conditions?: Condition[];
+}
+
+export interface ReplicaSet {
+  metadata: ObjectMeta;
+  spec?: ReplicaSetSpec;
+  status?: ReplicaSetStatus;
+}
+
+export interface NodeSpec {
+  taints?: { key: string; value?: string; effect: string }[];
+  unschedulable?: boolean;
+  podCIDR?: string;
+  providerID?: string;
+}
+
+export interface NodeStatus {
+  conditions?: Condition[];
+  addresses?: { type: string; address: string }[];
+  capacity?: ResourceList;
+  allocatable?: ResourceList;
+  nodeInfo?: Record<
+    'machineID' | 'systemUUID' | 'bootID' | 'kernelVersion' | 'osImage' | 'operatingSystem' |
+    'architecture' | 'containerRuntimeVersion' | 'kubeletVersion' | 'kubeProxyVersion',
+    string
+  >;
+}
+
+// Named so it doesn't shadow the DOM's Node
+export interface KubeNode {
+  metadata: ObjectMeta;
+  spec?: NodeSpec;
+  status?: NodeStatus;
+}
+
+export interface ServiceSpec {
+  selector?: Record<string, string>;
+  type?: string;
+  ipFamilyPolicy?: string;
+  ipFamilies?: string[];
+  clusterIP?: string;
+  clusterIPs?: string[];
+  externalIPs?: string[];
+  externalName?: string;
+  ports?: { name?: string; port: number; targetPort?: number | string; nodePort?: number; protocol?: string }[];
+  sessionAffinity?: string;
+  externalTrafficPolicy?: string;
+  internalTrafficPolicy?: string;
+}
+
+export interface Service {
+  metadata: ObjectMeta;
+  spec?: ServiceSpec;
+  status?: { loadBalancer?: { ingress?: { ip?: string; hostname?: string }[] } };
+}
+
+export interface Endpoints {
+  subsets?: {
+    addresses?: { ip: string }[];
+    ports?: { name?: string; port: number }[];
+  }[];
+}
+
+export interface Secret {
+  metadata: ObjectMeta;
+  type?: string;
+  // Base64-encoded values
+  data?: Record<string, string>;
+  // Write-only, but a hand-built object can still carry it
+  stringData?: Record<string, string>;
+}
+
+// Named so it doesn't shadow the DOM's Event
+export interface KubeEvent {
+  metadata: ObjectMeta;
+  type?: string;
+  reason?: string;
+  message?: string;
+  count?: number;
+  series?: { count?: number };
+  firstTimestamp?: string;
+  lastTimestamp?: string;
+  eventTime?: string;
+  source?: { component?: string };
+  reportingComponent?: string;
+}
@@ -0,0 +1,211 @@
+// Renders API responses the way `kubectl get -o ...` would.
+import { stringify as toYaml } from 'https://deno.land/std@0.168.0/encoding/yaml.ts'
+import { hasFlag, type ParsedCommand } from './parser.ts'
+import { evaluateJsonPath, formatJsonPathValue, renderJsonPathTemplate } from './jsonpath.ts'
+import type { ApiResource } from './discovery.ts'
+import type { KubeObject, ObjectMeta } from './objects.ts'
+
+export interface KubeList {
+  apiVersion?: string;
+  kind?: string;
+  items: KubeObject[];
+  metadata?: { resourceVersion?: string };
+}
+
+// What the API server returns for `Accept: ...;as=Table`
+interface Table {
+  kind: 'Table';
+  columnDefinitions?: { name: string; priority?: number }[];
+  rows?: { cells: unknown[]; object?: { metadata?: ObjectMeta } }[];
+}
+
+export type GetResponse = KubeObject | KubeList;
+
+export function isList(data: GetResponse): data is KubeList {
+  return Array.isArray(data.items);
+}
+
+function isTable(data: GetResponse | Table): data is Table {
+  return data.kind === 'Table';
+}
+
+// Ask the API server to render rows itself so every resource type, CRDs included,
+// gets the same columns kubectl would show.
+export const TABLE_ACCEPT_HEADER = 'application/json;as=Table;g=meta.k8s.io;v=v1';
+
+export function wantsServerTable(parsed: ParsedCommand): boolean {
+  return !parsed.output || parsed.output === 'wide';
+}
+
+export function formatGetOutput(
+  parsed: ParsedCommand,
+  data: GetResponse | Table,
+  resource: ApiResource | undefined,
+  namespace: string
+): string {
+  const output = parsed.output ?? '';
+
+  if (isTable(data)) {
+    return formatTable(parsed, data, namespace);
+  }
+  if (!output || output === 'wide') {
+    // Some aggregated APIs can't produce tables; kubectl falls back to NAME/AGE for those too
+    return formatDefaultTable(parsed, data, namespace);
+  }
+
+  const normalized = normalizeForOutput(parsed, data, resource);
+
+  if (output === 'json') {
+    return JSON.stringify(normalized, null, 2) + '\n';
+  }
+  if (output === 'yaml') {
+    return toYaml(normalized);
+  }
+  if (output === 'name') {
+    const kind = resource
+      ? [resource.singularName, resource.group].filter(Boolean).join('.')
+      : (data.kind || '').replace(/List$/, '').toLowerCase();
+    const items = isList(data) ? data.items : [data];
+    return items.map((item) => `${kind}/${item.metadata.name}\n`).join('');
+  }
+  if (output.startsWith('jsonpath=') || output.startsWith('jsonpath-as-json=')) {
+    const template = output.slice(output.indexOf('=') + 1);
+    if (output.startsWith('jsonpath-as-json=')) {
+      return JSON.stringify(evaluateJsonPath(template, normalized), null, 2) + '\n';
+    }
+    return renderJsonPathTemplate(template, normalized);
+  }
+  if (output.startsWith('custom-columns=')) {
+    return formatCustomColumns(parsed, output.slice('custom-columns='.length), normalized);
+  }
+
+  throw new Error(
+    `unable to match a printer suitable for the output format "${output}", allowed formats are: ` +
+    'custom-columns,json,jsonpath,jsonpath-as-json,name,wide,yaml'
+  );
+}
+
+export function renderColumns(rows: string[][]): string {
+  if (rows.length === 0) return '';
+  const widths = rows[0].map((_, i) => Math.max(...rows.map((row) => (row[i] ?? '').length)));
+  return rows
+    .map((row) => row.map((cell, i) => (cell ?? '').padEnd(widths[i])).join('   ').trimEnd())
+    .join('\n') + '\n';
+}
+
+export function calculateAge(timestamp: string): string {
+  const now = new Date();
+  const created = new Date(timestamp);
+  const diff = now.getTime() - created.getTime();
+
+  const days = Math.floor(diff / (1000 * 60 * 60 * 24));
+  const hours = Math.floor((diff % (1000 * 60 * 60 * 24)) / (1000 * 60 * 60));
+  const minutes = Math.floor((diff % (1000 * 60 * 60)) / (1000 * 60));
+
+  if (days > 0) return `${days}d`;
+  if (hours > 0) return `${hours}h`;
+  return `${minutes}m`;
+}
+
+function noResources(parsed: ParsedCommand, namespace: string): string {
+  return parsed.allNamespaces
+    ? 'No resources found\n'
+    : `No resources found in ${namespace} namespace.\n`;
+}
+
+function formatTable(parsed: ParsedCommand, table: Table, namespace: string): string {
+  const wide = parsed.output === 'wide';
+  const rows = table.rows || [];
+  if (rows.length === 0) {
+    return noResources(parsed, namespace);
+  }
+
+  // priority 0 columns are the default view, anything higher only shows up with -o wide
+  const columns = (table.columnDefinitions || [])
+    .map((column, index) => ({ ...column, index }))
+    .filter((column) => wide || !column.priority);
+
+  const header = columns.map((column) => column.name.toUpperCase());
+  const body = rows.map((row) => columns.map((column) => formatCell(row.cells[column.index])));
+
+  return renderColumns(decorateRows(parsed, header, body, rows.map((row) => row.object?.metadata)));
+}
+
+function formatDefaultTable(parsed: ParsedCommand, data: GetResponse, namespace: string): string {
+  const items = isList(data) ? data.items : [data];
+  if (items.length === 0) {
+    return noResources(parsed, namespace);
+  }
+  const body = items.map((item) => [item.metadata.name, calculateAge(item.metadata.creationTimestamp)]);
+  return renderColumns(decorateRows(parsed, ['NAME', 'AGE'], body, items.map((item) => item.metadata)));
+}
+
+// Adds the NAMESPACE/LABELS columns and drops headers according to the get flags
+function decorateRows(parsed: ParsedCommand, header: string[], body: string[][], metadata: (ObjectMeta | undefined)[]): string[][] {
+  let rows = [header, ...body];
+  const meta = [null, ...metadata];
+
+  if (parsed.allNamespaces) {
+    rows = rows.map((row, i) => [i === 0 ? 'NAMESPACE' : meta[i]?.namespace ?? '', ...row]);
+  }
+  if (hasFlag(parsed, 'show-labels')) {
+    rows = rows.map((row, i) => [...row, i === 0 ? 'LABELS' : formatLabels(meta[i]?.labels)]);
+  }
+  if (hasFlag(parsed, 'no-headers')) {
+    rows = rows.slice(1);
+  }
+  return rows;
+}
+
+function formatCustomColumns(parsed: ParsedCommand, spec: string, data: GetResponse): string {
+  const columns = spec.split(',').map((column) => {
+    const separator = column.indexOf(':');
+    if (separator === -1) {
+      throw new Error(`custom-columns format expects NAME:PATH pairs, got "${column}"`);
+    }
+    return { name: column.slice(0, separator), path: column.slice(separator + 1) };
+  });
+
+  const items = isList(data) ? data.items : [data];
+  const rows = items.map((item) => columns.map((column) => {
+    const values = evaluateJsonPath(column.path, item);
+    return values.length ? values.map(formatJsonPathValue).join(',') : '<none>';
+  }));
+
+  return renderColumns(hasFlag(parsed, 'no-headers') ? rows : [columns.map((c) => c.name), ...rows]);
+}
+
+// List items come back without kind/apiVersion; kubectl fills them in and hides managedFields
+function normalizeForOutput(parsed: ParsedCommand, data: GetResponse, resource?: ApiResource): GetResponse {
+  const showManagedFields = hasFlag(parsed, 'show-managed-fields');
+  const clean = (item: KubeObject): KubeObject => {
+    if (showManagedFields || !item.metadata?.managedFields) return item;
+    const { managedFields: _managedFields, ...metadata } = item.metadata;
+    return { ...item, metadata };
+  };
+
+  if (!isList(data)) {
+    return clean(data);
+  }
+
+  return {
+    apiVersion: 'v1',
+    kind: 'List',
+    items: data.items.map((item) => clean({
+      ...(resource && { apiVersion: resource.groupVersion, kind: resource.kind }),
+      ...item,
+    })),
+    metadata: { resourceVersion: '' },
+  };
+}
+
+function formatCell(cell: unknown): string {
+  if (cell === null || cell === undefined) return '<none>';
+  if (typeof cell === 'object') return JSON.stringify(cell);
+  return String(cell);
+}
+
+function formatLabels(labels?: Record<string, string>): string {
+  if (!labels || Object.keys(labels).length === 0) return '<none>';
+  return Object.entries(labels).map(([key, value]) => `${key}=${value}`).join(',');
+}
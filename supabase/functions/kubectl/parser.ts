@@ -0,0 +1,205 @@
+// Tokenizer and flag parser for the subset of kubectl syntax we proxy to the API server.
+
+export interface ParsedCommand {
+  verb: string;
+  args: string[];
+  flags: Record<string, string[]>;
+  namespace?: string;
+  allNamespaces: boolean;
+  labelSelector?: string;
+  fieldSelector?: string;
+  output?: string;
+  // Everything after a bare `--`, e.g. the command for `kubectl exec pod -- ls`
+  trailing: string[];
+}
+
+// Short flags shared by every verb
+const SHORT_FLAGS: Record<string, string> = {
+  n: 'namespace',
+  o: 'output',
+  l: 'selector',
+  A: 'all-namespaces',
+  c: 'container',
+  w: 'watch',
+  i: 'stdin',
+  t: 'tty',
+};
+
+// Short flags whose meaning depends on the verb
+const VERB_SHORT_FLAGS: Record<string, Record<string, string>> = {
+  logs: { f: 'follow', p: 'previous' },
+  apply: { f: 'filename' },
+  delete: { f: 'filename' },
+};
+
+// Flags that never take a value; every other flag consumes one
+const BOOLEAN_FLAGS = new Set([
+  'all-namespaces',
+  'show-labels',
+  'no-headers',
+  'show-managed-fields',
+  'watch',
+  'follow',
+  'previous',
+  'timestamps',
+  'containers',
+  'stdin',
+  'tty',
+  'force',
+  'ignore-daemonsets',
+  'delete-emptydir-data',
+  'server-side',
+  'force-conflicts',
+]);
+
+export function tokenize(input: string): string[] {
+  const tokens: string[] = [];
+  let current = '';
+  let inToken = false;
+  let quote: '"' | "'" | null = null;
+
+  for (let i = 0; i < input.length; i++) {
+    const char = input[i];
+
+    if (quote) {
+      if (char === quote) {
+        quote = null;
+      } else if (char === '\\' && quote === '"' && i + 1 < input.length) {
+        current += input[++i];
+      } else {
+        current += char;
+      }
+      continue;
+    }
+
+    if (char === '"' || char === "'") {
+      quote = char;
+      inToken = true;
+    } else if (char === '\\' && i + 1 < input.length) {
+      current += input[++i];
+      inToken = true;
+    } else if (/\s/.test(char)) {
+      if (inToken) {
+        tokens.push(current);
+        current = '';
+        inToken = false;
+      }
+    } else {
+      current += char;
+      inToken = true;
+    }
+  }
+
+  if (quote) {
+    throw new Error(`Unterminated ${quote === '"' ? 'double' : 'single'} quote in command`);
+  }
+  if (inToken) {
+    tokens.push(current);
+  }
+
+  return tokens;
+}
+
+export function parseKubectlCommand(command: string): ParsedCommand {
+  const tokens = tokenize(command.trim());
+  if (tokens[0] !== 'kubectl') {
+    throw new Error('Only kubectl commands are supported');
+  }
+
+  const positional: string[] = [];
+  const flags: Record<string, string[]> = {};
+  const trailing: string[] = [];
+  let verb = '';
+
+  const setFlag = (name: string, value: string) => {
+    (flags[name] ??= []).push(value);
+  };
+
+  for (let i = 1; i < tokens.length; i++) {
+    const token = tokens[i];
+
+    if (token === '--') {
+      trailing.push(...tokens.slice(i + 1));
+      break;
+    }
+
+    if (token.startsWith('--')) {
+      const eq = token.indexOf('=');
+      const name = eq === -1 ? token.slice(2) : token.slice(2, eq);
+      if (!name) {
+        throw new Error(`Invalid flag "${token}"`);
+      }
+      if (eq !== -1) {
+        setFlag(name, token.slice(eq + 1));
+      } else if (BOOLEAN_FLAGS.has(name)) {
+        setFlag(name, 'true');
+      } else if (i + 1 < tokens.length) {
+        setFlag(name, tokens[++i]);
+      } else {
+        throw new Error(`Flag --${name} requires a value`);
+      }
+      continue;
+    }
+
+    if (token.startsWith('-') && token.length > 1) {
+      // Short flags may be combined (-it) and may carry their value inline (-nkube-system, -n=kube-system)
+      const shortFlags = { ...SHORT_FLAGS, ...VERB_SHORT_FLAGS[verb] };
+      for (let j = 1; j < token.length; j++) {
+        const name = shortFlags[token[j]];
+        if (!name) {
+          throw new Error(`Unknown shorthand flag '${token[j]}' in "${token}"`);
+        }
+        if (BOOLEAN_FLAGS.has(name)) {
+          setFlag(name, 'true');
+          continue;
+        }
+        const inline = token.slice(j + 1).replace(/^=/, '');
+        if (inline) {
+          setFlag(name, inline);
+        } else if (i + 1 < tokens.length) {
+          setFlag(name, tokens[++i]);
+        } else {
+          throw new Error(`Flag -${token[j]} requires a value`);
+        }
+        break;
+      }
+      continue;
+    }
+
+    if (!verb) {
+      verb = token;
+    } else {
+      positional.push(token);
+    }
+  }
+
+  if (!verb) {
+    throw new Error('No kubectl command given');
+  }
+
+  const parsed: ParsedCommand = {
+    verb,
+    args: positional,
+    flags,
+    allNamespaces: false,
+    trailing,
+  };
+
+  parsed.namespace = getFlag(parsed, 'namespace');
+  parsed.allNamespaces = hasFlag(parsed, 'all-namespaces');
+  parsed.labelSelector = flags['selector']?.join(',');
+  parsed.fieldSelector = flags['field-selector']?.join(',');
+  parsed.output = getFlag(parsed, 'output');
+
+  return parsed;
+}
+
+export function getFlag(parsed: ParsedCommand, name: string): string | undefined {
+  const values = parsed.flags[name];
+  return values ? values[values.length - 1] : undefined;
+}
+
+export function hasFlag(parsed: ParsedCommand, name: string): boolean {
+  const value = getFlag(parsed, name);
+  return value !== undefined && value !== 'false';
+}
@@ -0,0 +1,288 @@
+// `kubectl port-forward` without a local listener: each forward becomes a short-lived session
+// with a secret proxy URL, and every HTTP request to that URL is tunnelled to the pod through
+// the API server's portforward WebSocket (portforward.k8s.io).
+//
+// On that socket channel 0 carries data and channel 1 errors for the first requested port;
+// the first message on each channel is the port number (2 bytes, little endian) and no data.
+import { type ParsedCommand } from './parser.ts'
+import { channelFrame, kubeGetJson, kubeWebSocket, type ClusterConnection } from '../_shared/kube.ts'
+import type { Pod } from './objects.ts'
+
+const PORT_FORWARD_PROTOCOL = 'portforward.k8s.io';
+const DATA_CHANNEL = 0;
+const ERROR_CHANNEL = 1;
+
+export const PORT_FORWARD_TTL_MINUTES = 15;
+const REQUEST_TIMEOUT_MS = 30_000;
+
+// Headers that describe the hop to us rather than the request to the pod
+const HOP_BY_HOP_HEADERS = new Set([
+  'connection', 'keep-alive', 'transfer-encoding', 'upgrade', 'host', 'content-length',
+  'proxy-connection', 'te', 'trailer', 'authorization', 'apikey', 'x-client-info',
+]);
+
+export interface PortMapping {
+  localPort: number;
+  remotePort: number;
+}
+
+export interface PortForwardTarget {
+  namespace: string;
+  podName: string;
+  mappings: PortMapping[];
+}
+
+// Returned to the browser for each forwarded port
+export interface PortForwardSession {
+  id: string;
+  url: string;
+  podName: string;
+  namespace: string;
+  localPort: number;
+  remotePort: number;
+  expiresAt: string;
+}
+
+function parsePort(value: string, spec: string): number {
+  const port = Number(value);
+  if (!/^\d+$/.test(value) || port < 1 || port > 65535) {
+    throw new Error(`invalid port "${spec}": ports must be numbers between 1 and 65535`);
+  }
+  return port;
+}
+
+// Accepts pod/x or x, then one or more LOCAL:REMOTE, :REMOTE or PORT specs like kubectl
+export async function resolvePortForward(parsed: ParsedCommand, clusterConfig: ClusterConnection): Promise<PortForwardTarget> {
+  const [target, ...ports] = parsed.args;
+  if (!target || ports.length === 0) {
+    throw new Error('kubectl port-forward requires a pod and at least one port, e.g. kubectl port-forward pod/web 8080:80');
+  }
+
+  const [type, name] = target.includes('/') ? target.split('/', 2) : ['pod', target];
+  if (!['pod', 'pods', 'po'].includes(type)) {
+    throw new Error(`port-forwarding to ${type} is not supported here; forward to a pod instead`);
+  }
+
+  const namespace = parsed.namespace || clusterConfig.namespace || 'default';
+  const pod = await kubeGetJson<Pod>(clusterConfig, `/api/v1/namespaces/${encodeURIComponent(namespace)}/pods/${encodeURIComponent(name)}`);
+  if (pod.status?.phase !== 'Running') {
+    throw new Error(`unable to forward port because pod is not running. Current status=${pod.status?.phase}`);
+  }
+
+  const mappings = ports.map((spec) => {
+    const [local, remote] = spec.includes(':') ? spec.split(':', 2) : [spec, spec];
+    const remotePort = parsePort(remote, spec);
+    return { localPort: local ? parsePort(local, spec) : remotePort, remotePort };
+  });
+
+  return { namespace, podName: name, mappings };
+}
+
+export function generateSessionToken(): string {
+  const bytes = crypto.getRandomValues(new Uint8Array(32));
+  return Array.from(bytes, (b) => b.toString(16).padStart(2, '0')).join('');
+}
+
+export async function hashSessionToken(token: string): Promise<string> {
+  const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(token));
+  return Array.from(new Uint8Array(digest), (b) => b.toString(16).padStart(2, '0')).join('');
+}
+
+// Proxy URLs look like .../kubectl/port-forward/<session id>/<token>/<path on the pod>
+export function matchProxyPath(pathname: string): { sessionId: string; token: string; path: string } | null {
+  const match = pathname.match(/\/port-forward\/([0-9a-f-]{36})\/([0-9a-f]{64})(\/.*)?$/);
+  if (!match) return null;
+  return { sessionId: match[1], token: match[2], path: match[3] || '/' };
+}
+
+function concat(chunks: Uint8Array[]): Uint8Array {
+  const bytes = new Uint8Array(chunks.reduce((total, chunk) => total + chunk.length, 0));
+  let offset = 0;
+  for (const chunk of chunks) {
+    bytes.set(chunk, offset);
+    offset += chunk.length;
+  }
+  return bytes;
+}
+
+function indexOfSequence(bytes: Uint8Array, sequence: number[], from = 0): number {
+  outer: for (let i = from; i <= bytes.length - sequence.length; i++) {
+    for (let j = 0; j < sequence.length; j++) {
+      if (bytes[i + j] !== sequence[j]) continue outer;
+    }
+    return i;
+  }
+  return -1;
+}
+
+const CRLF = [13, 10];
+const HEADER_END = [13, 10, 13, 10];
+
+// Undo Transfer-Encoding: chunked; null until the terminating zero-length chunk has arrived
+function dechunk(bytes: Uint8Array): Uint8Array | null {
+  const chunks: Uint8Array[] = [];
+  let offset = 0;
+  while (true) {
+    const lineEnd = indexOfSequence(bytes, CRLF, offset);
+    if (lineEnd === -1) return null;
+    const size = parseInt(new TextDecoder().decode(bytes.subarray(offset, lineEnd)).split(';')[0], 16);
+    if (Number.isNaN(size)) throw new Error('malformed chunked response from the pod');
+    if (size === 0) return concat(chunks);
+    const start = lineEnd + 2;
+    if (bytes.length < start + size + 2) return null;
+    chunks.push(bytes.subarray(start, start + size));
+    offset = start + size + 2;
+  }
+}
+
+interface ParsedHttpResponse {
+  status: number;
+  statusText: string;
+  headers: Headers;
+  body: Uint8Array;
+}
+
+// Parse what the pod has sent so far; null while the response is still incomplete.
+// Once the connection has closed whatever arrived is the whole body.
+function parseHttpResponse(bytes: Uint8Array, closed: boolean, head: boolean): ParsedHttpResponse | null {
+  const headerEnd = indexOfSequence(bytes, HEADER_END);
+  if (headerEnd === -1) {
+    if (closed) throw new Error('the pod closed the connection without sending an HTTP response');
+    return null;
+  }
+
+  const [statusLine, ...headerLines] = new TextDecoder().decode(bytes.subarray(0, headerEnd)).split('\r\n');
+  const statusMatch = statusLine.match(/^HTTP\/\d(?:\.\d)?\s+(\d{3})\s*(.*)$/);
+  if (!statusMatch) throw new Error(`the pod did not answer with HTTP: ${statusLine}`);
+
+  const headers = new Headers();
+  for (const line of headerLines) {
+    const colon = line.indexOf(':');
+    if (colon > 0) headers.append(line.slice(0, colon).trim(), line.slice(colon + 1).trim());
+  }
+
+  const status = Number(statusMatch[1]);
+  const raw = bytes.subarray(headerEnd + HEADER_END.length);
+  let body: Uint8Array | null;
+  if (head || [204, 304].includes(status)) {
+    body = new Uint8Array();
+  } else if (headers.get('transfer-encoding')?.toLowerCase().includes('chunked')) {
+    body = dechunk(raw);
+  } else if (headers.has('content-length')) {
+    const length = Number(headers.get('content-length'));
+    body = raw.length >= length ? raw.subarray(0, length) : null;
+  } else {
+    body = closed ? raw : null;
+  }
+  if (!body) {
+    if (closed) throw new Error('the pod closed the connection before the response was complete');
+    return null;
+  }
+
+  return { status, statusText: statusMatch[2], headers, body };
+}
+
+async function serializeRequest(req: Request, path: string, search: string, port: number): Promise<Uint8Array> {
+  const lines = [`${req.method} ${path}${search} HTTP/1.1`, `Host: localhost:${port}`, 'Connection: close'];
+  req.headers.forEach((value, key) => {
+    if (!HOP_BY_HOP_HEADERS.has(key.toLowerCase()) && !key.toLowerCase().startsWith('x-forwarded-')) {
+      lines.push(`${key}: ${value}`);
+    }
+  });
+  const body = req.body ? new Uint8Array(await req.arrayBuffer()) : new Uint8Array();
+  if (body.length || !['GET', 'HEAD'].includes(req.method)) {
+    lines.push(`Content-Length: ${body.length}`);
+  }
+  return concat([new TextEncoder().encode(`${lines.join('\r\n')}\r\n\r\n`), body]);
+}
+
+// Tunnel one HTTP request to the pod and turn the raw HTTP it sends back into a Response.
+// `basePath` is the proxy URL prefix, used to keep absolute redirects inside the tunnel.
+export async function forwardHttpRequest(
+  clusterConfig: ClusterConnection,
+  session: { namespace: string; pod_name: string; remote_port: number },
+  req: Request,
+  path: string,
+  basePath: string
+): Promise<Response> {
+  const request = await serializeRequest(req, path, new URL(req.url).search, session.remote_port);
+  const socket = kubeWebSocket(
+    clusterConfig,
+    `/api/v1/namespaces/${encodeURIComponent(session.namespace)}/pods/${encodeURIComponent(session.pod_name)}/portforward?ports=${session.remote_port}`,
+    PORT_FORWARD_PROTOCOL
+  );
+
+  const parsed = await new Promise<ParsedHttpResponse>((resolve, reject) => {
+    const received: Uint8Array[] = [];
+    const seenPortHeader = new Set<number>();
+    let errorText = '';
+    let settled = false;
+
+    const settle = (result: () => ParsedHttpResponse | null) => {
+      if (settled) return;
+      try {
+        const response = result();
+        if (!response) return;
+        settled = true;
+        clearTimeout(timer);
+        resolve(response);
+      } catch (error) {
+        settled = true;
+        clearTimeout(timer);
+        reject(error);
+      }
+      socket.close();
+    };
+
+    const timer = setTimeout(() => {
+      settle(() => { throw new Error(`the pod did not respond within ${REQUEST_TIMEOUT_MS / 1000}s`); });
+    }, REQUEST_TIMEOUT_MS);
+
+    socket.onopen = () => socket.send(channelFrame(DATA_CHANNEL, request));
+
+    socket.onmessage = (event) => {
+      const bytes = new Uint8Array(event.data as ArrayBuffer);
+      const channel = bytes[0];
+      let data = bytes.subarray(1);
+      if (!seenPortHeader.has(channel)) {
+        seenPortHeader.add(channel);
+        data = data.subarray(2);
+      }
+      if (data.length === 0) return;
+
+      if (channel === DATA_CHANNEL) {
+        received.push(data);
+        settle(() => parseHttpResponse(concat(received), false, req.method === 'HEAD'));
+      } else if (channel === ERROR_CHANNEL) {
+        errorText += new TextDecoder().decode(data);
+      }
+    };
+
+    socket.onerror = () => {
+      settle(() => { throw new Error('unable to open the port-forward connection to the pod'); });
+    };
+
+    socket.onclose = () => {
+      settle(() => {
+        if (errorText) throw new Error(errorText);
+        return parseHttpResponse(concat(received), true, req.method === 'HEAD');
+      });
+    };
+  });
+
+  const headers = new Headers();
+  parsed.headers.forEach((value, key) => {
+    if (!HOP_BY_HOP_HEADERS.has(key.toLowerCase())) headers.append(key, value);
+  });
+  const location = headers.get('location');
+  if (location?.startsWith('/')) {
+    headers.set('location', `${basePath}${location}`);
+  }
+
+  const bodyless = req.method === 'HEAD' || [204, 205, 304].includes(parsed.status);
+  return new Response(bodyless ? null : parsed.body, {
+    status: parsed.status,
+    statusText: parsed.statusText,
+    headers,
+  });
+}
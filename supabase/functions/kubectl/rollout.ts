@@ -0,0 +1,139 @@
+// Deployment history for `kubectl rollout history` and `rollout undo`. Deployments keep no history
+// of their own: each ReplicaSet they own records the revision it was created for and the pod
+// template that revision ran.
+import { stringify as toYaml } from 'https://deno.land/std@0.168.0/encoding/yaml.ts'
+import { getFlag, type ParsedCommand } from './parser.ts'
+import { kubeGetJson, type ClusterConnection } from '../_shared/kube.ts'
+import { renderColumns } from './output.ts'
+import type { Deployment, ObjectList, PodTemplateSpec, ReplicaSet } from './objects.ts'
+
+export const REVISION_ANNOTATION = 'deployment.kubernetes.io/revision';
+const CHANGE_CAUSE_ANNOTATION = 'kubernetes.io/change-cause';
+// Stamped on each ReplicaSet's template by the controller; never part of what the user deployed
+const TEMPLATE_HASH_LABEL = 'pod-template-hash';
+
+const DEPLOYMENT_TYPES = new Set(['deployment', 'deployments', 'deploy', 'deployment.apps', 'deployments.apps']);
+
+export interface DeploymentRevision {
+  revision: number;
+  changeCause: string | null;
+  replicaSet: ReplicaSet;
+  template?: PodTemplateSpec;
+}
+
+// `rollout history deployment/web` and `rollout history deployment web` both name the deployment
+function rolloutDeploymentName(parsed: ParsedCommand): string {
+  const subcommand = parsed.args[0];
+  const args = parsed.args.slice(1);
+  const [typeArg, name] = args[0]?.includes('/') ? args[0].split('/', 2) : [args[0], args[1]];
+  if (!typeArg || !name) {
+    throw new Error(`kubectl rollout ${subcommand} requires a resource type and name`);
+  }
+  if (!DEPLOYMENT_TYPES.has(typeArg)) {
+    throw new Error(`rollout ${subcommand} is only supported for deployments`);
+  }
+  return name;
+}
+
+export function withoutTemplateHash(template: PodTemplateSpec | undefined): PodTemplateSpec {
+  const { [TEMPLATE_HASH_LABEL]: _hash, ...labels } = template?.metadata?.labels ?? {};
+  return { ...template, metadata: { ...template?.metadata, labels } };
+}
+
+export function sameTemplate(a: PodTemplateSpec | undefined, b: PodTemplateSpec | undefined): boolean {
+  return JSON.stringify(withoutTemplateHash(a)) === JSON.stringify(withoutTemplateHash(b));
+}
+
+export async function deploymentRevisions(clusterConfig: ClusterConnection, namespace: string, name: string): Promise<{ deployment: Deployment; revisions: DeploymentRevision[] }> {
+  const base = `/apis/apps/v1/namespaces/${encodeURIComponent(namespace)}`;
+  const deployment = await kubeGetJson<Deployment>(clusterConfig, `${base}/deployments/${encodeURIComponent(name)}`);
+  const selector = Object.entries(deployment.spec?.selector?.matchLabels ?? {})
+    .map(([key, value]) => `${key}=${value}`)
+    .join(',');
+  const replicaSets = await kubeGetJson<ObjectList<ReplicaSet>>(
+    clusterConfig,
+    `${base}/replicasets${selector ? `?labelSelector=${encodeURIComponent(selector)}` : ''}`
+  );
+
+  const revisions = (replicaSets.items ?? [])
+    .filter((rs) => (rs.metadata.ownerReferences ?? []).some((ref) => ref.uid === deployment.metadata.uid))
+    .map((rs): DeploymentRevision => ({
+      revision: Number(rs.metadata.annotations?.[REVISION_ANNOTATION] ?? 0),
+      changeCause: rs.metadata.annotations?.[CHANGE_CAUSE_ANNOTATION] ?? null,
+      replicaSet: rs,
+      template: rs.spec?.template,
+    }))
+    .filter((revision) => revision.revision > 0)
+    .sort((a, b) => a.revision - b.revision);
+
+  return { deployment, revisions };
+}
+
+// The revision `rollout undo` goes back to: --to-revision, else the newest one that isn't current
+export function undoTarget(parsed: ParsedCommand, deployment: Deployment, revisions: DeploymentRevision[]): DeploymentRevision {
+  const requested = getFlag(parsed, 'to-revision');
+  if (requested !== undefined && !/^\d+$/.test(requested)) {
+    throw new Error('--to-revision must be a non-negative integer');
+  }
+  const toRevision = Number(requested ?? 0);
+  const current = Number(deployment.metadata.annotations?.[REVISION_ANNOTATION] ?? 0);
+
+  const target = toRevision
+    ? revisions.find((revision) => revision.revision === toRevision)
+    : [...revisions].reverse().find((revision) => revision.revision !== current);
+  if (!target) {
+    throw new Error(toRevision
+      ? `unable to find specified revision ${toRevision} in history`
+      : `no rollout history found for deployment "${deployment.metadata.name}"`);
+  }
+  return target;
+}
+
+// -o json and -o yaml print what the table summarizes: the revision's pod template with --revision,
+// otherwise the deployment's ReplicaSets oldest first
+function formatHistoryObject(parsed: ParsedCommand, data: unknown): string {
+  if (parsed.output === 'json') {
+    return JSON.stringify(data, null, 2) + '\n';
+  }
+  if (parsed.output === 'yaml') {
+    return toYaml(data as Record<string, unknown>);
+  }
+  throw new Error(`unable to match a printer suitable for the output format "${parsed.output}", allowed formats are: json,yaml`);
+}
+
+export async function rolloutHistory(parsed: ParsedCommand, clusterConfig: ClusterConnection): Promise<string> {
+  const namespace = parsed.namespace || clusterConfig.namespace || 'default';
+  const name = rolloutDeploymentName(parsed);
+  const { revisions } = await deploymentRevisions(clusterConfig, namespace, name);
+
+  const requested = getFlag(parsed, 'revision');
+  if (requested && requested !== '0') {
+    const match = revisions.find((revision) => revision.revision === Number(requested));
+    if (!match) {
+      throw new Error(`unable to find the specified revision ${requested}`);
+    }
+    if (parsed.output) {
+      return formatHistoryObject(parsed, withoutTemplateHash(match.template));
+    }
+    return `deployment.apps/${name} with revision #${match.revision}\nPod Template:\n` +
+      `${JSON.stringify(withoutTemplateHash(match.template), null, 2)}\n`;
+  }
+
+  if (parsed.output) {
+    return formatHistoryObject(parsed, {
+      apiVersion: 'v1',
+      kind: 'List',
+      items: revisions.map(({ replicaSet }) => ({
+        apiVersion: 'apps/v1',
+        kind: 'ReplicaSet',
+        ...replicaSet,
+        spec: { ...replicaSet.spec, template: withoutTemplateHash(replicaSet.spec?.template) },
+      })),
+    });
+  }
+
+  return `deployment.apps/${name}\n` + renderColumns([
+    ['REVISION', 'CHANGE-CAUSE'],
+    ...revisions.map((revision) => [String(revision.revision), revision.changeCause ?? '<none>']),
+  ]);
+}
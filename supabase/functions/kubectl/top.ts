@@ -0,0 +1,168 @@
+// `kubectl top pods|nodes` from the metrics.k8s.io API served by metrics-server.
+import { getFlag, hasFlag, type ParsedCommand } from './parser.ts'
+import { kubeFetch, kubeGetJson, type ClusterConnection } from '../_shared/kube.ts'
+import type { KubeNode, ObjectList, ObjectMeta, ResourceList } from './objects.ts'
+import { renderColumns } from './output.ts'
+import { formatMebibytes, formatMillicores, parseQuantity, percentOf } from '../_shared/quantity.ts'
+
+const METRICS_API = '/apis/metrics.k8s.io/v1beta1';
+
+interface Usage {
+  cpu: number;
+  memory: number;
+}
+
+interface PodMetrics {
+  metadata: ObjectMeta;
+  containers?: { name: string; usage?: ResourceList }[];
+}
+
+interface NodeMetrics {
+  metadata: ObjectMeta;
+  usage?: ResourceList;
+}
+
+function usageOf(usage: ResourceList | undefined): Usage {
+  return { cpu: parseQuantity(usage?.cpu), memory: parseQuantity(usage?.memory) };
+}
+
+// A 404 on a list means metrics-server isn't installed; on a single object it hasn't been scraped yet
+async function getMetrics<T>(clusterConfig: ClusterConnection, path: string, named: boolean): Promise<T | ObjectList<T>> {
+  const response = await kubeFetch(clusterConfig, `${METRICS_API}${path}`);
+  if (response.status === 404) {
+    await response.body?.cancel();
+    throw new Error(named ? 'metrics not available yet' : 'Metrics API not available');
+  }
+  if (!response.ok) {
+    throw new Error(`Kubernetes API error (${response.status}): ${await response.text()}`);
+  }
+  return response.json();
+}
+
+// A named get returns the object itself, anything else a list
+function itemsOf<T>(data: T | ObjectList<T>, named: boolean): T[] {
+  return named ? [data as T] : (data as ObjectList<T>).items ?? [];
+}
+
+// --sort-by only understands cpu and memory, highest first
+function sortKey(parsed: ParsedCommand): keyof Usage | undefined {
+  const sortBy = getFlag(parsed, 'sort-by');
+  if (sortBy === undefined) return undefined;
+  if (sortBy !== 'cpu' && sortBy !== 'memory') {
+    throw new Error(`--sort-by accepts only cpu or memory, got "${sortBy}"`);
+  }
+  return sortBy;
+}
+
+function selectorQuery(parsed: ParsedCommand): string {
+  const query = new URLSearchParams();
+  if (parsed.labelSelector) query.set('labelSelector', parsed.labelSelector);
+  return query.toString() ? `?${query}` : '';
+}
+
+export async function topPods(parsed: ParsedCommand, clusterConfig: ClusterConnection): Promise<string> {
+  const namespace = parsed.namespace || clusterConfig.namespace || 'default';
+  const name = parsed.args[1];
+  const sortBy = sortKey(parsed);
+  const scope = parsed.allNamespaces && !name ? '' : `/namespaces/${encodeURIComponent(namespace)}`;
+
+  const data = await getMetrics<PodMetrics>(
+    clusterConfig,
+    `${scope}/pods${name ? `/${encodeURIComponent(name)}` : selectorQuery(parsed)}`,
+    Boolean(name)
+  );
+  const pods = itemsOf(data, Boolean(name));
+  if (pods.length === 0) {
+    return parsed.allNamespaces ? 'No resources found\n' : `No resources found in ${namespace} namespace.\n`;
+  }
+
+  const withNamespace = (metadata: { namespace?: string }, row: string[]) =>
+    parsed.allNamespaces && !name ? [metadata.namespace ?? '', ...row] : row;
+  const header = (columns: string[]) => withNamespace({ namespace: 'NAMESPACE' }, columns);
+
+  if (hasFlag(parsed, 'containers')) {
+    const rows = pods.flatMap((pod) =>
+      (pod.containers || []).map((container) => ({ pod, container, usage: usageOf(container.usage) }))
+    );
+    if (sortBy) rows.sort((a, b) => b.usage[sortBy] - a.usage[sortBy]);
+    return renderColumns([
+      header(['POD', 'NAME', 'CPU(cores)', 'MEMORY(bytes)']),
+      ...rows.map(({ pod, container, usage }) => withNamespace(pod.metadata, [
+        pod.metadata.name,
+        container.name,
+        formatMillicores(usage.cpu),
+        formatMebibytes(usage.memory),
+      ])),
+    ]);
+  }
+
+  const rows = pods.map((pod) => {
+    const total = (pod.containers || []).reduce((sum: Usage, container) => {
+      const usage = usageOf(container.usage);
+      return { cpu: sum.cpu + usage.cpu, memory: sum.memory + usage.memory };
+    }, { cpu: 0, memory: 0 });
+    return { pod, usage: total };
+  });
+  if (sortBy) rows.sort((a, b) => b.usage[sortBy] - a.usage[sortBy]);
+  return renderColumns([
+    header(['NAME', 'CPU(cores)', 'MEMORY(bytes)']),
+    ...rows.map(({ pod, usage }) => withNamespace(pod.metadata, [
+      pod.metadata.name,
+      formatMillicores(usage.cpu),
+      formatMebibytes(usage.memory),
+    ])),
+  ]);
+}
+
+export async function topNodes(parsed: ParsedCommand, clusterConfig: ClusterConnection): Promise<string> {
+  const name = parsed.args[1];
+  const sortBy = sortKey(parsed);
+  const query = name ? `/${encodeURIComponent(name)}` : selectorQuery(parsed);
+
+  const [metrics, nodes] = await Promise.all([
+    getMetrics<NodeMetrics>(clusterConfig, `/nodes${query}`, Boolean(name)),
+    kubeGetJson<KubeNode | ObjectList<KubeNode>>(clusterConfig, `/api/v1/nodes${query}`),
+  ]);
+  const items = itemsOf(metrics, Boolean(name));
+  if (items.length === 0) {
+    return 'No resources found\n';
+  }
+
+  // Percentages are relative to allocatable, like kubectl
+  const allocatable = new Map<string, Usage>(
+    itemsOf(nodes, Boolean(name)).map((node) => [node.metadata.name, usageOf(node.status?.allocatable)])
+  );
+  const rows = items.map((item) => ({ name: item.metadata.name, usage: usageOf(item.usage) }));
+  if (sortBy) rows.sort((a, b) => b.usage[sortBy] - a.usage[sortBy]);
+
+  return renderColumns([
+    ['NAME', 'CPU(cores)', 'CPU(%)', 'MEMORY(bytes)', 'MEMORY(%)'],
+    ...rows.map(({ name, usage }) => {
+      const capacity = allocatable.get(name);
+      return [
+        name,
+        formatMillicores(usage.cpu),
+        capacity ? `${percentOf(usage.cpu, capacity.cpu)}%` : '<unknown>',
+        formatMebibytes(usage.memory),
+        capacity ? `${percentOf(usage.memory, capacity.memory)}%` : '<unknown>',
+      ];
+    }),
+  ]);
+}
+
+export async function top(parsed: ParsedCommand, clusterConfig: ClusterConnection): Promise<string> {
+  switch (parsed.args[0]) {
+    case 'pod':
+    case 'pods':
+    case 'po':
+      return topPods(parsed, clusterConfig);
+    case 'node':
+    case 'nodes':
+    case 'no':
+      return topNodes(parsed, clusterConfig);
+    default:
+      throw new Error(parsed.args[0]
+        ? `unknown resource "${parsed.args[0]}" for top; use pods or nodes`
+        : 'kubectl top requires pods or nodes');
+  }
+}
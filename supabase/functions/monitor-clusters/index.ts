@@ -1,11 +1,37 @@
 import { serve } from "https://deno.land/std@0.168.0/http/server.ts"
 import { createClient } from 'https://esm.sh/@supabase/supabase-js@2.45.0'
+import { listWatched } from '../_shared/kube.ts'
+import { withCredentials } from '../_shared/credentials.ts'
 
 const corsHeaders = {
   'Access-Control-Allow-Origin': '*',
   'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
 }
 
+interface KubeEvent {
+  metadata: { uid: string; namespace: string };
+  involvedObject?: { name?: string; kind?: string };
+  reason?: string;
+  message?: string;
+  type?: string;
+  source?: { component?: string; host?: string };
+  firstTimestamp?: string;
+  lastTimestamp?: string;
+  count?: number;
+}
+
+interface KubePod {
+  metadata: { name: string; namespace: string };
+  status: {
+    phase?: string;
+    containerStatuses?: {
+      name: string;
+      restartCount?: number;
+      lastState?: { terminated?: { exitCode?: number; reason?: string; finishedAt?: string } };
+    }[];
+  };
+}
+
 serve(async (req) => {
   // Handle CORS preflight requests
   if (req.method === 'OPTIONS') {
@@ -25,11 +51,11 @@ serve(async (req) => {
 
     console.log('Starting cluster monitoring...');
 
-    // Get all active clusters
+    // Get all monitored clusters
     const { data: clusters, error: clustersError } = await supabase
       .from('cluster_configs')
       .select('*')
-      .eq('is_active', true);
+      .eq('is_monitored', true);
 
     if (clustersError) {
       throw clustersError;
@@ -37,7 +63,7 @@ serve(async (req) => {
 
     if (!clusters || clusters.length === 0) {
       return new Response(
-        JSON.stringify({ message: 'No active clusters to monitor' }),
+        JSON.stringify({ message: 'No monitored clusters' }),
         { 
           status: 200, 
           headers: { ...corsHeaders, 'Content-Type': 'application/json' } 
@@ -50,12 +76,13 @@ serve(async (req) => {
     for (const cluster of clusters) {
       try {
         console.log(`Monitoring cluster: ${cluster.name}`);
+        const clusterConfig = await withCredentials(cluster);
         
         // Monitor events
-        const eventsResult = await monitorClusterEvents(cluster, supabase);
+        const eventsResult = await monitorClusterEvents(clusterConfig, supabase);
         
         // Monitor pod health  
-        const podHealthResult = await monitorPodHealth(cluster, supabase);
+        const podHealthResult = await monitorPodHealth(clusterConfig, supabase);
         
         // Analyze and create alerts
         const alertsResult = await analyzeAndCreateAlerts(cluster, supabase);
@@ -107,27 +134,11 @@ serve(async (req) => {
 
 async function monitorClusterEvents(cluster: any, supabase: any) {
   try {
-    const baseUrl = cluster.endpoint.replace(/\/$/, '');
-    const namespace = cluster.namespace || 'default';
-    
-    // Get recent events
-    const eventsUrl = `${baseUrl}/api/v1/namespaces/${namespace}/events`;
-    
-    const response = await fetch(eventsUrl, {
-      headers: {
-        'Authorization': `Bearer ${cluster.token}`,
-        'Content-Type': 'application/json'
-      }
-    });
-
-    if (!response.ok) {
-      throw new Error(`Events API error: ${response.status}`);
-    }
-
-    const eventsData = await response.json();
+    // Get recent events in every watched namespace
+    const events = await listWatched<KubeEvent>(cluster, 'events');
     let processedEvents = 0;
 
-    for (const event of eventsData.items || []) {
+    for (const event of events) {
       try {
         // Insert or update event
         await supabase
@@ -135,7 +146,7 @@ async function monitorClusterEvents(cluster: any, supabase: any) {
           .upsert({
             cluster_id: cluster.id,
             event_uid: event.metadata.uid,
-            namespace: event.namespace,
+            namespace: event.metadata.namespace,
             name: event.involvedObject?.name || 'unknown',
             kind: event.involvedObject?.kind || 'unknown',
             reason: event.reason,
@@ -165,29 +176,14 @@ async function monitorClusterEvents(cluster: any, supabase: any) {
 
 async function monitorPodHealth(cluster: any, supabase: any) {
   try {
-    const baseUrl = cluster.endpoint.replace(/\/$/, '');
-    const namespace = cluster.namespace || 'default';
-    
-    // Get pods
-    const podsUrl = `${baseUrl}/api/v1/namespaces/${namespace}/pods`;
-    
-    const response = await fetch(podsUrl, {
-      headers: {
-        'Authorization': `Bearer ${cluster.token}`,
-        'Content-Type': 'application/json'
-      }
-    });
-
-    if (!response.ok) {
-      throw new Error(`Pods API error: ${response.status}`);
-    }
-
-    const podsData = await response.json();
+    // Get pods in every watched namespace
+    const pods = await listWatched<KubePod>(cluster, 'pods');
     let processedPods = 0;
 
-    for (const pod of podsData.items || []) {
+    for (const pod of pods) {
       try {
         const podName = pod.metadata.name;
+        const namespace = pod.metadata.namespace;
         const status = pod.status.phase;
 
         // Process each container in the pod
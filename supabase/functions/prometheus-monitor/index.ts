@@ -1,5 +1,7 @@
 import { serve } from "https://deno.land/std@0.168.0/http/server.ts"
 import { createClient } from 'https://esm.sh/@supabase/supabase-js@2.45.0'
+import { kubeHttpClient } from '../_shared/kube.ts'
+import { withCredentials } from '../_shared/credentials.ts'
 
 const corsHeaders = {
   'Access-Control-Allow-Origin': '*',
@@ -25,14 +27,14 @@ serve(async (req) => {
 
     console.log('Starting Prometheus metrics collection...');
 
-    // Get all active clusters with their prometheus targets
+    // Get all monitored clusters with their prometheus targets
     const { data: clusters, error: clustersError } = await supabase
       .from('cluster_configs')
       .select(`
         *,
         prometheus_targets!inner(*)
       `)
-      .eq('is_active', true)
+      .eq('is_monitored', true)
       .eq('prometheus_targets.enabled', true);
 
     if (clustersError) {
@@ -54,10 +56,11 @@ serve(async (req) => {
     for (const cluster of clusters) {
       try {
         console.log(`Collecting metrics for cluster: ${cluster.name}`);
+        const clusterConfig = await withCredentials(cluster);
         
         // Collect metrics from each prometheus target
         for (const target of cluster.prometheus_targets) {
-          const metricsResult = await collectPrometheusMetrics(cluster, target, supabase);
+          const metricsResult = await collectPrometheusMetrics(clusterConfig, target, supabase);
           results.push({
             clusterId: cluster.id,
             clusterName: cluster.name,
@@ -181,7 +184,9 @@ async function collectPrometheusMetrics(cluster: any, target: any, supabase: any
           headers['Authorization'] = `Bearer ${target.auth_token}`;
         }
 
-        const response = await fetch(url, { headers });
+        // Targets are often exposed with the cluster's own CA, so trust it alongside the system roots
+        const client = kubeHttpClient(cluster, { clientAuth: false });
+        const response = await fetch(url, { headers, ...(client && { client }) } as RequestInit);
 
         if (!response.ok) {
           console.error(`Prometheus query failed for ${queryDef.name}: ${response.status}`);
@@ -0,0 +1,10 @@
+-- Allowlist of write commands the kubectl function may run against each cluster
+ALTER TABLE public.cluster_configs
+  ADD COLUMN allowed_verbs TEXT[] NOT NULL DEFAULT '{}'::text[],
+  ADD CONSTRAINT cluster_configs_allowed_verbs_check CHECK (allowed_verbs <@ ARRAY['scale', 'rollout restart', 'delete', 'cordon', 'uncordon', 'drain']::text[]);
+
+-- Flag write commands in the audit log
+ALTER TABLE public.kubectl_logs
+  ADD COLUMN mutating BOOLEAN NOT NULL DEFAULT false;
+
+CREATE INDEX idx_kubectl_logs_cluster_mutating ON public.kubectl_logs(cluster_id, mutating, executed_at DESC);
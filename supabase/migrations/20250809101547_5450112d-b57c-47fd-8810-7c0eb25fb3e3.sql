@@ -0,0 +1,4 @@
+-- Allow server-side apply of pasted manifests to be enabled per cluster
+ALTER TABLE public.cluster_configs
+  DROP CONSTRAINT cluster_configs_allowed_verbs_check,
+  ADD CONSTRAINT cluster_configs_allowed_verbs_check CHECK (allowed_verbs <@ ARRAY['scale', 'rollout restart', 'delete', 'cordon', 'uncordon', 'drain', 'apply']::text[]);
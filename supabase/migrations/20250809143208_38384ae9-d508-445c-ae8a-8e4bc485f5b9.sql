@@ -0,0 +1,4 @@
+-- Shell access through kubectl exec is opt-in per cluster like the write commands
+ALTER TABLE public.cluster_configs
+  DROP CONSTRAINT cluster_configs_allowed_verbs_check,
+  ADD CONSTRAINT cluster_configs_allowed_verbs_check CHECK (allowed_verbs <@ ARRAY['scale', 'rollout restart', 'delete', 'cordon', 'uncordon', 'drain', 'apply', 'exec']::text[]);
@@ -0,0 +1,36 @@
+-- Port-forward tunnels opened through the kubectl function. Each row backs a short-lived
+-- proxy URL; the kubectl function (service role) creates rows and serves the proxied requests.
+CREATE TABLE public.port_forward_sessions (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  user_id UUID NOT NULL,
+  cluster_id UUID NOT NULL REFERENCES public.cluster_configs(id) ON DELETE CASCADE,
+  namespace TEXT NOT NULL,
+  pod_name TEXT NOT NULL,
+  local_port INTEGER NOT NULL,
+  remote_port INTEGER NOT NULL CHECK (remote_port BETWEEN 1 AND 65535),
+  -- SHA-256 of the secret embedded in the proxy URL
+  token_hash TEXT NOT NULL,
+  expires_at TIMESTAMP WITH TIME ZONE NOT NULL,
+  last_used_at TIMESTAMP WITH TIME ZONE,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+ALTER TABLE public.port_forward_sessions ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their own port-forward sessions" 
+ON public.port_forward_sessions 
+FOR SELECT 
+USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete their own port-forward sessions" 
+ON public.port_forward_sessions 
+FOR DELETE 
+USING (auth.uid() = user_id);
+
+CREATE INDEX idx_port_forward_sessions_user ON public.port_forward_sessions(user_id, expires_at);
+CREATE INDEX idx_port_forward_sessions_expires ON public.port_forward_sessions(expires_at);
+
+-- Port-forwarding reaches inside pods, so it is opt-in per cluster like exec
+ALTER TABLE public.cluster_configs
+  DROP CONSTRAINT cluster_configs_allowed_verbs_check,
+  ADD CONSTRAINT cluster_configs_allowed_verbs_check CHECK (allowed_verbs <@ ARRAY['scale', 'rollout restart', 'delete', 'cordon', 'uncordon', 'drain', 'apply', 'exec', 'port-forward']::text[]);
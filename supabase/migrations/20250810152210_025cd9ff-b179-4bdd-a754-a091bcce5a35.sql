@@ -0,0 +1,12 @@
+-- Client certificate authentication as an alternative to bearer tokens.
+-- Both columns hold PEM, base64-encoded like kubeconfig's client-certificate-data / client-key-data.
+ALTER TABLE public.cluster_configs
+  ADD COLUMN client_certificate_data TEXT,
+  ADD COLUMN client_key_data TEXT,
+  ALTER COLUMN token DROP NOT NULL,
+  ADD CONSTRAINT cluster_configs_credentials_check CHECK (
+    token IS NOT NULL OR (client_certificate_data IS NOT NULL AND client_key_data IS NOT NULL)
+  ),
+  ADD CONSTRAINT cluster_configs_client_certificate_pair_check CHECK (
+    (client_certificate_data IS NULL) = (client_key_data IS NULL)
+  );
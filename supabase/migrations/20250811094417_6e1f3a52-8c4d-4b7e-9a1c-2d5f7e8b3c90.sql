@@ -0,0 +1,10 @@
+-- Results of the last connectivity probe (GET /version, GET /readyz and a SelfSubjectRulesReview),
+-- written by the cluster-probe function after a cluster is saved or re-tested.
+ALTER TABLE public.cluster_configs
+  ADD COLUMN server_version TEXT,
+  ADD COLUMN reachable BOOLEAN,
+  ADD COLUMN ready BOOLEAN,
+  -- resourceRules / nonResourceRules from the review, for the cluster's default namespace
+  ADD COLUMN permissions JSONB,
+  ADD COLUMN probe_problems TEXT[] NOT NULL DEFAULT '{}',
+  ADD COLUMN probed_at TIMESTAMP WITH TIME ZONE;
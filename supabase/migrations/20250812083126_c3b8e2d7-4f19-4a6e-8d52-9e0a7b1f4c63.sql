@@ -0,0 +1,44 @@
+-- Cluster credentials move out of cluster_configs into their own table, encrypted by edge functions
+-- with an application key (CLUSTER_CREDENTIALS_KEY) that never leaves the functions' environment.
+-- RLS is enabled with no policies, so only the service role can read or write it; the browser
+-- saves and exports credentials through the cluster-credentials function.
+CREATE TABLE public.cluster_credentials (
+  cluster_id UUID NOT NULL PRIMARY KEY REFERENCES public.cluster_configs(id) ON DELETE CASCADE,
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  -- Each value is "v1:<key id>:<iv>:<ciphertext>", AES-256-GCM bound to cluster_id
+  token TEXT,
+  certificate_authority_data TEXT,
+  client_certificate_data TEXT,
+  client_key_data TEXT,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+ALTER TABLE public.cluster_credentials ENABLE ROW LEVEL SECURITY;
+
+CREATE TRIGGER update_cluster_credentials_updated_at
+BEFORE UPDATE ON public.cluster_credentials
+FOR EACH ROW
+EXECUTE FUNCTION public.update_updated_at_column();
+
+-- Whether the cluster authenticates with a token or a client certificate; safe for the browser to read
+ALTER TABLE public.cluster_configs
+  ADD COLUMN auth_method TEXT NOT NULL DEFAULT 'token' CHECK (auth_method IN ('token', 'certificate'));
+
+UPDATE public.cluster_configs
+SET auth_method = 'certificate'
+WHERE token IS NULL AND client_certificate_data IS NOT NULL;
+
+-- Existing values are copied as-is; the function's rotate action encrypts them in place.
+-- Until then they are still readable only by the service role.
+INSERT INTO public.cluster_credentials (cluster_id, user_id, token, certificate_authority_data, client_certificate_data, client_key_data)
+SELECT id, user_id, token, certificate_authority_data, client_certificate_data, client_key_data
+FROM public.cluster_configs;
+
+ALTER TABLE public.cluster_configs
+  DROP CONSTRAINT cluster_configs_credentials_check,
+  DROP CONSTRAINT cluster_configs_client_certificate_pair_check,
+  DROP COLUMN token,
+  DROP COLUMN certificate_authority_data,
+  DROP COLUMN client_certificate_data,
+  DROP COLUMN client_key_data;
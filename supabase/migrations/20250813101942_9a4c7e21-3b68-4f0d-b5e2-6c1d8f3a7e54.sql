@@ -0,0 +1,16 @@
+-- "Active" used to mean both "the cluster kubectl talks to" and "the cluster the monitoring jobs poll",
+-- and only one cluster could have it. Which cluster a user is working in is now chosen per browser tab
+-- and sent with every request, so the column only has to say whether a cluster is monitored,
+-- and any number of clusters can be.
+ALTER TABLE public.cluster_configs
+  RENAME COLUMN is_active TO is_monitored;
+
+UPDATE public.cluster_configs
+SET is_monitored = false
+WHERE is_monitored IS NULL;
+
+ALTER TABLE public.cluster_configs
+  ALTER COLUMN is_monitored SET NOT NULL,
+  ALTER COLUMN is_monitored SET DEFAULT false;
+
+CREATE INDEX idx_cluster_configs_monitored ON public.cluster_configs(is_monitored) WHERE is_monitored;
@@ -0,0 +1,9 @@
+-- Namespaces each cluster is scoped to: the dashboard's namespace picker offers them and the
+-- monitoring jobs poll events and pods in every one. watch_all_namespaces uses cluster-wide lists instead.
+ALTER TABLE public.cluster_configs
+  ADD COLUMN watched_namespaces TEXT[] NOT NULL DEFAULT '{}',
+  ADD COLUMN watch_all_namespaces BOOLEAN NOT NULL DEFAULT false;
+
+-- Keep today's behaviour: each cluster watches its default namespace
+UPDATE public.cluster_configs
+SET watched_namespaces = ARRAY[COALESCE(namespace, 'default')];
@@ -0,0 +1,12 @@
+-- Rows copied from cluster_configs by 20250812083126 still hold plaintext. Flag them so the edge
+-- functions encrypt each one the first time they read it (or all at once with the cluster-credentials
+-- `rotate` action), and refuse unencrypted values on any row that is not flagged.
+ALTER TABLE public.cluster_credentials
+  ADD COLUMN legacy_plaintext BOOLEAN NOT NULL DEFAULT false;
+
+UPDATE public.cluster_credentials
+SET legacy_plaintext = true
+WHERE token NOT LIKE 'v1:%'
+   OR certificate_authority_data NOT LIKE 'v1:%'
+   OR client_certificate_data NOT LIKE 'v1:%'
+   OR client_key_data NOT LIKE 'v1:%';
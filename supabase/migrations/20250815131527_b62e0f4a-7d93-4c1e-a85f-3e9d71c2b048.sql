@@ -0,0 +1,4 @@
+-- Allow `kubectl rollout undo` in the per-cluster allowlist; it is a write like rollout restart
+ALTER TABLE public.cluster_configs
+  DROP CONSTRAINT cluster_configs_allowed_verbs_check,
+  ADD CONSTRAINT cluster_configs_allowed_verbs_check CHECK (allowed_verbs <@ ARRAY['scale', 'rollout restart', 'rollout undo', 'delete', 'cordon', 'uncordon', 'drain', 'apply', 'exec', 'port-forward']::text[]);
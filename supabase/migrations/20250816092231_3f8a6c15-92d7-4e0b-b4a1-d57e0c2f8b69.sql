@@ -0,0 +1,7 @@
+-- The terminal previews every write as a dry run before running it, and both are logged with the
+-- same command text. Mark previews so the write history only counts changes that were made.
+ALTER TABLE public.kubectl_logs
+  ADD COLUMN dry_run BOOLEAN NOT NULL DEFAULT false;
+
+DROP INDEX public.idx_kubectl_logs_cluster_mutating;
+CREATE INDEX idx_kubectl_logs_cluster_mutating ON public.kubectl_logs(cluster_id, mutating, executed_at DESC) WHERE NOT dry_run;